@@ -0,0 +1,414 @@
+// Reference server for the "Server" storage adapter (src/services/restAdapter.ts)
+//
+// Keeps diagrams in a SQLite file on disk, using the same stages/flows/attribute columns as
+// the browser database (src/services/migrations.ts). The server's own schema changes are in
+// server/migrations.js. Start with `npm run server`.
+//
+// Environment:
+//   PORT         port to listen on (default 3001)
+//   DATA_FILE    SQLite file to store diagrams in (default server/data/flows.sqlite)
+//   CORS_ORIGIN  value of Access-Control-Allow-Origin (default *)
+import http from 'node:http'
+import fs from 'node:fs'
+import path from 'node:path'
+import { fileURLToPath } from 'node:url'
+import initSqlJs from 'sql.js'
+import { runMigrations } from './migrations.js'
+
+const PORT = Number(process.env.PORT) || 3001
+const DATA_FILE = process.env.DATA_FILE || path.join(path.dirname(fileURLToPath(import.meta.url)), 'data', 'flows.sqlite')
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '*'
+const MAX_BODY_BYTES = 10 * 1024 * 1024
+
+class HttpError extends Error {
+  constructor(status, message, extra = {}) {
+    super(message)
+    this.status = status
+    this.extra = extra
+  }
+}
+
+const SQL = await initSqlJs()
+
+// Open the data file, or start an empty database if there is none yet, and bring its tables up to date
+function openDatabase() {
+  const db = fs.existsSync(DATA_FILE) ? new SQL.Database(fs.readFileSync(DATA_FILE)) : new SQL.Database()
+  runMigrations(db)
+  return db
+}
+
+let db = openDatabase()
+
+const ATTRIBUTE_TYPES = ['text', 'number', 'date', 'url', 'enum']
+
+// Write the database to disk. Goes through a temporary file so a crash can't leave half a file behind.
+function persist() {
+  fs.mkdirSync(path.dirname(DATA_FILE), { recursive: true })
+  const tempFile = `${DATA_FILE}.tmp`
+  fs.writeFileSync(tempFile, db.export())
+  fs.renameSync(tempFile, DATA_FILE)
+}
+
+// Run a query and return rows as objects
+function query(sql, params = []) {
+  const statement = db.prepare(sql)
+  try {
+    statement.bind(params)
+    const rows = []
+    while (statement.step()) rows.push(statement.getAsObject())
+    return rows
+  } finally {
+    statement.free()
+  }
+}
+
+// Optional columns are stored as NULL but left out of the JSON, like in the browser database
+function withoutNulls(row) {
+  return Object.fromEntries(Object.entries(row).filter(([, value]) => value !== null))
+}
+
+function getDiagram(id) {
+  return query('SELECT id, name, createdAt, updatedAt, revision FROM diagrams WHERE id = ?', [id])[0] ?? null
+}
+
+function loadContents(id) {
+  const stages = query(
+    'SELECT id, name, position, yPosition, color, description, pinned, manualBandOrder, manualIncomingBandOrder FROM stages WHERE diagramId = ? ORDER BY rowid',
+    [id]
+  ).map(row => withoutNulls({
+    ...row,
+    pinned: row.pinned ? true : null,
+    manualBandOrder: row.manualBandOrder ? true : null,
+    manualIncomingBandOrder: row.manualIncomingBandOrder ? true : null,
+  }))
+  const flows = query(
+    'SELECT id, name, fromStageId, toStageId, value, branchIndex, color, periodValues, targetIndex FROM flows WHERE diagramId = ? ORDER BY rowid',
+    [id]
+  ).map(row => withoutNulls({ ...row, periodValues: row.periodValues === null ? null : JSON.parse(row.periodValues) }))
+  const sections = query(
+    'SELECT id, name, fromStageId, toStageId, content, color FROM sections WHERE diagramId = ? ORDER BY sortOrder',
+    [id]
+  ).map(withoutNulls)
+  const attributeDefinitions = query(
+    'SELECT id, name, type, options FROM attribute_definitions WHERE diagramId = ? ORDER BY sortOrder',
+    [id]
+  ).map(row => withoutNulls({ ...row, options: row.options === null ? null : JSON.parse(row.options) }))
+
+  // Values go back onto the stages and flows they belong to
+  const items = { stage: new Map(stages.map(stage => [stage.id, stage])), flow: new Map(flows.map(flow => [flow.id, flow])) }
+  for (const row of query('SELECT itemType, itemId, attributeId, value FROM attribute_values WHERE diagramId = ?', [id])) {
+    const item = items[row.itemType]?.get(row.itemId)
+    if (item) item.attributes = { ...item.attributes, [row.attributeId]: row.value }
+  }
+  const settingsRow = query('SELECT settings FROM diagram_settings WHERE diagramId = ?', [id])[0]
+  const settings = settingsRow ? JSON.parse(settingsRow.settings) : {}
+  return { stages, flows, sections, attributeDefinitions, settings }
+}
+
+// Minimal shape check so bad requests fail with 400 instead of a database error. Returns
+// the contents to store, with what older clients leave out filled in.
+function validateContents(body) {
+  if (!Array.isArray(body.stages) || !Array.isArray(body.flows)) {
+    throw new HttpError(400, '"stages" and "flows" must be arrays')
+  }
+  body.stages.forEach((stage, index) => {
+    if (typeof stage?.id !== 'string' || typeof stage.name !== 'string' || !Number.isFinite(stage.position)) {
+      throw new HttpError(400, `stages[${index}] needs a string id and name and a numeric position`)
+    }
+  })
+  const stageIds = new Set(body.stages.map(stage => stage.id))
+  if (stageIds.size !== body.stages.length) throw new HttpError(400, 'Stage ids must be unique')
+  body.flows.forEach((flow, index) => {
+    if (typeof flow?.id !== 'string' || typeof flow.name !== 'string' || !Number.isFinite(flow.value)) {
+      throw new HttpError(400, `flows[${index}] needs a string id and name and a numeric value`)
+    }
+  })
+  if (new Set(body.flows.map(flow => flow.id)).size !== body.flows.length) throw new HttpError(400, 'Flow ids must be unique')
+  body.flows.forEach((flow, index) => {
+    if (!stageIds.has(flow.fromStageId) || !stageIds.has(flow.toStageId)) {
+      throw new HttpError(400, `flows[${index}] refers to a stage that does not exist`)
+    }
+    const periodValues = flow.periodValues ?? {}
+    if (typeof periodValues !== 'object' || Array.isArray(periodValues) || Object.values(periodValues).some(value => !(Number.isFinite(value) && value >= 0))) {
+      throw new HttpError(400, `flows[${index}].periodValues must map period labels to non-negative numbers`)
+    }
+  })
+
+  // Older clients don't send sections
+  const sections = body.sections ?? []
+  if (!Array.isArray(sections)) throw new HttpError(400, '"sections" must be an array')
+  if (new Set(sections.map(section => section?.id)).size !== sections.length) throw new HttpError(400, 'Section ids must be unique')
+  sections.forEach((section, index) => {
+    if (typeof section?.id !== 'string' || typeof section.name !== 'string') {
+      throw new HttpError(400, `sections[${index}] needs a string id and name`)
+    }
+    if (!stageIds.has(section.fromStageId) || !stageIds.has(section.toStageId)) {
+      throw new HttpError(400, `sections[${index}] refers to a stage that does not exist`)
+    }
+  })
+
+  // Older clients don't send attributes
+  const definitions = body.attributeDefinitions ?? []
+  if (!Array.isArray(definitions)) throw new HttpError(400, '"attributeDefinitions" must be an array')
+  definitions.forEach((definition, index) => {
+    if (typeof definition?.id !== 'string' || typeof definition.name !== 'string' || !ATTRIBUTE_TYPES.includes(definition.type)) {
+      throw new HttpError(400, `attributeDefinitions[${index}] needs a string id and name and a known type`)
+    }
+    // null is stored the same as no options
+    const options = definition.options ?? undefined
+    if (options !== undefined && (!Array.isArray(options) || options.some(option => typeof option !== 'string'))) {
+      throw new HttpError(400, `attributeDefinitions[${index}].options must be an array of strings`)
+    }
+    if (definition.type === 'enum' && !(options?.length > 0)) {
+      throw new HttpError(400, `attributeDefinitions[${index}] is an enum and needs options`)
+    }
+  })
+  for (const [list, items] of [['stages', body.stages], ['flows', body.flows]]) {
+    items.forEach((item, index) => {
+      const values = item.attributes ?? {}
+      if (typeof values !== 'object' || Array.isArray(values) || Object.values(values).some(value => typeof value !== 'string')) {
+        throw new HttpError(400, `${list}[${index}].attributes must map attribute ids to strings`)
+      }
+    })
+  }
+
+  // Older clients don't send settings either
+  const settings = body.settings ?? {}
+  if (typeof settings !== 'object' || Array.isArray(settings)) throw new HttpError(400, '"settings" must be an object')
+  if (settings.rootTotal !== undefined && !(Number.isFinite(settings.rootTotal) && settings.rootTotal > 0)) {
+    throw new HttpError(400, 'settings.rootTotal must be a positive number')
+  }
+  if (settings.unit !== undefined && typeof settings.unit !== 'string') throw new HttpError(400, 'settings.unit must be a string')
+
+  return {
+    stages: body.stages,
+    flows: body.flows,
+    sections,
+    attributeDefinitions: definitions,
+    // Known settings only, so stray properties don't end up in storage
+    settings: Object.fromEntries(['rootTotal', 'unit'].filter(key => settings[key] !== undefined).map(key => [key, settings[key]])),
+  }
+}
+
+function replaceContents(id, { stages, flows, sections, attributeDefinitions, settings }) {
+  db.run('DELETE FROM diagram_settings WHERE diagramId = ?', [id])
+  db.run('DELETE FROM sections WHERE diagramId = ?', [id])
+  db.run('DELETE FROM attribute_values WHERE diagramId = ?', [id])
+  db.run('DELETE FROM attribute_definitions WHERE diagramId = ?', [id])
+  db.run('DELETE FROM flows WHERE diagramId = ?', [id])
+  db.run('DELETE FROM stages WHERE diagramId = ?', [id])
+  for (const stage of stages) {
+    db.run(
+      'INSERT INTO stages (diagramId, id, name, position, yPosition, color, description, pinned, manualBandOrder, manualIncomingBandOrder) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        id, stage.id, stage.name, stage.position, stage.yPosition ?? null, stage.color ?? null, stage.description ?? null,
+        stage.pinned ? 1 : null, stage.manualBandOrder ? 1 : null, stage.manualIncomingBandOrder ? 1 : null,
+      ]
+    )
+  }
+  for (const flow of flows) {
+    db.run(
+      'INSERT INTO flows (diagramId, id, name, fromStageId, toStageId, value, branchIndex, color, periodValues, targetIndex) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        id, flow.id, flow.name, flow.fromStageId, flow.toStageId, flow.value, flow.branchIndex ?? null, flow.color ?? null,
+        flow.periodValues ? JSON.stringify(flow.periodValues) : null, flow.targetIndex ?? null,
+      ]
+    )
+  }
+  sections.forEach((section, index) => {
+    db.run(
+      'INSERT INTO sections (diagramId, id, name, fromStageId, toStageId, content, color, sortOrder) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [id, section.id, section.name, section.fromStageId, section.toStageId, section.content ?? null, section.color ?? null, index]
+    )
+  })
+  attributeDefinitions.forEach((definition, index) => {
+    db.run(
+      'INSERT INTO attribute_definitions (diagramId, id, name, type, options, sortOrder) VALUES (?, ?, ?, ?, ?, ?)',
+      [id, definition.id, definition.name, definition.type, definition.options ? JSON.stringify(definition.options) : null, index]
+    )
+  })
+  const known = new Set(attributeDefinitions.map(definition => definition.id))
+  for (const [itemType, items] of [['stage', stages], ['flow', flows]]) {
+    for (const item of items) {
+      for (const [attributeId, value] of Object.entries(item.attributes ?? {})) {
+        if (!known.has(attributeId)) continue
+        db.run(
+          'INSERT INTO attribute_values (diagramId, itemType, itemId, attributeId, value) VALUES (?, ?, ?, ?, ?)',
+          [id, itemType, item.id, attributeId, value]
+        )
+      }
+    }
+  }
+  if (Object.keys(settings).length > 0) {
+    db.run('INSERT INTO diagram_settings (diagramId, settings) VALUES (?, ?)', [id, JSON.stringify(settings)])
+  }
+}
+
+// Run changes in a transaction and write them to disk only if all of them succeed
+function transaction(fn) {
+  db.run('BEGIN TRANSACTION')
+  let result
+  try {
+    result = fn()
+    db.run('COMMIT')
+  } catch (error) {
+    db.run('ROLLBACK')
+    throw error
+  }
+  try {
+    persist()
+  } catch (error) {
+    // The change is committed in memory but not on disk. Go back to what is on disk, so the
+    // change isn't served as if it had been saved.
+    db.close()
+    db = openDatabase()
+    throw error
+  }
+  return result
+}
+
+// Create a diagram, or replace its contents if baseRevision matches the stored revision
+function saveDiagram(id, body) {
+  const contents = validateContents(body)
+  const existing = getDiagram(id)
+  const now = new Date().toISOString()
+
+  if (!existing) {
+    if (body.baseRevision !== null && body.baseRevision !== undefined) {
+      throw new HttpError(404, 'The diagram was deleted on the server')
+    }
+    if (typeof body.name !== 'string' || body.name.trim() === '') {
+      throw new HttpError(400, '"name" is required to create a diagram')
+    }
+    return transaction(() => {
+      db.run('INSERT INTO diagrams (id, name, createdAt, updatedAt, revision) VALUES (?, ?, ?, ?, 1)', [id, body.name, now, now])
+      replaceContents(id, contents)
+      return { status: 201, body: getDiagram(id) }
+    })
+  }
+
+  if (body.baseRevision !== existing.revision) {
+    throw new HttpError(409, 'The diagram was changed by someone else', { diagram: existing })
+  }
+  return transaction(() => {
+    db.run(
+      'UPDATE diagrams SET name = COALESCE(?, name), updatedAt = ?, revision = revision + 1 WHERE id = ?',
+      [typeof body.name === 'string' ? body.name : null, now, id]
+    )
+    replaceContents(id, contents)
+    return { status: 200, body: getDiagram(id) }
+  })
+}
+
+async function readJson(request) {
+  const chunks = []
+  let size = 0
+  for await (const chunk of request) {
+    size += chunk.length
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, 'Request body is too large')
+    chunks.push(chunk)
+  }
+  let body
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'))
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON')
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    throw new HttpError(400, 'Request body must be a JSON object')
+  }
+  return body
+}
+
+function decodeId(rawId) {
+  try {
+    return decodeURIComponent(rawId)
+  } catch {
+    throw new HttpError(400, 'Diagram id is not validly encoded')
+  }
+}
+
+async function handle(request) {
+  const url = new URL(request.url, `http://${request.headers.host}`)
+  const [resource, rawId, ...rest] = url.pathname.split('/').filter(Boolean)
+  const id = rawId === undefined ? undefined : decodeId(rawId)
+
+  if (resource === 'health' && !id && request.method === 'GET') {
+    return { status: 200, body: { ok: true } }
+  }
+  if (resource !== 'diagrams' || rest.length > 0) {
+    throw new HttpError(404, 'Not found')
+  }
+
+  if (id === undefined) {
+    if (request.method !== 'GET') throw new HttpError(405, 'Method not allowed')
+    return { status: 200, body: query('SELECT id, name, createdAt, updatedAt, revision FROM diagrams ORDER BY createdAt, name') }
+  }
+
+  switch (request.method) {
+    case 'GET': {
+      const diagram = getDiagram(id)
+      if (!diagram) throw new HttpError(404, 'Diagram not found')
+      return { status: 200, body: { diagram, ...loadContents(id) } }
+    }
+    case 'PUT':
+      return saveDiagram(id, await readJson(request))
+    case 'PATCH': {
+      const body = await readJson(request)
+      if (typeof body.name !== 'string' || body.name.trim() === '') throw new HttpError(400, '"name" must be a non-empty string')
+      if (!getDiagram(id)) throw new HttpError(404, 'Diagram not found')
+      // Renaming doesn't touch the contents, so it doesn't bump the revision
+      return transaction(() => {
+        db.run('UPDATE diagrams SET name = ?, updatedAt = ? WHERE id = ?', [body.name, new Date().toISOString(), id])
+        return { status: 200, body: getDiagram(id) }
+      })
+    }
+    case 'DELETE':
+      if (!getDiagram(id)) throw new HttpError(404, 'Diagram not found')
+      return transaction(() => {
+        db.run('DELETE FROM diagram_settings WHERE diagramId = ?', [id])
+        db.run('DELETE FROM sections WHERE diagramId = ?', [id])
+        db.run('DELETE FROM attribute_values WHERE diagramId = ?', [id])
+        db.run('DELETE FROM attribute_definitions WHERE diagramId = ?', [id])
+        db.run('DELETE FROM flows WHERE diagramId = ?', [id])
+        db.run('DELETE FROM stages WHERE diagramId = ?', [id])
+        db.run('DELETE FROM diagrams WHERE id = ?', [id])
+        return { status: 204, body: null }
+      })
+    default:
+      throw new HttpError(405, 'Method not allowed')
+  }
+}
+
+const server = http.createServer(async (request, response) => {
+  response.setHeader('Access-Control-Allow-Origin', CORS_ORIGIN)
+  response.setHeader('Access-Control-Allow-Methods', 'GET, PUT, PATCH, DELETE, OPTIONS')
+  response.setHeader('Access-Control-Allow-Headers', 'Content-Type')
+
+  if (request.method === 'OPTIONS') {
+    response.writeHead(204).end()
+    return
+  }
+
+  let result
+  try {
+    result = await handle(request)
+  } catch (error) {
+    if (!(error instanceof HttpError)) console.error(`${request.method} ${request.url} failed:`, error)
+    const status = error instanceof HttpError ? error.status : 500
+    const message = error instanceof HttpError ? error.message : 'Internal server error'
+    result = { status, body: { error: message, ...(error instanceof HttpError ? error.extra : {}) } }
+  }
+
+  console.log(`${request.method} ${request.url} -> ${result.status}`)
+  if (result.body === null) {
+    response.writeHead(result.status).end()
+  } else {
+    response.writeHead(result.status, { 'Content-Type': 'application/json' }).end(JSON.stringify(result.body))
+  }
+})
+
+server.listen(PORT, () => {
+  console.log(`Flow diagram server listening on http://localhost:${PORT}`)
+  console.log(`Storing data in ${DATA_FILE}`)
+})
@@ -0,0 +1,186 @@
+// Versioned schema migrations for the server's data file
+//
+// Works like the browser's migrations (src/services/migrations.ts), but for the server's own
+// tables: each migration runs in its own transaction together with the schema_version bump.
+//
+// Data files written before this existed have no schema_version table and start at
+// version 0, in any of the shapes the server had created until then. Migrations up to
+// version 7 therefore create tables only if missing and add columns only if missing.
+
+// Check whether a table has a given column
+function hasColumn(db, table, column) {
+  const result = db.exec(`PRAGMA table_info(${table})`)
+  if (result.length === 0) return false
+  return result[0].values.some(row => row[1] === column)
+}
+
+// Append new migrations to the end of this list - never edit or reorder released ones
+const MIGRATIONS = [
+  {
+    version: 1,
+    name: 'Create diagrams, stages and flows tables',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS diagrams (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL,
+          revision INTEGER NOT NULL
+        )
+      `)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS stages (
+          diagramId TEXT NOT NULL,
+          id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          position REAL NOT NULL,
+          yPosition REAL,
+          color TEXT,
+          description TEXT,
+          PRIMARY KEY (diagramId, id)
+        )
+      `)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS flows (
+          diagramId TEXT NOT NULL,
+          id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          fromStageId TEXT NOT NULL,
+          toStageId TEXT NOT NULL,
+          value REAL NOT NULL,
+          branchIndex INTEGER,
+          color TEXT,
+          PRIMARY KEY (diagramId, id)
+        )
+      `)
+    },
+  },
+  {
+    version: 2,
+    name: 'Add custom attribute tables',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS attribute_definitions (
+          diagramId TEXT NOT NULL,
+          id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          options TEXT,
+          sortOrder INTEGER NOT NULL,
+          PRIMARY KEY (diagramId, id)
+        )
+      `)
+      db.run(`
+        CREATE TABLE IF NOT EXISTS attribute_values (
+          diagramId TEXT NOT NULL,
+          itemType TEXT NOT NULL,
+          itemId TEXT NOT NULL,
+          attributeId TEXT NOT NULL,
+          value TEXT NOT NULL,
+          PRIMARY KEY (diagramId, itemType, itemId, attributeId)
+        )
+      `)
+    },
+  },
+  {
+    version: 3,
+    name: 'Add per-period flow values',
+    up: (db) => {
+      // JSON object of period label -> value, NULL for flows without periods
+      if (!hasColumn(db, 'flows', 'periodValues')) db.run('ALTER TABLE flows ADD COLUMN periodValues TEXT')
+    },
+  },
+  {
+    version: 4,
+    name: 'Add diagram_settings table',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS diagram_settings (
+          diagramId TEXT PRIMARY KEY,
+          settings TEXT NOT NULL
+        )
+      `)
+    },
+  },
+  {
+    version: 5,
+    name: 'Add sections table',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS sections (
+          diagramId TEXT NOT NULL,
+          id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          fromStageId TEXT NOT NULL,
+          toStageId TEXT NOT NULL,
+          content TEXT,
+          color TEXT,
+          sortOrder INTEGER NOT NULL,
+          PRIMARY KEY (diagramId, id)
+        )
+      `)
+    },
+  },
+  {
+    version: 6,
+    name: 'Add pinned stages',
+    up: (db) => {
+      // 1 for stages auto layout leaves where they are, NULL otherwise
+      if (!hasColumn(db, 'stages', 'pinned')) db.run('ALTER TABLE stages ADD COLUMN pinned INTEGER')
+    },
+  },
+  {
+    version: 7,
+    name: 'Add manual band order',
+    up: (db) => {
+      // 1 for stages whose outgoing bands were dragged into order, NULL otherwise
+      if (!hasColumn(db, 'stages', 'manualBandOrder')) db.run('ALTER TABLE stages ADD COLUMN manualBandOrder INTEGER')
+    },
+  },
+  {
+    version: 8,
+    name: 'Add manual incoming band order',
+    up: (db) => {
+      // 1 for stages whose incoming bands were dragged into order, NULL otherwise
+      db.run('ALTER TABLE stages ADD COLUMN manualIncomingBandOrder INTEGER')
+      // Place of a flow among the bands entering its target stage
+      db.run('ALTER TABLE flows ADD COLUMN targetIndex INTEGER')
+    },
+  },
+]
+
+const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+// Read the schema version of a data file (0 if it predates versioning)
+function getSchemaVersion(db) {
+  db.run('CREATE TABLE IF NOT EXISTS schema_version (version INTEGER NOT NULL)')
+  const version = db.exec('SELECT MAX(version) FROM schema_version')[0]?.values[0][0]
+  return typeof version === 'number' ? version : 0
+}
+
+// Apply all pending migrations in order. Stops at the first failure, rolling back that
+// migration and throwing.
+export function runMigrations(db) {
+  const currentVersion = getSchemaVersion(db)
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(`Data file schema version ${currentVersion} is newer than this server supports (${LATEST_SCHEMA_VERSION})`)
+  }
+
+  for (const migration of MIGRATIONS.filter(m => m.version > currentVersion)) {
+    db.run('BEGIN TRANSACTION')
+    try {
+      migration.up(db)
+      db.run('INSERT INTO schema_version (version) VALUES (?)', [migration.version])
+      db.run('COMMIT')
+      console.log(`Migration ${migration.version} applied: ${migration.name}`)
+    } catch (error) {
+      try {
+        db.run('ROLLBACK')
+      } catch (rollbackError) {
+        console.error('Failed to rollback migration:', rollbackError)
+      }
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error.message}`)
+    }
+  }
+}
@@ -1,174 +1,1254 @@
-import { useState, useRef, useCallback, useEffect } from 'react'
+import { useState, useRef, useCallback, useEffect, useMemo } from 'react'
 import FlowCanvas from './components/FlowCanvas'
-import { Stage, Flow } from './types'
-import { Undo2, Save, Check, X, AlertCircle } from 'lucide-react'
+import DiagramSwitcher from './components/DiagramSwitcher'
+import SaveStatus, { AutosaveSettings } from './components/SaveStatus'
+import SnapshotPanel from './components/SnapshotPanel'
+import FileMenu from './components/FileMenu'
+import StorageBadge from './components/StorageBadge'
+import CsvImportPreview from './components/CsvImportPreview'
+import LocalDataMigrationDialog from './components/LocalDataMigrationDialog'
+import RemoteChangeBanner from './components/RemoteChangeBanner'
+import UnlockScreen from './components/UnlockScreen'
+import PassphraseDialog from './components/PassphraseDialog'
+import IntegrityReport from './components/IntegrityReport'
+import AttributeDefinitionsDialog from './components/AttributeDefinitionsDialog'
+import TimelineScrubber from './components/TimelineScrubber'
+import SharedDiagramPreview from './components/SharedDiagramPreview'
+import DiagramSettingsDialog from './components/DiagramSettingsDialog'
+import SectionDialog from './components/SectionDialog'
+import HistoryPanel from './components/HistoryPanel'
+import { Stage, Flow, Section, Diagram, Snapshot, SnapshotSummary, ViewState, AttributeDefinition, DiagramSettings, DEFAULT_DIAGRAM_ID } from './types'
+import { Undo2, Redo2, ListOrdered, Save, Check, X, AlertCircle, History, Download, Upload, FileJson, Sheet, ShieldAlert, Tags, Link, Calculator, PanelTop } from 'lucide-react'
+import { downloadFile, pickFile, dateStamp } from './utils/files'
+import { exportDiagramJson, parseDiagramJson, diagramFileName, DiagramFormatError, DiagramFile } from './services/jsonFormat'
+import { createShareLink, readShareHash, isShareHash, isShareLinkSupported, ShareLinkError } from './services/shareLink'
+import { parseEdgeListCsv, CsvImportResult } from './services/csvImport'
+import { getRestServerUrl, setRestServerUrl } from './services/restAdapter'
+import { localStorageAdapter } from './services/localStorageAdapter'
+import { subscribeToOtherTabs, TabSyncMessage } from './services/tabSync'
+import { checkIntegrity, applyIntegrityFix, repairAll, IntegrityIssue, IntegrityFix } from './services/integrity'
+import { cleanItemAttributes } from './services/attributes'
+import { normalizeSettings, getAmount, formatAmount, getShareOfParent } from './services/amounts'
+import {
+  getPeriods,
+  flowsForPeriod,
+  storePeriodValues,
+  restoreAnimatedValues,
+  interpolateFlows,
+  addPeriod,
+  removePeriod,
+  renamePeriod,
+  suggestNextPeriod,
+} from './services/periods'
+import {
+  isEncryptionSupported,
+  isEncryptionEnabled,
+  isUnlocked,
+  unlock,
+  enableEncryption,
+  changePassphrase,
+  disableEncryption,
+} from './services/encryption'
+import { diffDiagrams, isDiffEmpty, mergeDiagrams, MergeConflict } from './services/diagramDiff'
+import { describeEdit } from './services/historyLabels'
+import {
+  compareLocalStorageData,
+  applyLocalDiagramAction,
+  localDataFingerprint,
+  isLocalDataDismissed,
+  dismissLocalData,
+  removeLocalStorageData,
+  LocalDiagramComparison,
+  LocalDiagramAction,
+} from './services/localDataMigration'
+import { openStorage, OpenedStorage, StorageAdapter, DiagramData, SnapshotStore, RawFileStore, StorageAdapterId, STORAGE_ADAPTERS, setSelectedAdapterId, StorageConflictError } from './services/storageAdapter'
 import './App.css'
 
-// Dynamic import to avoid blocking app startup if database fails
-let databaseService: any = null
-let useLocalStorage = false
+// Remembers which diagram was open last
+const CURRENT_DIAGRAM_KEY = 'flow_app_current_diagram'
+const AUTOSAVE_SETTINGS_KEY = 'flow_app_autosave'
+const SNAPSHOT_ON_SAVE_KEY = 'flow_app_snapshot_on_save'
 
-async function getDatabaseService() {
-  if (!databaseService) {
-    try {
-      const dbModule = await import('./services/database')
-      // Test if database can initialize
-      try {
-        await dbModule.initDatabase()
-        databaseService = dbModule
-        console.log('SQL.js database service loaded and initialized successfully')
-      } catch (initError) {
-        console.warn('SQL.js database initialization failed, falling back to localStorage:', initError)
-        // Fallback to localStorage
-        useLocalStorage = true
-        const localStorageDB = await import('./services/localStorageDB')
-        databaseService = {
-          initDatabase: async () => { 
-            console.log('Using localStorage for persistence')
-          },
-          loadAll: async () => {
-            return await localStorageDB.loadAllLocalStorage()
-          },
-          saveAll: async (stages: any[], flows: any[]) => {
-            await localStorageDB.saveAllLocalStorage(stages, flows)
-          },
-        }
-      }
-    } catch (error) {
-      console.warn('Database module not available, falling back to localStorage:', error)
-      // Fallback to localStorage
-      useLocalStorage = true
-      const localStorageDB = await import('./services/localStorageDB')
-      databaseService = {
-        initDatabase: async () => { 
-          console.log('Using localStorage for persistence')
-        },
-        loadAll: async () => {
-          return await localStorageDB.loadAllLocalStorage()
-        },
-        saveAll: async (stages: any[], flows: any[]) => {
-          await localStorageDB.saveAllLocalStorage(stages, flows)
-        },
-      }
-    }
+const DEFAULT_AUTOSAVE_SETTINGS: AutosaveSettings = { enabled: true, delaySeconds: 5 }
+
+function loadAutosaveSettings(): AutosaveSettings {
+  try {
+    const data = localStorage.getItem(AUTOSAVE_SETTINGS_KEY)
+    if (data) return { ...DEFAULT_AUTOSAVE_SETTINGS, ...JSON.parse(data) }
+  } catch (error) {
+    console.warn('Failed to load autosave settings:', error)
+  }
+  return DEFAULT_AUTOSAVE_SETTINGS
+}
+
+// Most validation problems listed in an import error notification
+const MAX_REPORTED_ERRORS = 10
+
+// Zoom and pan change continuously while dragging, so the view is saved once it settles
+const VIEW_STATE_SAVE_DELAY_MS = 1000
+// Duration of the flow width animation when switching periods on the timeline
+const PERIOD_ANIMATION_MS = 500
+
+// The storage adapter opened at startup, see services/storageAdapter.ts
+async function getStorage(): Promise<StorageAdapter> {
+  return (await openStorage()).adapter
+}
+
+async function getSnapshotStore(): Promise<SnapshotStore> {
+  const { snapshots } = await getStorage()
+  if (!snapshots) throw new Error('Snapshots are not supported by the current storage')
+  return snapshots
+}
+
+// The saved view is nice to have - a diagram still opens without it
+async function loadViewState(storage: StorageAdapter, diagramId: string): Promise<ViewState | null> {
+  try {
+    return await storage.viewStates?.load(diagramId) ?? null
+  } catch (error) {
+    console.warn('Failed to load view state:', error)
+    return null
+  }
+}
+
+async function getRawFileStore(): Promise<RawFileStore> {
+  const { rawFile } = await getStorage()
+  if (!rawFile) throw new Error('Database files are not supported by the current storage')
+  return rawFile
+}
+
+// Write everything kept in this browser again after the passphrase was set or removed.
+// Diagrams left in localStorage by an earlier fallback share the same key, so they are included.
+async function rewriteBrowserStorage(storage: StorageAdapter): Promise<void> {
+  await storage.rewriteStoredData?.()
+  if (storage.id !== 'localStorage') {
+    await localStorageAdapter.rewriteStoredData?.()
   }
-  return databaseService
+}
+
+// Stages every new diagram starts with
+function createDefaultStages(): Stage[] {
+  return [{ id: '1', name: 'Start', position: 0, color: '#667eea' }]
+}
+
+// Sections need both of their stages; drop the ones whose stage was removed
+function pruneSections(sections: Section[], stages: Stage[]): Section[] {
+  const stageIds = new Set(stages.map(stage => stage.id))
+  return sections.filter(section => stageIds.has(section.fromStageId) && stageIds.has(section.toStageId))
+}
+
+// Comparable form of the diagram contents, used to detect unsaved changes
+function serializeDiagram(
+  stages: Stage[],
+  flows: Flow[],
+  attributeDefinitions: AttributeDefinition[],
+  settings: DiagramSettings,
+  sections: Section[]
+): string {
+  return JSON.stringify({ stages, flows, attributeDefinitions, settings: normalizeSettings(settings), sections })
+}
+
+// Newer version of the open diagram saved by another tab, see services/tabSync.ts
+interface RemoteChange {
+  data: DiagramData
+  changedAt: Date | null
+  conflicts: MergeConflict[]
 }
 
 interface HistoryState {
   stages: Stage[]
   flows: Flow[]
+  attributeDefinitions: AttributeDefinition[]
+  settings: DiagramSettings
+  sections: Section[]
+}
+
+// One step in the edit history. The state is left out for the current step while the
+// canvas shows it, and filled in once another step becomes current.
+interface HistoryEntry {
+  label?: string // named after what changed if missing, see services/historyLabels.ts
+  state: HistoryState | null
+}
+
+function cloneHistoryState(state: HistoryState): HistoryState {
+  return {
+    stages: JSON.parse(JSON.stringify(state.stages)),
+    flows: JSON.parse(JSON.stringify(state.flows)),
+    attributeDefinitions: JSON.parse(JSON.stringify(state.attributeDefinitions)),
+    settings: { ...state.settings },
+    sections: JSON.parse(JSON.stringify(state.sections)),
+  }
 }
 
 function App() {
   console.log('App component rendering')
-  const [stages, setStages] = useState<Stage[]>([
-    { id: '1', name: 'Start', position: 0, color: '#667eea' },
-  ])
+  const [stages, setStages] = useState<Stage[]>(createDefaultStages)
 
   const [flows, setFlows] = useState<Flow[]>([])
+  // Custom attributes the stages and flows of the open diagram can have values for
+  const [attributeDefinitions, setAttributeDefinitions] = useState<AttributeDefinition[]>([])
+  // Root total and unit the flow percentages are turned into amounts with
+  const [settings, setSettings] = useState<DiagramSettings>({})
+  // Accordions spanning two stages, with notes, see components/SectionAccordion.tsx
+  const [sections, setSections] = useState<Section[]>([])
   const [isLoading, setIsLoading] = useState(true)
+  // Encrypted data can only be loaded once the passphrase was entered
+  const [isLocked, setIsLocked] = useState(() => isEncryptionEnabled() && !isUnlocked())
+  const [encryptionEnabled, setEncryptionEnabled] = useState(isEncryptionEnabled)
+  const [isPassphraseDialogOpen, setIsPassphraseDialogOpen] = useState(false)
   const [isSaving, setIsSaving] = useState(false)
   const [notification, setNotification] = useState<{ type: 'success' | 'error'; message: string } | null>(null)
+  const [diagrams, setDiagrams] = useState<Diagram[]>([])
+  const [currentDiagramId, setCurrentDiagramId] = useState<string>(DEFAULT_DIAGRAM_ID)
+  const [savedSnapshot, setSavedSnapshot] = useState<string>(() => serializeDiagram(createDefaultStages(), [], [], {}, []))
+  const [lastSavedAt, setLastSavedAt] = useState<Date | null>(null)
+  const [autosave, setAutosave] = useState<AutosaveSettings>(loadAutosaveSettings)
+  const [openedStorage, setOpenedStorage] = useState<OpenedStorage | null>(null)
+  const [remoteChange, setRemoteChange] = useState<RemoteChange | null>(null)
+  const [localMigration, setLocalMigration] = useState<LocalDiagramComparison[] | null>(null)
+  const [csvImport, setCsvImport] = useState<{ fileName: string; result: CsvImportResult } | null>(null)
+  const [isSnapshotPanelOpen, setIsSnapshotPanelOpen] = useState(false)
+  const [isIntegrityReportOpen, setIsIntegrityReportOpen] = useState(false)
+  const [isAttributesDialogOpen, setIsAttributesDialogOpen] = useState(false)
+  const [isSettingsDialogOpen, setIsSettingsDialogOpen] = useState(false)
+  // Section being created or edited in the section dialog
+  const [editingSection, setEditingSection] = useState<Section | null>(null)
+  // Diagram from a share link in the URL, shown read-only until imported
+  const [sharedDiagram, setSharedDiagram] = useState<DiagramFile | null>(null)
+  const [isImportingShared, setIsImportingShared] = useState(false)
+  // Period picked on the timeline, null for the default flow values
+  const [selectedPeriod, setSelectedPeriod] = useState<string | null>(null)
+  // Flows part way through the animation between two periods
+  const [animatedFlows, setAnimatedFlows] = useState<Flow[] | null>(null)
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([])
+  const [snapshotOnSave, setSnapshotOnSave] = useState(() => localStorage.getItem(SNAPSHOT_ON_SAVE_KEY) === 'true')
+  // Zoom, pan and selection the open diagram was left with, restored by FlowCanvas
+  const [initialViewState, setInitialViewState] = useState<ViewState | null>(null)
+
+  // Contents whose autosave failed - not retried until the next edit
+  const [failedAutosaveSnapshot, setFailedAutosaveSnapshot] = useState<string | null>(null)
 
-  const historyRef = useRef<HistoryState[]>([])
+  const supportsSnapshots = Boolean(openedStorage?.adapter.snapshots)
+  const supportsRawFile = Boolean(openedStorage?.adapter.rawFile)
+  const supportsEncryption = Boolean(openedStorage?.adapter.rewriteStoredData) && isEncryptionSupported()
+  const currentSnapshot = useMemo(
+    () => serializeDiagram(stages, flows, attributeDefinitions, settings, sections),
+    [stages, flows, attributeDefinitions, settings, sections]
+  )
+  const isDirty = currentSnapshot !== savedSnapshot
+  // Problems such as orphan flows or duplicate ids, see services/integrity.ts
+  const integrityIssues = useMemo(() => checkIntegrity({ stages, flows }), [stages, flows])
+  // Stages and flows with a value, per attribute id
+  const attributeUsage = useMemo(() => {
+    const usage: Record<string, number> = {}
+    for (const item of [...stages, ...flows]) {
+      for (const attributeId of Object.keys(item.attributes ?? {})) {
+        usage[attributeId] = (usage[attributeId] ?? 0) + 1
+      }
+    }
+    return usage
+  }, [stages, flows])
+  const periods = useMemo(() => getPeriods(flows), [flows])
+  // A period removed by undo or another tab falls back to the default values
+  const activePeriod = selectedPeriod !== null && periods.includes(selectedPeriod) ? selectedPeriod : null
+  const periodFlows = useMemo(() => flowsForPeriod(flows, activePeriod), [flows, activePeriod])
+  const canvasFlows = animatedFlows ?? periodFlows
+
+  // Edit history. Every entry is a step with the diagram as it was after it; the entry
+  // at historyIndexRef is what the canvas shows.
+  const historyRef = useRef<HistoryEntry[]>([])
   const historyIndexRef = useRef<number>(-1)
+  // Set while the changes of one event are recorded, so they become a single step
+  const historyBatchRef = useRef(false)
+  // What the canvas shows now, kept in the current entry when moving to another one
+  const liveStateRef = useRef<HistoryState | null>(null)
   const [canUndo, setCanUndo] = useState(false)
+  const [canRedo, setCanRedo] = useState(false)
+  // Bumped on every history change, so the history panel updates
+  const [historyVersion, setHistoryVersion] = useState(0)
+  const [isHistoryPanelOpen, setIsHistoryPanelOpen] = useState(false)
+
+  // View waiting to be saved, see handleViewStateChange
+  const pendingViewStateRef = useRef<{ diagramId: string; viewState: ViewState; timeoutId: number } | null>(null)
+
+  const syncHistoryState = useCallback(() => {
+    setCanUndo(historyIndexRef.current > 0)
+    setCanRedo(historyIndexRef.current < historyRef.current.length - 1)
+    setHistoryVersion(version => version + 1)
+  }, [])
 
-  // Save state to history
-  const saveToHistory = useCallback((currentStages: Stage[], currentFlows: Flow[]) => {
-    const newState: HistoryState = {
-      stages: JSON.parse(JSON.stringify(currentStages)),
-      flows: JSON.parse(JSON.stringify(currentFlows)),
+  // Save state to history: the diagram as it is before a change. Saves made while
+  // handling the same event, e.g. the stages and then the flows of one edit, make one
+  // step. Steps are named from what changed (see services/historyLabels.ts) unless a
+  // label is given.
+  const saveToHistory = useCallback((
+    currentStages: Stage[],
+    currentFlows: Flow[],
+    currentDefinitions: AttributeDefinition[],
+    currentSettings: DiagramSettings,
+    currentSections: Section[],
+    label?: string
+  ) => {
+    if (historyBatchRef.current) {
+      if (label) historyRef.current[historyIndexRef.current].label = label
+      return
     }
-    
+    historyBatchRef.current = true
+    queueMicrotask(() => {
+      historyBatchRef.current = false
+    })
+
     // Remove any future history if we're not at the end
     if (historyIndexRef.current < historyRef.current.length - 1) {
       historyRef.current = historyRef.current.slice(0, historyIndexRef.current + 1)
     }
-    
-    // Add new state to history
-    historyRef.current.push(newState)
+
+    // The state before the change ends the current step; it includes changes that
+    // aren't steps of their own, such as a marker's name being typed
+    const current = historyRef.current[historyIndexRef.current]
+    if (current) {
+      current.state = cloneHistoryState({
+        stages: currentStages,
+        flows: currentFlows,
+        attributeDefinitions: currentDefinitions,
+        settings: currentSettings,
+        sections: currentSections,
+      })
+    }
+    historyRef.current.push({ label, state: null })
     historyIndexRef.current = historyRef.current.length - 1
-    
+
     // Limit history to last 50 states
     if (historyRef.current.length > 50) {
       historyRef.current.shift()
+      historyRef.current[0].label = 'Earlier edits'
       historyIndexRef.current = historyRef.current.length - 1
     }
-    
-    setCanUndo(historyIndexRef.current > 0)
+
+    syncHistoryState()
+  }, [syncHistoryState])
+
+  // Start a fresh history, e.g. after loading a diagram
+  const resetHistory = useCallback((
+    initialStages: Stage[],
+    initialFlows: Flow[],
+    initialDefinitions: AttributeDefinition[],
+    initialSettings: DiagramSettings,
+    initialSections: Section[]
+  ) => {
+    historyRef.current = [{
+      label: 'Opened diagram',
+      state: cloneHistoryState({
+        stages: initialStages,
+        flows: initialFlows,
+        attributeDefinitions: initialDefinitions,
+        settings: initialSettings,
+        sections: initialSections,
+      }),
+    }]
+    historyIndexRef.current = 0
+    syncHistoryState()
+  }, [syncHistoryState])
+
+  // Remember what is stored so later edits show up as unsaved changes
+  const markSaved = useCallback((
+    savedStages: Stage[],
+    savedFlows: Flow[],
+    savedDefinitions: AttributeDefinition[],
+    savedSettings: DiagramSettings,
+    savedSections: Section[],
+    savedAt: Date | null
+  ) => {
+    setSavedSnapshot(serializeDiagram(savedStages, savedFlows, savedDefinitions, savedSettings, savedSections))
+    setLastSavedAt(savedAt)
   }, [])
 
-  // Manual save to database
-  const handleSave = useCallback(async () => {
+  // Save to database. Silent saves (autosave) only report errors.
+  const saveDiagram = useCallback(async (silent: boolean) => {
+    // Capture what is being saved - edits made while saving stay unsaved
+    const stagesToSave = stages
+    const flowsToSave = flows
+    const definitionsToSave = attributeDefinitions
+    const settingsToSave = settings
+    const sectionsToSave = sections
     try {
       setIsSaving(true)
-      const db = await getDatabaseService()
+      const storage = await getStorage()
       
-      // Ensure database is initialized before saving
-      if (db.initDatabase) {
-        try {
-          await db.initDatabase()
-        } catch (initError) {
-          console.warn('Database initialization failed, but continuing with save:', initError)
-        }
-      }
-      
-      console.log('Saving data:', { stages: stages.length, flows: flows.length })
-      
-      if (!db.saveAll) {
-        throw new Error('saveAll function not available in database service')
-      }
-      
-      await db.saveAll(stages, flows)
+      console.log('Saving data:', { stages: stagesToSave.length, flows: flowsToSave.length })
+      await storage.save(currentDiagramId, {
+        stages: stagesToSave,
+        flows: flowsToSave,
+        attributeDefinitions: definitionsToSave,
+        settings: settingsToSave,
+        sections: sectionsToSave,
+      })
       console.log('Data saved successfully')
+      const savedAt = new Date()
+      markSaved(stagesToSave, flowsToSave, definitionsToSave, settingsToSave, sectionsToSave, savedAt)
+      setRemoteChange(null)
+      setDiagrams(await storage.listDiagrams())
+
+      // Keep a restorable copy of every manual save if enabled
+      if (!silent && snapshotOnSave && storage.snapshots) {
+        await storage.snapshots.create(currentDiagramId, `Saved ${savedAt.toLocaleString()}`, 'save', {
+          stages: stagesToSave,
+          flows: flowsToSave,
+          attributeDefinitions: definitionsToSave,
+          settings: settingsToSave,
+          sections: sectionsToSave,
+        })
+        setSnapshots(await storage.snapshots.list(currentDiagramId))
+      }
       
       // Show success notification
-      setNotification({ type: 'success', message: 'Data saved successfully!' })
+      if (!silent) {
+        setNotification({ type: 'success', message: 'Data saved successfully!' })
+      }
     } catch (error: any) {
       console.error('Failed to save data to database:', error)
-      const errorMessage = error?.message || 'Unknown error occurred'
-      setNotification({ type: 'error', message: `Failed to save data: ${errorMessage}\n\nCheck the console for more details.` })
+      if (silent) {
+        setFailedAutosaveSnapshot(serializeDiagram(stagesToSave, flowsToSave, definitionsToSave, settingsToSave, sectionsToSave))
+      }
+      if (error instanceof StorageConflictError) {
+        const changedAt = error.remoteUpdatedAt ? ` at ${new Date(error.remoteUpdatedAt).toLocaleString()}` : ''
+        setNotification({
+          type: 'error',
+          message: `Not saved: this diagram was changed by someone else${changedAt}.\n\nYour changes are still on the canvas. To keep them, duplicate the diagram. To get the other version, open the diagram again from the list (this discards your changes).`,
+        })
+      } else {
+        const errorMessage = error?.message || 'Unknown error occurred'
+        setNotification({ type: 'error', message: `Failed to save data: ${errorMessage}\n\nCheck the console for more details.` })
+      }
     } finally {
       setIsSaving(false)
     }
-  }, [stages, flows])
+  }, [stages, flows, attributeDefinitions, settings, sections, currentDiagramId, markSaved, snapshotOnSave])
+
+  // Manual save to database
+  const handleSave = useCallback(() => saveDiagram(false), [saveDiagram])
+
+  const handleAutosaveChange = useCallback((settings: AutosaveSettings) => {
+    setAutosave(settings)
+    localStorage.setItem(AUTOSAVE_SETTINGS_KEY, JSON.stringify(settings))
+  }, [])
+
+  const handleSnapshotOnSaveChange = useCallback((enabled: boolean) => {
+    setSnapshotOnSave(enabled)
+    localStorage.setItem(SNAPSHOT_ON_SAVE_KEY, String(enabled))
+  }, [])
+
+  const handleTakeSnapshot = useCallback(async (name: string) => {
+    try {
+      const snapshotStore = await getSnapshotStore()
+      await snapshotStore.create(currentDiagramId, name, 'manual', { stages, flows, attributeDefinitions, settings, sections })
+      setSnapshots(await snapshotStore.list(currentDiagramId))
+    } catch (error: any) {
+      console.error('Failed to create snapshot:', error)
+      setNotification({ type: 'error', message: `Failed to create snapshot: ${error?.message || 'Unknown error occurred'}` })
+    }
+  }, [currentDiagramId, stages, flows, attributeDefinitions, settings, sections])
+
+  const handleLoadSnapshot = useCallback(async (snapshotId: string): Promise<Snapshot | null> => {
+    try {
+      const snapshotStore = await getSnapshotStore()
+      return await snapshotStore.load(snapshotId)
+    } catch (error: any) {
+      console.error('Failed to load snapshot:', error)
+      setNotification({ type: 'error', message: `Failed to load snapshot: ${error?.message || 'Unknown error occurred'}` })
+      return null
+    }
+  }, [])
+
+  const handleDeleteSnapshot = useCallback(async (snapshotId: string) => {
+    try {
+      const snapshotStore = await getSnapshotStore()
+      await snapshotStore.delete(snapshotId)
+      setSnapshots(await snapshotStore.list(currentDiagramId))
+    } catch (error: any) {
+      console.error('Failed to delete snapshot:', error)
+      setNotification({ type: 'error', message: `Failed to delete snapshot: ${error?.message || 'Unknown error occurred'}` })
+    }
+  }, [currentDiagramId])
+
+  // Ask before throwing away unsaved changes
+  const confirmDiscardChanges = useCallback(() => {
+    return !isDirty || window.confirm('You have unsaved changes that will be lost. Continue?')
+  }, [isDirty])
+
+  const flushViewState = useCallback(async () => {
+    const pending = pendingViewStateRef.current
+    if (!pending) return
+    pendingViewStateRef.current = null
+    window.clearTimeout(pending.timeoutId)
+    try {
+      await (await getStorage()).viewStates?.save(pending.diagramId, pending.viewState)
+    } catch (error) {
+      console.warn('Failed to save view state:', error)
+    }
+  }, [])
+
+  // Save the view once it settles. A view still waiting for another diagram is saved right away.
+  const handleViewStateChange = useCallback((viewState: ViewState) => {
+    const pending = pendingViewStateRef.current
+    if (pending && pending.diagramId !== currentDiagramId) {
+      flushViewState()
+    } else if (pending) {
+      window.clearTimeout(pending.timeoutId)
+    }
+    pendingViewStateRef.current = {
+      diagramId: currentDiagramId,
+      viewState,
+      timeoutId: window.setTimeout(flushViewState, VIEW_STATE_SAVE_DELAY_MS),
+    }
+  }, [currentDiagramId, flushViewState])
+
+  // Open a diagram, replacing the current canvas contents
+  const handleOpenDiagram = useCallback(async (diagramId: string) => {
+    try {
+      const storage = await getStorage()
+      const data = await storage.load(diagramId)
+      const nextStages = data.stages.length > 0 || data.flows.length > 0 ? data.stages : createDefaultStages()
+      const nextDefinitions = data.attributeDefinitions ?? []
+      const nextSettings = data.settings ?? {}
+      const nextSections = data.sections ?? []
+      setStages(nextStages)
+      setFlows(data.flows)
+      setAttributeDefinitions(nextDefinitions)
+      setSettings(nextSettings)
+      setSections(nextSections)
+      resetHistory(nextStages, data.flows, nextDefinitions, nextSettings, nextSections)
+      const diagram = (await storage.listDiagrams()).find((d: Diagram) => d.id === diagramId)
+      markSaved(nextStages, data.flows, nextDefinitions, nextSettings, nextSections, diagram ? new Date(diagram.updatedAt) : null)
+      setInitialViewState(await loadViewState(storage, diagramId))
+      setRemoteChange(null)
+      setCurrentDiagramId(diagramId)
+      localStorage.setItem(CURRENT_DIAGRAM_KEY, diagramId)
+      setIsIntegrityReportOpen(checkIntegrity({ stages: nextStages, flows: data.flows }).length > 0)
+    } catch (error: any) {
+      console.error('Failed to open diagram:', error)
+      setNotification({ type: 'error', message: `Failed to open diagram: ${error?.message || 'Unknown error occurred'}` })
+    }
+  }, [resetHistory, markSaved])
+
+  // Switch diagrams from the header, guarding unsaved changes
+  const handleSwitchDiagram = useCallback((diagramId: string) => {
+    if (diagramId === currentDiagramId || !confirmDiscardChanges()) return
+    handleOpenDiagram(diagramId)
+  }, [currentDiagramId, confirmDiscardChanges, handleOpenDiagram])
+
+  const handleCreateDiagram = useCallback(async (name: string) => {
+    if (!confirmDiscardChanges()) return
+    try {
+      const storage = await getStorage()
+      const diagram = await storage.createDiagram(name)
+      setDiagrams(await storage.listDiagrams())
+      await handleOpenDiagram(diagram.id)
+    } catch (error: any) {
+      console.error('Failed to create diagram:', error)
+      setNotification({ type: 'error', message: `Failed to create diagram: ${error?.message || 'Unknown error occurred'}` })
+    }
+  }, [confirmDiscardChanges, handleOpenDiagram])
+
+  const handleRenameDiagram = useCallback(async (diagramId: string, name: string) => {
+    try {
+      const storage = await getStorage()
+      await storage.renameDiagram(diagramId, name)
+      setDiagrams(await storage.listDiagrams())
+    } catch (error: any) {
+      console.error('Failed to rename diagram:', error)
+      setNotification({ type: 'error', message: `Failed to rename diagram: ${error?.message || 'Unknown error occurred'}` })
+    }
+  }, [])
+
+  // Duplicate what is currently on the canvas, including unsaved edits
+  // Copies the diagram as saved. The copy is opened, so unsaved changes are guarded like any switch.
+  const handleDuplicateDiagram = useCallback(async (diagramId: string, name: string) => {
+    if (!confirmDiscardChanges()) return
+    try {
+      const storage = await getStorage()
+      const data = await storage.load(diagramId)
+      const diagram = await storage.createDiagram(name)
+      await storage.save(diagram.id, data)
+      setDiagrams(await storage.listDiagrams())
+      await handleOpenDiagram(diagram.id)
+    } catch (error: any) {
+      console.error('Failed to duplicate diagram:', error)
+      setNotification({ type: 'error', message: `Failed to duplicate diagram: ${error?.message || 'Unknown error occurred'}` })
+    }
+  }, [confirmDiscardChanges, handleOpenDiagram])
+
+  const handleDeleteDiagram = useCallback(async (diagramId: string) => {
+    // A view saved after the diagram is gone would be left behind
+    if (pendingViewStateRef.current?.diagramId === diagramId) {
+      window.clearTimeout(pendingViewStateRef.current.timeoutId)
+      pendingViewStateRef.current = null
+    }
+    try {
+      const storage = await getStorage()
+      await storage.deleteDiagram(diagramId)
+      let remaining: Diagram[] = await storage.listDiagrams()
+      if (remaining.length === 0) {
+        remaining = [await storage.createDiagram('My Diagram', DEFAULT_DIAGRAM_ID)]
+      }
+      setDiagrams(remaining)
+      if (diagramId === currentDiagramId) {
+        await handleOpenDiagram(remaining[0].id)
+      }
+    } catch (error: any) {
+      console.error('Failed to delete diagram:', error)
+      setNotification({ type: 'error', message: `Failed to delete diagram: ${error?.message || 'Unknown error occurred'}` })
+    }
+  }, [currentDiagramId, handleOpenDiagram])
+
+  // Show the diagram as it was after another step. The current contents are kept in
+  // their step first, so they can be returned to.
+  const handleJumpToHistory = useCallback((index: number) => {
+    const target = historyRef.current[index]
+    if (!target?.state || index === historyIndexRef.current || !liveStateRef.current) return
+    historyRef.current[historyIndexRef.current].state = cloneHistoryState(liveStateRef.current)
+    historyIndexRef.current = index
+    const state = cloneHistoryState(target.state)
+    setStages(state.stages)
+    setFlows(state.flows)
+    setAttributeDefinitions(state.attributeDefinitions)
+    setSettings(state.settings)
+    setSections(state.sections)
+    syncHistoryState()
+  }, [syncHistoryState])
 
-  // Undo functionality
   const handleUndo = useCallback(() => {
-    if (historyIndexRef.current > 0) {
-      historyIndexRef.current--
-      const previousState = historyRef.current[historyIndexRef.current]
-      const newStages = JSON.parse(JSON.stringify(previousState.stages))
-      const newFlows = JSON.parse(JSON.stringify(previousState.flows))
-      setStages(newStages)
-      setFlows(newFlows)
-      setCanUndo(historyIndexRef.current > 0)
+    handleJumpToHistory(historyIndexRef.current - 1)
+  }, [handleJumpToHistory])
+
+  const handleRedo = useCallback(() => {
+    handleJumpToHistory(historyIndexRef.current + 1)
+  }, [handleJumpToHistory])
+
+  useEffect(() => {
+    liveStateRef.current = { stages, flows, attributeDefinitions, settings, sections }
+  })
+
+  // Steps for the history panel, named after what they changed
+  const historyItems = useMemo(() => {
+    if (!isHistoryPanelOpen) return []
+    const entries = historyRef.current
+    const stateAt = (index: number) => entries[index].state ?? { stages, flows, attributeDefinitions, settings, sections }
+    return entries.map((entry, index) => ({
+      label: entry.label ?? (index > 0 ? describeEdit(stateAt(index - 1), stateAt(index)) : 'Opened diagram'),
+      isCurrent: index === historyIndexRef.current,
+    }))
+  }, [isHistoryPanelOpen, historyVersion, stages, flows, attributeDefinitions, settings, sections])
+
+  // Download the whole SQLite database, e.g. to open it in a desktop SQLite tool
+  const handleExportSqlite = useCallback(async () => {
+    if (isDirty && !window.confirm('The export contains saved data only. Export without your unsaved changes?')) return
+    try {
+      const rawFile = await getRawFileStore()
+      const bytes = await rawFile.exportFile()
+      downloadFile(bytes, `flow-diagrams-${dateStamp()}.${rawFile.extension}`, 'application/vnd.sqlite3')
+    } catch (error: any) {
+      console.error('Failed to export database:', error)
+      setNotification({ type: 'error', message: `Failed to export database: ${error?.message || 'Unknown error occurred'}` })
+    }
+  }, [isDirty])
+
+  // Replace all diagrams with an uploaded SQLite file
+  const handleImportSqlite = useCallback(async () => {
+    const file = await pickFile('.sqlite,.sqlite3,.db')
+    if (!file) return
+    if (!confirmDiscardChanges()) return
+    if (!window.confirm(`Replace all diagrams in this browser with the contents of "${file.name}"? This cannot be undone.`)) return
+
+    try {
+      const storage = await getStorage()
+      await (await getRawFileStore()).importFile(new Uint8Array(await file.arrayBuffer()))
+
+      let importedDiagrams: Diagram[] = await storage.listDiagrams()
+      if (importedDiagrams.length === 0) {
+        importedDiagrams = [await storage.createDiagram('My Diagram', DEFAULT_DIAGRAM_ID)]
+      }
+      setDiagrams(importedDiagrams)
+      const diagramId = importedDiagrams.some(d => d.id === currentDiagramId) ? currentDiagramId : importedDiagrams[0].id
+      await handleOpenDiagram(diagramId)
+      if (storage.snapshots) {
+        setSnapshots(await storage.snapshots.list(diagramId))
+      }
+      setNotification({ type: 'success', message: `Imported ${importedDiagrams.length} diagram(s) from "${file.name}".` })
+    } catch (error: any) {
+      console.error('Failed to import database:', error)
+      setNotification({ type: 'error', message: `Failed to import database: ${error?.message || 'Unknown error occurred'}\n\nYour current data has not been changed.` })
+    }
+  }, [currentDiagramId, confirmDiscardChanges, handleOpenDiagram])
+
+  // Download the diagram on the canvas, including unsaved edits, as a JSON file
+  const handleExportJson = useCallback(() => {
+    const now = new Date().toISOString()
+    const diagram = diagrams.find(d => d.id === currentDiagramId) ?? { id: currentDiagramId, name: 'Diagram', createdAt: now, updatedAt: now }
+    downloadFile(exportDiagramJson(diagram, stages, flows, attributeDefinitions, settings, sections), diagramFileName(diagram.name), 'application/json')
+  }, [diagrams, currentDiagramId, stages, flows, attributeDefinitions, settings, sections])
+
+  // Add an imported diagram file as a new diagram and open it
+  const importDiagramFile = useCallback(async (imported: DiagramFile) => {
+    const storage = await getStorage()
+    const nameTaken = diagrams.some(d => d.name === imported.diagram.name)
+    const diagram = await storage.createDiagram(nameTaken ? `${imported.diagram.name} (imported)` : imported.diagram.name)
+    await storage.save(diagram.id, {
+      stages: imported.stages,
+      flows: imported.flows,
+      attributeDefinitions: imported.attributeDefinitions,
+      settings: imported.settings,
+      sections: imported.sections,
+    })
+    setDiagrams(await storage.listDiagrams())
+    await handleOpenDiagram(diagram.id)
+    setNotification({
+      type: 'success',
+      message: `Imported "${diagram.name}" with ${imported.stages.length} stages and ${imported.flows.length} flows.`,
+    })
+  }, [diagrams, handleOpenDiagram])
+
+  // Import a JSON diagram file as a new diagram
+  const handleImportJson = useCallback(async () => {
+    const file = await pickFile('.json,application/json')
+    if (!file) return
+
+    try {
+      const imported = parseDiagramJson(await file.text())
+      if (!confirmDiscardChanges()) return
+      await importDiagramFile(imported)
+    } catch (error: any) {
+      console.error('Failed to import diagram:', error)
+      let message = `Failed to import "${file.name}": ${error?.message || 'Unknown error occurred'}`
+      if (error instanceof DiagramFormatError) {
+        const shown = error.errors.slice(0, MAX_REPORTED_ERRORS)
+        const hidden = error.errors.length - shown.length
+        message = `"${file.name}" is not a valid diagram file:\n\n${shown.map(e => `• ${e}`).join('\n')}`
+        if (hidden > 0) message += `\n...and ${hidden} more`
+      }
+      setNotification({ type: 'error', message })
+    }
+  }, [confirmDiscardChanges, importDiagramFile])
+
+  // Put the diagram on the canvas, including unsaved changes, into a link and copy it
+  const handleCopyShareLink = useCallback(async () => {
+    const now = new Date().toISOString()
+    const diagram = diagrams.find(d => d.id === currentDiagramId) ?? { id: currentDiagramId, name: 'Diagram', createdAt: now, updatedAt: now }
+    try {
+      const link = await createShareLink(window.location.href, diagram, stages, flows, attributeDefinitions, settings, sections)
+      await navigator.clipboard.writeText(link)
+      setNotification({
+        type: 'success',
+        message: `Share link for "${diagram.name}" copied to the clipboard.\n\nAnyone with the link can see and import the diagram as it is now, including unsaved changes.`,
+      })
+    } catch (error: any) {
+      console.error('Failed to create share link:', error)
+      setNotification({
+        type: 'error',
+        message: error instanceof ShareLinkError ? error.message : `Failed to copy the share link: ${error?.message || 'Unknown error occurred'}`,
+      })
+    }
+  }, [diagrams, currentDiagramId, stages, flows, attributeDefinitions, settings, sections])
+
+  // Leave the share link, so reloading doesn't show the preview again
+  const handleCloseSharedDiagram = useCallback(() => {
+    setSharedDiagram(null)
+    if (isShareHash(window.location.hash)) {
+      window.history.replaceState(null, '', window.location.pathname + window.location.search)
     }
   }, [])
 
+  const handleImportSharedDiagram = useCallback(async () => {
+    if (!sharedDiagram || !confirmDiscardChanges()) return
+    setIsImportingShared(true)
+    try {
+      await importDiagramFile(sharedDiagram)
+      handleCloseSharedDiagram()
+    } catch (error: any) {
+      console.error('Failed to import shared diagram:', error)
+      setNotification({ type: 'error', message: `Failed to import the shared diagram: ${error?.message || 'Unknown error occurred'}` })
+    } finally {
+      setIsImportingShared(false)
+    }
+  }, [sharedDiagram, confirmDiscardChanges, importDiagramFile, handleCloseSharedDiagram])
+
+  // Show the diagram of a share link the page was opened with, or that was pasted into this tab
+  useEffect(() => {
+    const openShareLink = async () => {
+      if (!isShareHash(window.location.hash)) return
+      try {
+        setSharedDiagram(await readShareHash(window.location.hash))
+      } catch (error: any) {
+        console.error('Failed to open share link:', error)
+        let message = error?.message || 'Unknown error occurred'
+        if (error instanceof DiagramFormatError) {
+          message = `The share link does not contain a valid diagram:\n\n${error.errors.slice(0, MAX_REPORTED_ERRORS).map(e => `• ${e}`).join('\n')}`
+        }
+        setNotification({ type: 'error', message })
+      }
+    }
+    openShareLink()
+    window.addEventListener('hashchange', openShareLink)
+    return () => window.removeEventListener('hashchange', openShareLink)
+  }, [])
+
+  // Read a CSV edge list and show a preview of the diagram it would create
+  const handleImportCsv = useCallback(async () => {
+    const file = await pickFile('.csv,text/csv')
+    if (!file) return
+
+    try {
+      const result = parseEdgeListCsv(await file.text())
+      if (result.flows.length === 0 && result.errors.length === 0) {
+        setNotification({ type: 'error', message: `"${file.name}" does not contain any source,target,value rows.` })
+        return
+      }
+      setCsvImport({ fileName: file.name, result })
+    } catch (error: any) {
+      console.error('Failed to read CSV file:', error)
+      setNotification({ type: 'error', message: `Failed to read "${file.name}": ${error?.message || 'Unknown error occurred'}` })
+    }
+  }, [])
+
+  // Create the previewed CSV diagram
+  const handleConfirmCsvImport = useCallback(async (name: string) => {
+    if (!csvImport || !confirmDiscardChanges()) return
+
+    const { stages: importedStages, flows: importedFlows } = csvImport.result
+    try {
+      const storage = await getStorage()
+      const diagram = await storage.createDiagram(name)
+      await storage.save(diagram.id, { stages: importedStages, flows: importedFlows })
+      setDiagrams(await storage.listDiagrams())
+      await handleOpenDiagram(diagram.id)
+      setCsvImport(null)
+    } catch (error: any) {
+      console.error('Failed to import CSV:', error)
+      setNotification({ type: 'error', message: `Failed to import CSV: ${error?.message || 'Unknown error occurred'}` })
+    }
+  }, [csvImport, confirmDiscardChanges, handleOpenDiagram])
+
+  // Switching storage restarts the app on the chosen adapter. Diagrams are not copied over.
+  const handleSelectStorage = useCallback((id: StorageAdapterId) => {
+    if (!confirmDiscardChanges()) return
+    const option = STORAGE_ADAPTERS.find(o => o.id === id)
+    if (id === 'rest') {
+      const url = window.prompt('Server URL:', getRestServerUrl())
+      if (!url || !url.trim()) return
+      setRestServerUrl(url.trim())
+    } else if (!window.confirm(`Switch storage to ${option?.label ?? id}? The app reloads and shows the diagrams kept there.`)) {
+      return
+    }
+
+    setSelectedAdapterId(id)
+    const url = new URL(window.location.href)
+    url.searchParams.delete('storage')
+    window.location.replace(url.toString())
+  }, [confirmDiscardChanges])
+
+  // Move diagrams left in localStorage into the active storage
+  const handleApplyLocalMigration = useCallback(async (actions: LocalDiagramAction[]) => {
+    if (!localMigration) return false
+
+    const storage = await getStorage()
+    const changedIds: string[] = []
+    const failures: string[] = []
+    for (let i = 0; i < localMigration.length; i++) {
+      try {
+        const changedId = await applyLocalDiagramAction(storage, localMigration[i], actions[i])
+        if (changedId) changedIds.push(changedId)
+      } catch (error: any) {
+        console.error(`Failed to migrate diagram ${localMigration[i].local.id}:`, error)
+        failures.push(`${localMigration[i].local.name}: ${error?.message || 'Unknown error occurred'}`)
+      }
+    }
+
+    try {
+      setDiagrams(await storage.listDiagrams())
+      if (changedIds.includes(currentDiagramId)) {
+        await handleOpenDiagram(currentDiagramId)
+      }
+    } catch (error) {
+      console.error('Failed to reload diagrams after migration:', error)
+    }
+
+    if (failures.length > 0) {
+      setNotification({ type: 'error', message: `Some diagrams could not be moved:\n\n${failures.join('\n')}` })
+      return false
+    }
+    return true
+  }, [localMigration, currentDiagramId, handleOpenDiagram])
+
+  const handleRemoveLocalCopy = useCallback(async () => {
+    try {
+      await removeLocalStorageData()
+      setLocalMigration(null)
+    } catch (error: any) {
+      console.error('Failed to remove localStorage data:', error)
+      setNotification({ type: 'error', message: `Failed to remove browser storage copy: ${error?.message || 'Unknown error occurred'}` })
+    }
+  }, [])
+
+  const handleKeepLocalCopy = useCallback(() => {
+    if (localMigration) {
+      dismissLocalData(localDataFingerprint(localMigration))
+    }
+    setLocalMigration(null)
+  }, [localMigration])
+
+  // Unlocking starts loading the diagrams
+  const handleUnlock = useCallback(async (passphrase: string) => {
+    await unlock(passphrase)
+    setIsLocked(false)
+  }, [])
+
+  // Everything stored is written again, encrypted
+  const handleEnableEncryption = useCallback(async (passphrase: string) => {
+    const storage = await getStorage()
+    await enableEncryption(passphrase, () => rewriteBrowserStorage(storage))
+    setEncryptionEnabled(true)
+    setIsPassphraseDialogOpen(false)
+    setNotification({ type: 'success', message: `Diagrams in ${storage.label} are now encrypted.` })
+  }, [])
+
+  const handleChangePassphrase = useCallback(async (currentPassphrase: string, newPassphrase: string) => {
+    await changePassphrase(currentPassphrase, newPassphrase)
+    setIsPassphraseDialogOpen(false)
+    setNotification({ type: 'success', message: 'Passphrase changed.' })
+  }, [])
+
+  const handleDisableEncryption = useCallback(async (currentPassphrase: string) => {
+    const storage = await getStorage()
+    await disableEncryption(currentPassphrase, () => rewriteBrowserStorage(storage))
+    setEncryptionEnabled(false)
+    setIsPassphraseDialogOpen(false)
+    setNotification({ type: 'success', message: `Diagrams in ${storage.label} are no longer encrypted.` })
+  }, [])
+
+  // React to a write in another tab. The open diagram is updated right away if it has no
+  // unsaved changes here; otherwise the user decides in the RemoteChangeBanner.
+  const handleOtherTabChange = useCallback(async (message: TabSyncMessage) => {
+    try {
+      const storage = await getStorage()
+      await storage.reload?.()
+      const availableDiagrams = await storage.listDiagrams()
+      setDiagrams(availableDiagrams)
+
+      if (message.type === 'snapshots') {
+        if (isSnapshotPanelOpen && storage.snapshots && (message.diagramId === null || message.diagramId === currentDiagramId)) {
+          setSnapshots(await storage.snapshots.list(currentDiagramId))
+        }
+        return
+      }
+
+      const diagram = availableDiagrams.find(d => d.id === currentDiagramId)
+      if (!diagram) {
+        if (message.type !== 'contents') {
+          setNotification({
+            type: 'error',
+            message: 'This diagram was deleted in another tab.\n\nTo keep what is on the canvas, duplicate it.',
+          })
+        }
+        return
+      }
+      if (message.type === 'diagrams' || (message.type === 'contents' && message.diagramId !== currentDiagramId)) return
+
+      const data = await storage.load(currentDiagramId)
+      const remoteDefinitions = data.attributeDefinitions ?? []
+      const remoteSettings = data.settings ?? {}
+      const remoteSections = data.sections ?? []
+      const remote: DiagramData = {
+        stages: data.stages.length > 0 || data.flows.length > 0 ? data.stages : createDefaultStages(),
+        flows: data.flows,
+        attributeDefinitions: remoteDefinitions,
+        settings: remoteSettings,
+        sections: remoteSections,
+      }
+      const base: DiagramData = JSON.parse(savedSnapshot)
+      const changedAt = new Date(diagram.updatedAt)
+      if (isDiffEmpty(diffDiagrams(base, remote))) return
+
+      if (isDiffEmpty(diffDiagrams({ stages, flows, attributeDefinitions, settings, sections }, remote))) {
+        // Both tabs ended up with the same contents
+        markSaved(remote.stages, remote.flows, remoteDefinitions, remoteSettings, remoteSections, changedAt)
+        return
+      }
+      if (!isDirty) {
+        // Nothing here to lose - show the other tab's version, undoable like any edit
+        saveToHistory(stages, flows, attributeDefinitions, settings, sections, 'Loaded changes from another tab')
+        setStages(remote.stages)
+        setFlows(remote.flows)
+        setAttributeDefinitions(remoteDefinitions)
+        setSettings(remoteSettings)
+        setSections(remoteSections)
+        markSaved(remote.stages, remote.flows, remoteDefinitions, remoteSettings, remoteSections, changedAt)
+        setRemoteChange(null)
+        return
+      }
+
+      setRemoteChange({
+        data: remote,
+        changedAt,
+        conflicts: mergeDiagrams(base, { stages, flows, attributeDefinitions, settings, sections }, remote).conflicts,
+      })
+    } catch (error) {
+      console.error('Failed to update from another tab:', error)
+    }
+  }, [isSnapshotPanelOpen, currentDiagramId, savedSnapshot, isDirty, stages, flows, attributeDefinitions, settings, sections, markSaved, saveToHistory])
+
+  // Take the other tab's version. The current contents stay reachable through Undo.
+  const handleReloadRemoteChange = useCallback(() => {
+    if (!remoteChange) return
+    const remoteDefinitions = remoteChange.data.attributeDefinitions ?? []
+    const remoteSettings = remoteChange.data.settings ?? {}
+    const remoteSections = remoteChange.data.sections ?? []
+    saveToHistory(stages, flows, attributeDefinitions, settings, sections, 'Loaded changes from another tab')
+    setStages(remoteChange.data.stages)
+    setFlows(remoteChange.data.flows)
+    setAttributeDefinitions(remoteDefinitions)
+    setSettings(remoteSettings)
+    setSections(remoteSections)
+    markSaved(remoteChange.data.stages, remoteChange.data.flows, remoteDefinitions, remoteSettings, remoteSections, remoteChange.changedAt)
+    setRemoteChange(null)
+  }, [remoteChange, stages, flows, attributeDefinitions, settings, sections, saveToHistory, markSaved])
+
+  // Combine both versions. The result stays unsaved so it can be checked first.
+  const handleMergeRemoteChange = useCallback(() => {
+    if (!remoteChange) return
+    const base: DiagramData = JSON.parse(savedSnapshot)
+    const { merged, conflicts } = mergeDiagrams(base, { stages, flows, attributeDefinitions, settings, sections }, remoteChange.data)
+    saveToHistory(stages, flows, attributeDefinitions, settings, sections, 'Merged changes from another tab')
+    setStages(merged.stages)
+    setFlows(merged.flows)
+    setAttributeDefinitions(merged.attributeDefinitions ?? [])
+    setSettings(merged.settings ?? {})
+    setSections(merged.sections ?? [])
+    markSaved(
+      remoteChange.data.stages,
+      remoteChange.data.flows,
+      remoteChange.data.attributeDefinitions ?? [],
+      remoteChange.data.settings ?? {},
+      remoteChange.data.sections ?? [],
+      remoteChange.changedAt
+    )
+    setRemoteChange(null)
+
+    let message = 'Merged the changes from the other tab. Save to store the result.'
+    if (conflicts.length > 0) {
+      message += `\n\nKept your version of: ${conflicts.map(c => `${c.kind} "${c.name}"`).join(', ')}`
+    }
+    setNotification({ type: 'success', message })
+  }, [remoteChange, savedSnapshot, stages, flows, attributeDefinitions, settings, sections, saveToHistory, markSaved])
+
+  // Keep the canvas as is. The next save overwrites the other tab's version.
+  const handleKeepMineRemoteChange = useCallback(() => {
+    if (!remoteChange) return
+    markSaved(
+      remoteChange.data.stages,
+      remoteChange.data.flows,
+      remoteChange.data.attributeDefinitions ?? [],
+      remoteChange.data.settings ?? {},
+      remoteChange.data.sections ?? [],
+      remoteChange.changedAt
+    )
+    setRemoteChange(null)
+  }, [remoteChange, markSaved])
+
+  // Integrity fixes change the canvas as undoable edits and are stored with the next save
+  const handleIntegrityFix = useCallback((issue: IntegrityIssue, fix: IntegrityFix, stageId?: string) => {
+    saveToHistory(stages, flows, attributeDefinitions, settings, sections, 'Fixed a problem')
+    const repaired = applyIntegrityFix({ stages, flows }, issue, fix, stageId)
+    setStages(repaired.stages)
+    setFlows(repaired.flows)
+    setSections(pruneSections(sections, repaired.stages))
+  }, [stages, flows, attributeDefinitions, settings, sections, saveToHistory])
+
+  const handleIntegrityFixAll = useCallback(() => {
+    saveToHistory(stages, flows, attributeDefinitions, settings, sections, 'Fixed all problems')
+    const repaired = repairAll({ stages, flows })
+    setStages(repaired.stages)
+    setFlows(repaired.flows)
+    setSections(pruneSections(sections, repaired.stages))
+  }, [stages, flows, attributeDefinitions, settings, sections, saveToHistory])
+
+  // Replace the canvas with a snapshot as a single undoable step
+  const handleRestoreSnapshot = useCallback((snapshot: Snapshot) => {
+    saveToHistory(stages, flows, attributeDefinitions, settings, sections, `Restored snapshot ${snapshot.name}`)
+    setStages(JSON.parse(JSON.stringify(snapshot.stages)))
+    setFlows(JSON.parse(JSON.stringify(snapshot.flows)))
+    setAttributeDefinitions(JSON.parse(JSON.stringify(snapshot.attributeDefinitions ?? [])))
+    setSettings({ ...snapshot.settings })
+    setSections(JSON.parse(JSON.stringify(snapshot.sections ?? [])))
+    setNotification({ type: 'success', message: `Restored snapshot "${snapshot.name}".\n\nUse Undo to go back.` })
+  }, [stages, flows, attributeDefinitions, settings, sections, saveToHistory])
+
+  // New attribute definitions as one undoable step. Values of removed attributes, and
+  // values that no longer fit a changed type, are dropped from the stages and flows.
+  const handleAttributeDefinitionsChange = useCallback((definitions: AttributeDefinition[]) => {
+    saveToHistory(stages, flows, attributeDefinitions, settings, sections)
+    setAttributeDefinitions(definitions)
+    setStages(cleanItemAttributes(stages, definitions))
+    setFlows(cleanItemAttributes(flows, definitions))
+    setIsAttributesDialogOpen(false)
+  }, [stages, flows, attributeDefinitions, settings, sections, saveToHistory])
+
+  // New root total and unit as one undoable step
+  const handleSettingsChange = useCallback((nextSettings: DiagramSettings) => {
+    if (JSON.stringify(normalizeSettings(nextSettings)) !== JSON.stringify(normalizeSettings(settings))) {
+      saveToHistory(stages, flows, attributeDefinitions, settings, sections)
+      setSettings(nextSettings)
+    }
+    setIsSettingsDialogOpen(false)
+  }, [stages, flows, attributeDefinitions, settings, sections, saveToHistory])
+
+  // New, edited or deleted section as one undoable step
+  const handleSectionSave = useCallback((section: Section) => {
+    saveToHistory(stages, flows, attributeDefinitions, settings, sections)
+    const exists = sections.some(s => s.id === section.id)
+    setSections(exists ? sections.map(s => (s.id === section.id ? section : s)) : [...sections, section])
+    setEditingSection(null)
+  }, [stages, flows, attributeDefinitions, settings, sections, saveToHistory])
+
+  const handleSectionDelete = useCallback((sectionId: string) => {
+    saveToHistory(stages, flows, attributeDefinitions, settings, sections)
+    setSections(sections.filter(s => s.id !== sectionId))
+    setEditingSection(null)
+  }, [stages, flows, attributeDefinitions, settings, sections, saveToHistory])
+
+  // Start a section over the first two stages, to be adjusted in the dialog
+  const handleAddSection = useCallback(() => {
+    const ordered = [...stages].sort((a, b) => a.position - b.position)
+    if (ordered.length < 2) {
+      setNotification({ type: 'error', message: 'A section spans two stages. Add another stage first.' })
+      return
+    }
+    setEditingSection({
+      id: `section-${Date.now()}`,
+      name: '',
+      fromStageId: ordered[0].id,
+      toStageId: ordered[ordered.length - 1].id,
+    })
+  }, [stages])
+
   // Wrapped setters that save to history
   const handleStagesChange = useCallback((newStages: Stage[]) => {
     // Save current state before changing
-    saveToHistory(stages, flows)
+    saveToHistory(stages, flows, attributeDefinitions, settings, sections)
     setStages(newStages)
-  }, [stages, flows, saveToHistory])
+    setSections(pruneSections(sections, newStages))
+  }, [stages, flows, attributeDefinitions, settings, sections, saveToHistory])
 
-  const handleFlowsChange = useCallback((newFlows: Flow[]) => {
+  const handleFlowsChange = useCallback((newFlows: Flow[], label?: string) => {
     // Save current state before changing
-    saveToHistory(stages, flows)
+    saveToHistory(stages, flows, attributeDefinitions, settings, sections, label)
     setFlows(newFlows)
-  }, [stages, flows, saveToHistory])
+  }, [stages, flows, attributeDefinitions, settings, sections, saveToHistory])
+
+  // The canvas edits the values of the period it shows, or is animating towards
+  const toStoredFlows = useCallback((newFlows: Flow[]) => {
+    const edited = animatedFlows ? restoreAnimatedValues(newFlows, animatedFlows, periodFlows) : newFlows
+    return storePeriodValues(edited, flows, activePeriod)
+  }, [animatedFlows, periodFlows, flows, activePeriod])
+
+  const handleCanvasFlowsChange = useCallback((newFlows: Flow[]) => {
+    handleFlowsChange(toStoredFlows(newFlows))
+  }, [toStoredFlows, handleFlowsChange])
+
+  // Stages and flows changed together by the canvas, e.g. a group of them deleted, as one undo step
+  const handleCanvasDiagramChange = useCallback((newStages: Stage[], newFlows: Flow[]) => {
+    saveToHistory(stages, flows, attributeDefinitions, settings, sections)
+    setStages(newStages)
+    setFlows(toStoredFlows(newFlows))
+    setSections(pruneSections(sections, newStages))
+  }, [stages, flows, attributeDefinitions, settings, sections, toStoredFlows, saveToHistory])
+
+  // New period, starting with the values currently shown
+  const handleAddPeriod = useCallback(() => {
+    if (flows.length === 0) {
+      setNotification({ type: 'error', message: 'Add flows before adding periods.' })
+      return
+    }
+    const period = window.prompt('Name of the new period, e.g. 2024-W05. Periods are ordered by name.', suggestNextPeriod(periods))?.trim()
+    if (!period) return
+    if (periods.includes(period)) {
+      setNotification({ type: 'error', message: `There already is a period "${period}".` })
+      return
+    }
+    handleFlowsChange(addPeriod(flows, period, activePeriod), `Added period ${period}`)
+    setSelectedPeriod(period)
+  }, [flows, periods, activePeriod, handleFlowsChange])
+
+  const handleRenamePeriod = useCallback((period: string) => {
+    const newPeriod = window.prompt('Rename period:', period)?.trim()
+    if (!newPeriod || newPeriod === period) return
+    if (periods.includes(newPeriod)) {
+      setNotification({ type: 'error', message: `There already is a period "${newPeriod}".` })
+      return
+    }
+    handleFlowsChange(renamePeriod(flows, period, newPeriod), `Renamed period ${period} to ${newPeriod}`)
+    setSelectedPeriod(newPeriod)
+  }, [flows, periods, handleFlowsChange])
+
+  const handleRemovePeriod = useCallback((period: string) => {
+    if (!window.confirm(`Remove period "${period}" and the flow values entered for it?`)) return
+    handleFlowsChange(removePeriod(flows, period), `Removed period ${period}`)
+    setSelectedPeriod(null)
+  }, [flows, handleFlowsChange])
+
+  // Every diagram starts on its default values
+  useEffect(() => {
+    setSelectedPeriod(null)
+  }, [currentDiagramId])
+
+  // Animate flow widths from what the canvas showed to the newly picked period.
+  // Edits within a period, and other diagrams, are shown right away.
+  const shownFlowsRef = useRef({ diagramId: currentDiagramId, period: activePeriod, flows: canvasFlows })
+  useEffect(() => {
+    const shown = shownFlowsRef.current
+    if (shown.period === activePeriod || shown.diagramId !== currentDiagramId) {
+      // Also ends an animation cut short by an edit
+      setAnimatedFlows(null)
+      return
+    }
+    const from = shown.flows
+    const to = periodFlows
+    const startedAt = performance.now()
+    let frame = requestAnimationFrame(function step(now) {
+      const progress = Math.min(1, (now - startedAt) / PERIOD_ANIMATION_MS)
+      if (progress === 1) {
+        setAnimatedFlows(null)
+        return
+      }
+      // Ease in and out
+      const eased = progress < 0.5 ? 2 * progress * progress : 1 - Math.pow(-2 * progress + 2, 2) / 2
+      setAnimatedFlows(interpolateFlows(from, to, eased))
+      frame = requestAnimationFrame(step)
+    })
+    return () => cancelAnimationFrame(frame)
+  }, [activePeriod, periodFlows, currentDiagramId])
+  useEffect(() => {
+    shownFlowsRef.current = { diagramId: currentDiagramId, period: activePeriod, flows: canvasFlows }
+  })
 
   // Setter for drag operations that don't save to history
   const handleStagesChangeNoHistory = useCallback((newStages: Stage[]) => {
     setStages(newStages)
   }, [])
 
-  // Initialize database and load data on mount
+  // Initialize database and load data on mount, or once unlocked
   useEffect(() => {
+    if (isLocked) return
     let mounted = true
+
+    // Show a fresh diagram when storage can't be read
+    const startWithDefaults = () => {
+      const defaultStages = createDefaultStages()
+      setStages(defaultStages)
+      setFlows([])
+      setAttributeDefinitions([])
+      setSettings({})
+      setSections([])
+      resetHistory(defaultStages, [], [], {}, [])
+    }
     
     const loadData = async () => {
       try {
@@ -176,48 +1256,68 @@ function App() {
         
         // Try to initialize database, but don't block if it fails
         try {
-          const db = await getDatabaseService()
-          
-          // Check if we got the mock service
-          if (!db.initDatabase || db.initDatabase.toString().includes('Mock database service')) {
-            console.warn('Database service not available, using default state')
-            throw new Error('Database service not available')
+          console.log('Opening storage...')
+          const opened = await openStorage()
+          const storage = opened.adapter
+          if (mounted) {
+            setOpenedStorage(opened)
           }
-          
-          console.log('Initializing database...')
-          await db.initDatabase()
+
+          // Make sure there is at least one diagram to open
+          let availableDiagrams: Diagram[] = await storage.listDiagrams()
+          if (availableDiagrams.length === 0) {
+            availableDiagrams = [await storage.createDiagram('My Diagram', DEFAULT_DIAGRAM_ID)]
+          }
+          const lastDiagramId = localStorage.getItem(CURRENT_DIAGRAM_KEY)
+          const diagramId = availableDiagrams.some(d => d.id === lastDiagramId)
+            ? lastDiagramId as string
+            : availableDiagrams[0].id
+
           console.log('Loading data from database...')
-          const data = await db.loadAll()
-          console.log('Loaded data from database:', { stages: data.stages.length, flows: data.flows.length })
+          const data = await storage.load(diagramId)
+          console.log('Loaded data from database:', { diagramId, stages: data.stages.length, flows: data.flows.length })
+          const viewState = await loadViewState(storage, diagramId)
           
           if (mounted) {
+            setDiagrams(availableDiagrams)
+            setCurrentDiagramId(diagramId)
+            setInitialViewState(viewState)
+
             // Only load if we have data, otherwise use default
-            if (data.stages.length > 0 || data.flows.length > 0) {
-              setStages(data.stages)
-              setFlows(data.flows)
-            }
+            const loadedStages = data.stages.length > 0 || data.flows.length > 0 ? data.stages : createDefaultStages()
+            setStages(loadedStages)
+            setFlows(data.flows)
+            const loadedDefinitions = data.attributeDefinitions ?? []
+            const loadedSettings = data.settings ?? {}
+            const loadedSections = data.sections ?? []
+            setAttributeDefinitions(loadedDefinitions)
+            setSettings(loadedSettings)
+            setSections(loadedSections)
             
             // Initialize history with loaded or default state
-            const initialState: HistoryState = {
-              stages: JSON.parse(JSON.stringify(data.stages.length > 0 ? data.stages : stages)),
-              flows: JSON.parse(JSON.stringify(data.flows)),
-            }
-            historyRef.current.push(initialState)
-            historyIndexRef.current = 0
-            setCanUndo(false)
+            resetHistory(loadedStages, data.flows, loadedDefinitions, loadedSettings, loadedSections)
+            const diagram = availableDiagrams.find(d => d.id === diagramId)
+            markSaved(loadedStages, data.flows, loadedDefinitions, loadedSettings, loadedSections, diagram ? new Date(diagram.updatedAt) : null)
+            setIsIntegrityReportOpen(checkIntegrity({ stages: loadedStages, flows: data.flows }).length > 0)
             setIsLoading(false)
           }
+
+          // Diagrams saved to localStorage during an earlier fallback would otherwise be ignored
+          if (storage.id !== 'localStorage' && storage.persistent) {
+            try {
+              const comparisons = await compareLocalStorageData(storage)
+              if (mounted && comparisons.length > 0 && !isLocalDataDismissed(localDataFingerprint(comparisons))) {
+                setLocalMigration(comparisons)
+              }
+            } catch (error) {
+              console.warn('Failed to check localStorage for diagrams:', error)
+            }
+          }
         } catch (dbError) {
           console.warn('Database initialization failed, using default state:', dbError)
           // Continue with default state even if database fails
           if (mounted) {
-            const initialState: HistoryState = {
-              stages: JSON.parse(JSON.stringify(stages)),
-              flows: JSON.parse(JSON.stringify(flows)),
-            }
-            historyRef.current.push(initialState)
-            historyIndexRef.current = 0
-            setCanUndo(false)
+            startWithDefaults()
             setIsLoading(false)
           }
         }
@@ -226,13 +1326,7 @@ function App() {
         if (mounted) {
           setIsLoading(false)
           // Initialize history with default state on error
-          const initialState: HistoryState = {
-            stages: JSON.parse(JSON.stringify(stages)),
-            flows: JSON.parse(JSON.stringify(flows)),
-          }
-          historyRef.current.push(initialState)
-          historyIndexRef.current = 0
-          setCanUndo(false)
+          startWithDefaults()
         }
       }
     }
@@ -242,21 +1336,74 @@ function App() {
     return () => {
       mounted = false
     }
-  }, []) // eslint-disable-line react-hooks/exhaustive-deps
+  }, [isLocked, resetHistory, markSaved])
 
-  // Keyboard shortcut for undo (Ctrl+Z / Cmd+Z)
+  // Pick up saves made in other tabs
+  useEffect(() => {
+    if (!openedStorage) return
+    return subscribeToOtherTabs(openedStorage.adapter.id, handleOtherTabChange)
+  }, [openedStorage, handleOtherTabChange])
+
+  // Keyboard shortcuts for undo (Ctrl+Z / Cmd+Z) and redo (Ctrl+Shift+Z / Cmd+Shift+Z / Ctrl+Y)
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
-      if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
+      if (!(e.ctrlKey || e.metaKey)) return
+      const key = e.key.toLowerCase()
+      if (key === 'z' && !e.shiftKey) {
         e.preventDefault()
         if (historyIndexRef.current > 0) {
           handleUndo()
         }
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault()
+        if (historyIndexRef.current < historyRef.current.length - 1) {
+          handleRedo()
+        }
       }
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [handleUndo])
+  }, [handleUndo, handleRedo])
+
+  // Load snapshots of the open diagram while the panel is visible
+  useEffect(() => {
+    if (!isSnapshotPanelOpen || !supportsSnapshots) return
+
+    let cancelled = false
+    getSnapshotStore()
+      .then(snapshotStore => snapshotStore.list(currentDiagramId))
+      .then((list: SnapshotSummary[]) => {
+        if (!cancelled) setSnapshots(list)
+      })
+      .catch((error: any) => console.error('Failed to load snapshots:', error))
+    return () => {
+      cancelled = true
+    }
+  }, [isSnapshotPanelOpen, supportsSnapshots, currentDiagramId])
+
+  // Autosave after a quiet period following the last edit
+  useEffect(() => {
+    // Don't overwrite another tab's version while the user hasn't decided what to do with it
+    if (isLoading || !autosave.enabled || !isDirty || isSaving || remoteChange) return
+    if (currentSnapshot === failedAutosaveSnapshot) return
+
+    const timeoutId = window.setTimeout(() => {
+      saveDiagram(true)
+    }, autosave.delaySeconds * 1000)
+    return () => window.clearTimeout(timeoutId)
+  }, [isLoading, autosave, isDirty, isSaving, remoteChange, currentSnapshot, failedAutosaveSnapshot, saveDiagram])
+
+  // Warn before leaving the page with unsaved changes
+  useEffect(() => {
+    if (!isDirty) return
+
+    const handleBeforeUnload = (e: BeforeUnloadEvent) => {
+      e.preventDefault()
+      e.returnValue = ''
+    }
+    window.addEventListener('beforeunload', handleBeforeUnload)
+    return () => window.removeEventListener('beforeunload', handleBeforeUnload)
+  }, [isDirty])
 
   // Keyboard shortcut for save (Ctrl+S / Cmd+S)
   useEffect(() => {
@@ -270,6 +1417,14 @@ function App() {
     return () => window.removeEventListener('keydown', handleKeyDown)
   }, [handleSave])
 
+  if (isLocked) {
+    return (
+      <div className="app">
+        <UnlockScreen onUnlock={handleUnlock} />
+      </div>
+    )
+  }
+
   if (isLoading) {
     return (
       <div className="app">
@@ -286,6 +1441,44 @@ function App() {
         <div className="header-content">
           <h1>2D Flow Visualization</h1>
           <div style={{ display: 'flex', alignItems: 'center', gap: '1rem' }}>
+            {diagrams.length > 0 && (
+              <DiagramSwitcher
+                diagrams={diagrams}
+                currentDiagramId={currentDiagramId}
+                disabled={isSaving}
+                onOpen={handleSwitchDiagram}
+                onCreate={handleCreateDiagram}
+                onRename={handleRenameDiagram}
+                onDuplicate={handleDuplicateDiagram}
+                onDelete={handleDeleteDiagram}
+              />
+            )}
+            <FileMenu
+              disabled={isLoading || isSaving}
+              items={[
+                { label: 'Export JSON', icon: <FileJson size={16} />, onClick: handleExportJson },
+                { label: 'Import JSON', icon: <Upload size={16} />, onClick: handleImportJson },
+                { label: 'Copy share link', icon: <Link size={16} />, onClick: handleCopyShareLink, disabled: !isShareLinkSupported() },
+                { label: 'Import CSV edge list', icon: <Sheet size={16} />, onClick: handleImportCsv },
+                ...(supportsRawFile ? [
+                  { label: 'Export .sqlite', icon: <Download size={16} />, onClick: handleExportSqlite },
+                  { label: 'Import .sqlite', icon: <Upload size={16} />, onClick: handleImportSqlite },
+                ] : []),
+              ]}
+            />
+            <StorageBadge
+              storage={openedStorage}
+              onSelect={handleSelectStorage}
+              encrypted={encryptionEnabled}
+              onPassphrase={supportsEncryption ? () => setIsPassphraseDialogOpen(true) : undefined}
+            />
+            <SaveStatus
+              isDirty={isDirty}
+              isSaving={isSaving}
+              lastSavedAt={lastSavedAt}
+              autosave={autosave}
+              onAutosaveChange={handleAutosaveChange}
+            />
             <button
               className="save-button"
               onClick={handleSave}
@@ -309,6 +1502,54 @@ function App() {
               <Save size={18} />
               <span>{isSaving ? 'Saving...' : 'Save'}</span>
             </button>
+            {supportsSnapshots && (
+              <button
+                className="undo-button"
+                onClick={() => {
+                  setIsSnapshotPanelOpen(!isSnapshotPanelOpen)
+                  setIsHistoryPanelOpen(false)
+                }}
+                title="Snapshot history"
+              >
+                <History size={18} />
+                <span>History</span>
+              </button>
+            )}
+            <button
+              className="undo-button"
+              onClick={() => setIsAttributesDialogOpen(true)}
+              title="Custom attributes of stages and flows"
+            >
+              <Tags size={18} />
+              <span>Attributes</span>
+            </button>
+            <button
+              className="undo-button"
+              onClick={() => setIsSettingsDialogOpen(true)}
+              title="Root total and unit, to show flows as amounts"
+            >
+              <Calculator size={18} />
+              <span>Amounts</span>
+            </button>
+            <button
+              className="undo-button"
+              onClick={handleAddSection}
+              title="Add a section spanning two stages, with notes"
+            >
+              <PanelTop size={18} />
+              <span>Section</span>
+            </button>
+            {integrityIssues.length > 0 && (
+              <button
+                className="undo-button"
+                onClick={() => setIsIntegrityReportOpen(true)}
+                title="Problems found in this diagram"
+                style={{ color: '#b45309' }}
+              >
+                <ShieldAlert size={18} />
+                <span>{integrityIssues.length} problem{integrityIssues.length === 1 ? '' : 's'}</span>
+              </button>
+            )}
             <button
               className="undo-button"
               onClick={handleUndo}
@@ -318,10 +1559,39 @@ function App() {
               <Undo2 size={18} />
               <span>Undo</span>
             </button>
+            <button
+              className="undo-button"
+              onClick={handleRedo}
+              disabled={!canRedo}
+              title="Redo (Ctrl+Shift+Z or Ctrl+Y)"
+            >
+              <Redo2 size={18} />
+              <span>Redo</span>
+            </button>
+            <button
+              className="undo-button"
+              onClick={() => {
+                setIsHistoryPanelOpen(!isHistoryPanelOpen)
+                setIsSnapshotPanelOpen(false)
+              }}
+              title="Edits made since the diagram was opened"
+            >
+              <ListOrdered size={18} />
+              <span>Edits</span>
+            </button>
           </div>
         </div>
       </header>
       <div className="app-content">
+        {remoteChange && (
+          <RemoteChangeBanner
+            changedAt={remoteChange.changedAt}
+            conflicts={remoteChange.conflicts}
+            onReload={handleReloadRemoteChange}
+            onMerge={handleMergeRemoteChange}
+            onKeepMine={handleKeepMineRemoteChange}
+          />
+        )}
         <div style={{ 
           flexShrink: 0, 
           width: '100%',
@@ -337,27 +1607,45 @@ function App() {
             width: '100%',
           }}>
             <FlowCanvas
+              key={currentDiagramId}
               stages={stages}
-              flows={flows}
+              flows={canvasFlows}
               onStagesChange={handleStagesChange}
-              onFlowsChange={handleFlowsChange}
+              onFlowsChange={handleCanvasFlowsChange}
               onStagesChangeNoHistory={handleStagesChangeNoHistory}
+              onDiagramChange={handleCanvasDiagramChange}
+              attributeDefinitions={attributeDefinitions}
+              settings={settings}
+              sections={sections}
+              onEditSection={setEditingSection}
+              initialViewState={initialViewState}
+              onViewStateChange={handleViewStateChange}
+              onError={(message) => setNotification({ type: 'error', message })}
+            />
+            <TimelineScrubber
+              periods={periods}
+              selectedPeriod={activePeriod}
+              onSelect={setSelectedPeriod}
+              onAddPeriod={handleAddPeriod}
+              onRenamePeriod={handleRenamePeriod}
+              onRemovePeriod={handleRemovePeriod}
             />
           </div>
         </div>
         
         {/* Top 5 Paths Table */}
         {(() => {
-          // Find all paths from root stages to leaf stages
+          // Find all paths from root stages to leaf stages, weighed with the values
+          // of the period picked on the timeline
           const findAllPaths = (): Array<{ flows: Array<{ id: string; name: string }>; weight: number }> => {
             // Find root stages (no incoming flows)
             const rootStages = stages.filter(stage => {
-              return flows.filter(f => f.toStageId === stage.id).length === 0
+              return periodFlows.filter(f => f.toStageId === stage.id).length === 0
             })
             
             // Find leaf stages (no outgoing flows)
             const leafStages = stages.filter(stage => {
-              return flows.filter(f => f.fromStageId === stage.id).length === 0
+              return periodFlows.filter(f => f.fromStageId === stage.id).length === 0
             })
             
             const allPaths: Array<{ flows: Array<{ id: string; name: string }>; weight: number }> = []
@@ -368,7 +1656,7 @@ function App() {
               const isLeaf = leafStages.some(s => s.id === currentStageId)
               if (isLeaf && path.length > 0) {
                 // Calculate path weight as minimum flow value (bottleneck)
-                const pathFlows = path.map(flowRef => flows.find(f => f.id === flowRef.id)).filter(Boolean) as Flow[]
+                const pathFlows = path.map(flowRef => periodFlows.find(f => f.id === flowRef.id)).filter(Boolean) as Flow[]
                 if (pathFlows.length > 0) {
                   const pathWeight = Math.min(...pathFlows.map(f => f.value))
                   allPaths.push({ flows: path.map(flowRef => ({ id: flowRef.id, name: flowRef.name })), weight: pathWeight })
@@ -377,7 +1665,7 @@ function App() {
               }
               
               // Find all outgoing flows from current stage
-              const outgoingFlows = flows.filter(f => f.fromStageId === currentStageId)
+              const outgoingFlows = periodFlows.filter(f => f.fromStageId === currentStageId)
               
               for (const flow of outgoingFlows) {
                 // Avoid cycles
@@ -420,7 +1708,7 @@ function App() {
                 fontWeight: '600',
                 color: '#1a202c',
               }}>
-                Top 5 Paths by Flow Weight
+                Top 5 Paths by Flow Weight{activePeriod !== null && ` in ${activePeriod}`}
               </h3>
               <table style={{
                 width: '100%',
@@ -481,10 +1769,15 @@ function App() {
                         color: '#475569',
                       }}>
                         {path.flows.map((flow, flowIndex) => {
-                          const flowObj = flows.find(f => f.id === flow.id)
+                          const flowObj = periodFlows.find(f => f.id === flow.id)
                           return (
                             <span key={flow.id}>
                               {flowObj?.name || flow.name || `Flow ${flowIndex + 1}`}
+                              {flowObj && (
+                                <span style={{ marginLeft: '0.25rem', fontSize: '12px', color: '#94a3b8' }}>
+                                  ({getShareOfParent(flowObj, periodFlows).toFixed(2)}%)
+                                </span>
+                              )}
                               {flowIndex < path.flows.length - 1 && (
                                 <span style={{ margin: '0 0.5rem', color: '#94a3b8' }}>→</span>
                               )}
@@ -499,7 +1792,17 @@ function App() {
                         fontWeight: '600',
                         textAlign: 'right',
                       }}>
-                        {path.weight.toFixed(2)}
+                        {(() => {
+                          const amount = getAmount(path.weight, settings)
+                          return amount === null ? path.weight.toFixed(2) : (
+                            <>
+                              {formatAmount(amount, settings)}
+                              <span style={{ marginLeft: '0.375rem', fontWeight: '400', color: '#94a3b8' }}>
+                                {path.weight.toFixed(2)}%
+                              </span>
+                            </>
+                          )
+                        })()}
                       </td>
                     </tr>
                   ))}
@@ -510,6 +1813,110 @@ function App() {
         })()}
       </div>
       
+      {isHistoryPanelOpen && (
+        <HistoryPanel
+          items={historyItems}
+          onJump={handleJumpToHistory}
+          onClose={() => setIsHistoryPanelOpen(false)}
+        />
+      )}
+
+      {isSnapshotPanelOpen && (
+        <SnapshotPanel
+          snapshots={snapshots}
+          stages={stages}
+          flows={flows}
+          sections={sections}
+          attributeDefinitions={attributeDefinitions}
+          settings={settings}
+          snapshotOnSave={snapshotOnSave}
+          onSnapshotOnSaveChange={handleSnapshotOnSaveChange}
+          onTakeSnapshot={handleTakeSnapshot}
+          onLoadSnapshot={handleLoadSnapshot}
+          onRestore={handleRestoreSnapshot}
+          onDelete={handleDeleteSnapshot}
+          onClose={() => setIsSnapshotPanelOpen(false)}
+        />
+      )}
+      
+      {isIntegrityReportOpen && (
+        <IntegrityReport
+          issues={integrityIssues}
+          stages={stages}
+          onFix={handleIntegrityFix}
+          onFixAll={handleIntegrityFixAll}
+          onClose={() => setIsIntegrityReportOpen(false)}
+        />
+      )}
+
+      {isAttributesDialogOpen && (
+        <AttributeDefinitionsDialog
+          definitions={attributeDefinitions}
+          usage={attributeUsage}
+          onSave={handleAttributeDefinitionsChange}
+          onClose={() => setIsAttributesDialogOpen(false)}
+        />
+      )}
+
+      {isSettingsDialogOpen && (
+        <DiagramSettingsDialog
+          settings={settings}
+          onSave={handleSettingsChange}
+          onClose={() => setIsSettingsDialogOpen(false)}
+        />
+      )}
+
+      {editingSection && (
+        <SectionDialog
+          section={editingSection}
+          stages={stages}
+          isNew={!sections.some(s => s.id === editingSection.id)}
+          onSave={handleSectionSave}
+          onDelete={handleSectionDelete}
+          onClose={() => setEditingSection(null)}
+        />
+      )}
+
+      {isPassphraseDialogOpen && openedStorage && (
+        <PassphraseDialog
+          enabled={encryptionEnabled}
+          storageLabel={openedStorage.adapter.label}
+          onEnable={handleEnableEncryption}
+          onChange={handleChangePassphrase}
+          onDisable={handleDisableEncryption}
+          onClose={() => setIsPassphraseDialogOpen(false)}
+        />
+      )}
+
+      {localMigration && openedStorage && (
+        <LocalDataMigrationDialog
+          comparisons={localMigration}
+          storageLabel={openedStorage.adapter.label}
+          onApply={handleApplyLocalMigration}
+          onRemoveLocalCopy={handleRemoveLocalCopy}
+          onKeepLocalCopy={handleKeepLocalCopy}
+          onLater={() => setLocalMigration(null)}
+        />
+      )}
+
+      {csvImport && (
+        <CsvImportPreview
+          fileName={csvImport.fileName}
+          result={csvImport.result}
+          onConfirm={handleConfirmCsvImport}
+          onCancel={() => setCsvImport(null)}
+        />
+      )}
+
+      {sharedDiagram && (
+        <SharedDiagramPreview
+          file={sharedDiagram}
+          isImporting={isImportingShared}
+          onImport={handleImportSharedDiagram}
+          onClose={handleCloseSharedDiagram}
+        />
+      )}
+
       {/* Notification Modal */}
       {notification && (
         <div
@@ -0,0 +1,152 @@
+import { useState } from 'react'
+import { AttributeDefinition, AttributeType } from '../types'
+import { ATTRIBUTE_TYPES, createAttributeId } from '../services/attributes'
+import { Plus, Tags, Trash2, X } from 'lucide-react'
+import './AttributeDefinitionsDialog.css'
+
+interface AttributeDefinitionsDialogProps {
+  definitions: AttributeDefinition[]
+  // Number of stages and flows with a value, per attribute id
+  usage: Record<string, number>
+  onSave: (definitions: AttributeDefinition[]) => void
+  onClose: () => void
+}
+
+// Definition being edited. Choices are typed as one comma-separated line.
+interface DraftDefinition {
+  id: string
+  name: string
+  type: AttributeType
+  options: string
+}
+
+const toDraft = (definition: AttributeDefinition): DraftDefinition => ({
+  id: definition.id,
+  name: definition.name,
+  type: definition.type,
+  options: (definition.options ?? []).join(', '),
+})
+
+const parseOptions = (text: string): string[] => [...new Set(text.split(',').map(option => option.trim()).filter(Boolean))]
+
+// Add, rename, retype and remove the custom attributes of the open diagram
+export default function AttributeDefinitionsDialog({ definitions, usage, onSave, onClose }: AttributeDefinitionsDialogProps) {
+  const [drafts, setDrafts] = useState<DraftDefinition[]>(() => definitions.map(toDraft))
+
+  const updateDraft = (index: number, changes: Partial<DraftDefinition>) => {
+    setDrafts(drafts.map((draft, i) => i === index ? { ...draft, ...changes } : draft))
+  }
+
+  const handleAdd = () => {
+    const id = createAttributeId([...definitions, ...drafts.map(draft => ({ ...draft, options: [] }))])
+    setDrafts([...drafts, { id, name: '', type: 'text', options: '' }])
+  }
+
+  const handleRemove = (index: number) => {
+    const draft = drafts[index]
+    const count = usage[draft.id] ?? 0
+    if (count > 0 && !window.confirm(`"${draft.name}" has a value on ${count} stage(s) or flow(s). Remove it together with those values?`)) return
+    setDrafts(drafts.filter((_, i) => i !== index))
+  }
+
+  const errors: string[] = []
+  const names = new Set<string>()
+  for (const draft of drafts) {
+    const name = draft.name.trim()
+    if (!name) {
+      errors.push('Every attribute needs a name')
+    } else if (names.has(name.toLowerCase())) {
+      errors.push(`There is more than one attribute named "${name}"`)
+    }
+    names.add(name.toLowerCase())
+    if (draft.type === 'enum' && parseOptions(draft.options).length === 0) {
+      errors.push(`"${name || 'New attribute'}" needs at least one choice`)
+    }
+  }
+
+  const handleSave = () => {
+    onSave(drafts.map(draft => {
+      const definition: AttributeDefinition = { id: draft.id, name: draft.name.trim(), type: draft.type }
+      if (draft.type === 'enum') definition.options = parseOptions(draft.options)
+      return definition
+    }))
+  }
+
+  return (
+    <div className="attributes-overlay" onClick={onClose}>
+      <div className="attributes-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="attributes-header">
+          <Tags size={20} />
+          <h3>Attributes</h3>
+          <button className="attributes-close" onClick={onClose} title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <p className="attributes-text">
+          Fields such as owner, SLA or system that every stage and flow of this diagram can have a value for.
+          Values are entered when editing a stage or flow. Changes are undoable and stored with the next save.
+        </p>
+
+        {drafts.length === 0 ? (
+          <p className="attributes-empty">No attributes yet.</p>
+        ) : (
+          <ul className="attributes-list">
+            {drafts.map((draft, index) => (
+              <li key={draft.id} className="attributes-item">
+                <input
+                  type="text"
+                  value={draft.name}
+                  onChange={(e) => updateDraft(index, { name: e.target.value })}
+                  placeholder="Name, e.g. Owner"
+                  autoFocus={draft.name === '' && index === drafts.length - 1}
+                />
+                <select
+                  value={draft.type}
+                  onChange={(e) => updateDraft(index, { type: e.target.value as AttributeType })}
+                >
+                  {ATTRIBUTE_TYPES.map(({ type, label }) => (
+                    <option key={type} value={type}>{label}</option>
+                  ))}
+                </select>
+                <button className="attributes-remove" onClick={() => handleRemove(index)} title="Remove attribute">
+                  <Trash2 size={16} />
+                </button>
+                {draft.type === 'enum' && (
+                  <input
+                    className="attributes-options"
+                    type="text"
+                    value={draft.options}
+                    onChange={(e) => updateDraft(index, { options: e.target.value })}
+                    placeholder="Choices, separated by commas"
+                  />
+                )}
+                {(usage[draft.id] ?? 0) > 0 && (
+                  <span className="attributes-usage">
+                    Used by {usage[draft.id]} stage(s) or flow(s). Values that don't fit a changed type are removed.
+                  </span>
+                )}
+              </li>
+            ))}
+          </ul>
+        )}
+
+        <button className="attributes-add" onClick={handleAdd}>
+          <Plus size={16} />
+          Add attribute
+        </button>
+
+        {errors.length > 0 && <p className="attributes-error">{errors[0]}</p>}
+
+        <div className="attributes-buttons">
+          <button className="attributes-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button className="attributes-primary" onClick={handleSave} disabled={errors.length > 0}>
+            Apply
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
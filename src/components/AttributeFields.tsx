@@ -0,0 +1,85 @@
+import { AttributeDefinition, AttributeType, AttributeValues } from '../types'
+import { validateAttributeValue } from '../services/attributes'
+import './AttributeFields.css'
+
+interface AttributeFieldsProps {
+  definitions: AttributeDefinition[]
+  values: AttributeValues | undefined
+  onChange: (values: AttributeValues) => void
+  onSubmit: () => void
+  onCancel: () => void
+}
+
+const INPUT_TYPES: Record<Exclude<AttributeType, 'enum'>, string> = {
+  text: 'text',
+  number: 'number',
+  date: 'date',
+  url: 'url',
+}
+
+// Inputs for the custom attribute values of a stage or flow, used in the edit modals
+export default function AttributeFields({ definitions, values, onChange, onSubmit, onCancel }: AttributeFieldsProps) {
+  if (definitions.length === 0) return null
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault()
+      e.stopPropagation()
+      onSubmit()
+    } else if (e.key === 'Escape') {
+      e.preventDefault()
+      e.stopPropagation()
+      onCancel()
+    }
+  }
+
+  const setValue = (id: string, value: string) => {
+    onChange({ ...values, [id]: value })
+  }
+
+  return (
+    <div
+      className="attribute-fields"
+      onClick={(e) => e.stopPropagation()}
+      onMouseDown={(e) => e.stopPropagation()}
+    >
+      {definitions.map(definition => {
+        const value = values?.[definition.id] ?? ''
+        const problem = validateAttributeValue(definition, value)
+        const inputId = `attribute-field-${definition.id}`
+        return (
+          <div key={definition.id}>
+            <div className={`attribute-field${problem ? ' invalid' : ''}`}>
+              <label htmlFor={inputId} title={definition.name}>{definition.name}:</label>
+              {definition.type === 'enum' ? (
+                <select
+                  id={inputId}
+                  value={value}
+                  onChange={(e) => setValue(definition.id, e.target.value)}
+                  onKeyDown={handleKeyDown}
+                >
+                  <option value="">-</option>
+                  {/* Keep a value that is no longer a choice visible, so it isn't changed unnoticed */}
+                  {value && !definition.options?.includes(value) && <option value={value}>{value}</option>}
+                  {(definition.options ?? []).map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <input
+                  id={inputId}
+                  type={INPUT_TYPES[definition.type]}
+                  value={value}
+                  onChange={(e) => setValue(definition.id, e.target.value)}
+                  onKeyDown={handleKeyDown}
+                  placeholder={definition.type === 'url' ? 'https://' : undefined}
+                />
+              )}
+            </div>
+            {problem && <p className="attribute-field-error">{problem}</p>}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,83 @@
+import { useState } from 'react'
+import { CsvImportResult } from '../services/csvImport'
+import DiagramPreview from './DiagramPreview'
+import { AlertCircle, Info } from 'lucide-react'
+import './CsvImportPreview.css'
+
+interface CsvImportPreviewProps {
+  fileName: string
+  result: CsvImportResult
+  onConfirm: (diagramName: string) => void
+  onCancel: () => void
+}
+
+// Shows what a CSV import will create before anything is saved
+export default function CsvImportPreview({
+  fileName,
+  result,
+  onConfirm,
+  onCancel,
+}: CsvImportPreviewProps) {
+  const [name, setName] = useState(() => fileName.replace(/\.[^.]+$/, '') || 'Imported diagram')
+  const canImport = result.flows.length > 0 && name.trim() !== ''
+
+  return (
+    <div className="csv-preview-overlay" onClick={onCancel}>
+      <div className="csv-preview-modal" onClick={(e) => e.stopPropagation()}>
+        <h3>Import CSV</h3>
+        <p className="csv-preview-summary">
+          {result.stages.length} stages and {result.flows.length} flows from "{fileName}"
+          {result.headerSkipped && ' (first line read as a header)'}
+        </p>
+
+        <DiagramPreview stages={result.stages} flows={result.flows} width={452} height={200} />
+
+        {result.warnings.length > 0 && (
+          <ul className="csv-preview-messages warning">
+            {result.warnings.map(warning => (
+              <li key={warning}>
+                <Info size={14} />
+                <span>{warning}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {result.errors.length > 0 && (
+          <div className="csv-preview-errors">
+            <strong>
+              {result.errors.length} {result.errors.length === 1 ? 'row' : 'rows'} could not be read and will be skipped:
+            </strong>
+            <ul className="csv-preview-messages error">
+              {result.errors.map(error => (
+                <li key={error.line}>
+                  <AlertCircle size={14} />
+                  <span>Line {error.line}: {error.message}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <label className="csv-preview-name">
+          Diagram name
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            autoFocus
+          />
+        </label>
+
+        <div className="csv-preview-buttons">
+          <button className="csv-preview-cancel" onClick={onCancel}>
+            Cancel
+          </button>
+          <button className="csv-preview-confirm" onClick={() => onConfirm(name.trim())} disabled={!canImport}>
+            Create diagram
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
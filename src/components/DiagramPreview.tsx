@@ -0,0 +1,107 @@
+import { Stage, Flow } from '../types'
+
+interface DiagramPreviewProps {
+  stages: Stage[]
+  flows: Flow[]
+  width?: number
+  height?: number
+}
+
+const PADDING = 12
+
+// Small read-only rendering of a diagram, used for previews before restoring or importing
+export default function DiagramPreview({
+  stages,
+  flows,
+  width = 280,
+  height = 160,
+}: DiagramPreviewProps) {
+  if (stages.length === 0) {
+    return (
+      <div
+        style={{
+          width,
+          height,
+          display: 'flex',
+          alignItems: 'center',
+          justifyContent: 'center',
+          background: '#f8fafc',
+          border: '1px solid #e2e8f0',
+          borderRadius: '8px',
+          color: '#94a3b8',
+          fontSize: '13px',
+        }}
+      >
+        Empty diagram
+      </div>
+    )
+  }
+
+  // Stages without a vertical position sit on the canvas center line, which has no
+  // fixed pixel value - line them up with the average of the positioned ones
+  const definedYs = stages.map(s => s.yPosition).filter((y): y is number => y !== undefined && Number.isFinite(y))
+  const defaultY = definedYs.length > 0 ? definedYs.reduce((sum, y) => sum + y, 0) / definedYs.length : 0
+  const getY = (stage: Stage) => stage.yPosition !== undefined && Number.isFinite(stage.yPosition) ? stage.yPosition : defaultY
+
+  const xs = stages.map(s => s.position)
+  const ys = stages.map(getY)
+  const minX = Math.min(...xs)
+  const maxX = Math.max(...xs)
+  const minY = Math.min(...ys)
+  const maxY = Math.max(...ys)
+  const spanX = maxX - minX || 1
+  const spanY = maxY - minY || 1
+
+  const toX = (position: number) => PADDING + ((position - minX) / spanX) * (width - PADDING * 2)
+  const toY = (y: number) => maxY === minY ? height / 2 : PADDING + ((y - minY) / spanY) * (height - PADDING * 2)
+
+  const maxValue = Math.max(1, ...flows.map(f => f.value).filter(Number.isFinite))
+  const stageById = new Map(stages.map(s => [s.id, s]))
+
+  return (
+    <svg
+      width={width}
+      height={height}
+      style={{ background: '#f8fafc', border: '1px solid #e2e8f0', borderRadius: '8px', display: 'block' }}
+    >
+      {flows.map(flow => {
+        const fromStage = stageById.get(flow.fromStageId)
+        const toStage = stageById.get(flow.toStageId)
+        if (!fromStage || !toStage) return null
+
+        const x1 = toX(fromStage.position)
+        const y1 = toY(getY(fromStage))
+        const x2 = toX(toStage.position)
+        const y2 = toY(getY(toStage))
+        const midX = (x1 + x2) / 2
+        const strokeWidth = Math.max(1, (flow.value / maxValue) * 10)
+
+        return (
+          <path
+            key={flow.id}
+            d={`M ${x1} ${y1} C ${midX} ${y1}, ${midX} ${y2}, ${x2} ${y2}`}
+            fill="none"
+            stroke={flow.color || '#667eea'}
+            strokeOpacity={0.6}
+            strokeWidth={strokeWidth}
+          >
+            <title>{flow.name}</title>
+          </path>
+        )
+      })}
+      {stages.map(stage => (
+        <rect
+          key={stage.id}
+          x={toX(stage.position) - 3}
+          y={toY(getY(stage)) - 8}
+          width={6}
+          height={16}
+          rx={1}
+          fill={stage.color || '#667eea'}
+        >
+          <title>{stage.name}</title>
+        </rect>
+      ))}
+    </svg>
+  )
+}
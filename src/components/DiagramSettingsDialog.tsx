@@ -0,0 +1,80 @@
+import { useState } from 'react'
+import { Calculator, X } from 'lucide-react'
+import { DiagramSettings } from '../types'
+import { normalizeSettings } from '../services/amounts'
+import './DiagramSettingsDialog.css'
+
+interface DiagramSettingsDialogProps {
+  settings: DiagramSettings
+  onSave: (settings: DiagramSettings) => void
+  onClose: () => void
+}
+
+// Set the absolute amount the root stages stand for, e.g. 5000 users,
+// so flows show amounts next to their percentages
+export default function DiagramSettingsDialog({ settings, onSave, onClose }: DiagramSettingsDialogProps) {
+  const [rootTotal, setRootTotal] = useState(settings.rootTotal !== undefined ? String(settings.rootTotal) : '')
+  const [unit, setUnit] = useState(settings.unit ?? '')
+  const [error, setError] = useState<string | null>(null)
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const total = rootTotal.trim() === '' ? undefined : Number(rootTotal)
+    if (total !== undefined && !(Number.isFinite(total) && total > 0)) {
+      setError('The root total must be a number greater than 0, or empty to show percentages only.')
+      return
+    }
+    onSave(normalizeSettings({ rootTotal: total, unit }))
+  }
+
+  return (
+    <div className="diagram-settings-overlay" onClick={onClose}>
+      <form className="diagram-settings-modal" onClick={(e) => e.stopPropagation()} onSubmit={handleSubmit}>
+        <div className="diagram-settings-header">
+          <Calculator size={20} />
+          <h3>Amounts</h3>
+          <button type="button" className="diagram-settings-close" onClick={onClose} title="Close">
+            <X size={18} />
+          </button>
+        </div>
+        <p className="diagram-settings-text">
+          Flow values are percentages of the root stages. Give the root stages an absolute total to show every flow
+          as an amount next to its share of its parent. Changes are undoable and stored with the next save.
+        </p>
+
+        <label className="diagram-settings-field">
+          <span>Root total</span>
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={rootTotal}
+            onChange={(e) => setRootTotal(e.target.value)}
+            placeholder="e.g. 5000"
+            autoFocus
+          />
+        </label>
+        <label className="diagram-settings-field">
+          <span>Unit</span>
+          <input
+            type="text"
+            value={unit}
+            onChange={(e) => setUnit(e.target.value)}
+            placeholder="e.g. users, €, requests/s"
+          />
+        </label>
+
+        {error && <p className="diagram-settings-error" role="alert">{error}</p>}
+
+        <div className="diagram-settings-buttons">
+          <button type="button" className="diagram-settings-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="submit" className="diagram-settings-primary">
+            Apply
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
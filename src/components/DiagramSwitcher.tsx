@@ -0,0 +1,92 @@
+import { Diagram } from '../types'
+import { Plus, Pencil, Copy, Trash2 } from 'lucide-react'
+import './DiagramSwitcher.css'
+
+interface DiagramSwitcherProps {
+  diagrams: Diagram[]
+  currentDiagramId: string
+  disabled?: boolean
+  onOpen: (diagramId: string) => void
+  onCreate: (name: string) => void
+  onRename: (diagramId: string, name: string) => void
+  onDuplicate: (diagramId: string, name: string) => void
+  onDelete: (diagramId: string) => void
+}
+
+export default function DiagramSwitcher({
+  diagrams,
+  currentDiagramId,
+  disabled = false,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+}: DiagramSwitcherProps) {
+  const currentDiagram = diagrams.find(d => d.id === currentDiagramId)
+
+  const handleCreate = () => {
+    const name = window.prompt('Name of the new diagram:', `Diagram ${diagrams.length + 1}`)
+    if (name && name.trim()) {
+      onCreate(name.trim())
+    }
+  }
+
+  const handleRename = () => {
+    if (!currentDiagram) return
+    const name = window.prompt('Rename diagram:', currentDiagram.name)
+    if (name && name.trim() && name.trim() !== currentDiagram.name) {
+      onRename(currentDiagram.id, name.trim())
+    }
+  }
+
+  const handleDuplicate = () => {
+    if (!currentDiagram) return
+    const name = window.prompt('Name of the copy:', `${currentDiagram.name} (copy)`)
+    if (name && name.trim()) {
+      onDuplicate(currentDiagram.id, name.trim())
+    }
+  }
+
+  const handleDelete = () => {
+    if (!currentDiagram) return
+    if (window.confirm(`Delete diagram "${currentDiagram.name}"? This cannot be undone.`)) {
+      onDelete(currentDiagram.id)
+    }
+  }
+
+  return (
+    <div className="diagram-switcher">
+      <select
+        className="diagram-select"
+        value={currentDiagramId}
+        onChange={(e) => onOpen(e.target.value)}
+        disabled={disabled}
+        title="Open diagram"
+      >
+        {diagrams.map(diagram => (
+          <option key={diagram.id} value={diagram.id}>
+            {diagram.name}
+          </option>
+        ))}
+      </select>
+      <button className="diagram-action" onClick={handleCreate} disabled={disabled} title="New diagram">
+        <Plus size={16} />
+      </button>
+      <button className="diagram-action" onClick={handleRename} disabled={disabled || !currentDiagram} title="Rename diagram">
+        <Pencil size={16} />
+      </button>
+      <button className="diagram-action" onClick={handleDuplicate} disabled={disabled || !currentDiagram} title="Duplicate diagram">
+        <Copy size={16} />
+      </button>
+      <button
+        className="diagram-action danger"
+        onClick={handleDelete}
+        disabled={disabled || !currentDiagram || diagrams.length <= 1}
+        title={diagrams.length <= 1 ? 'The last diagram cannot be deleted' : 'Delete diagram'}
+      >
+        <Trash2 size={16} />
+      </button>
+    </div>
+  )
+}
@@ -0,0 +1,69 @@
+import { useState, useRef, useEffect, ReactNode } from 'react'
+import { FolderOpen, ChevronDown } from 'lucide-react'
+import './FileMenu.css'
+
+export interface FileMenuItem {
+  label: string
+  icon: ReactNode
+  onClick: () => void
+  disabled?: boolean
+}
+
+interface FileMenuProps {
+  items: FileMenuItem[]
+  disabled?: boolean
+}
+
+// Header dropdown for importing and exporting diagrams
+export default function FileMenu({ items, disabled = false }: FileMenuProps) {
+  const [isOpen, setIsOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    if (!isOpen) return
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isOpen])
+
+  const handleItemClick = (item: FileMenuItem) => {
+    setIsOpen(false)
+    item.onClick()
+  }
+
+  return (
+    <div className="file-menu" ref={containerRef}>
+      <button
+        className="file-menu-button"
+        onClick={() => setIsOpen(!isOpen)}
+        disabled={disabled}
+        title="Import and export"
+      >
+        <FolderOpen size={18} />
+        <span>File</span>
+        <ChevronDown size={14} />
+      </button>
+      {isOpen && (
+        <div className="file-menu-dropdown">
+          {items.map(item => (
+            <button
+              key={item.label}
+              className="file-menu-item"
+              onClick={() => handleItemClick(item)}
+              disabled={item.disabled}
+            >
+              {item.icon}
+              <span>{item.label}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,8 +1,32 @@
 import { useRef, useEffect, useState } from 'react'
-import { Stage, Flow } from '../types'
+import { Stage, Flow, Section, ViewState, AttributeDefinition, DiagramSettings } from '../types'
+import { cleanItemAttributes, describeAttributes, validateAttributeValues } from '../services/attributes'
+import { formatFlowLabel, describeFlowValue } from '../services/amounts'
+import { autoLayout } from '../services/autoLayout'
+import { orderBands, reorderFlows, reorderIncomingFlows } from '../services/bandOrder'
+import { alignStages, moveStages, StageAlignment } from '../services/selection'
+import { copySubgraph, readSubgraph, instantiateSubgraph } from '../services/subgraphClipboard'
 import StageMarker from './StageMarker'
 import FlowPath from './FlowPath'
-import { Lock, Unlock, RotateCcw, Check, X, Trash2, GitBranch, Link } from 'lucide-react'
+import AttributeFields from './AttributeFields'
+import SectionAccordion, { SECTION_HEADER_HEIGHT } from './SectionAccordion'
+import {
+  Lock,
+  Unlock,
+  RotateCcw,
+  Check,
+  X,
+  Trash2,
+  GitBranch,
+  Link,
+  LayoutGrid,
+  Pin,
+  Paintbrush,
+  AlignStartHorizontal,
+  AlignCenterHorizontal,
+  AlignEndHorizontal,
+  AlignCenterVertical,
+} from 'lucide-react'
 import './FlowCanvas.css'
 
 interface FlowCanvasProps {
@@ -11,12 +35,29 @@ interface FlowCanvasProps {
   onStagesChange: (stages: Stage[]) => void
   onFlowsChange: (flows: Flow[]) => void
   onStagesChangeNoHistory?: (stages: Stage[]) => void
+  // Stages and flows changed together, as one undo step
+  onDiagramChange?: (stages: Stage[], flows: Flow[]) => void
+  // Where the user left this diagram last time; the default view is used without it
+  initialViewState?: ViewState | null
+  onViewStateChange?: (viewState: ViewState) => void
+  // Custom attributes of the diagram, edited in the stage and flow modals
+  attributeDefinitions?: AttributeDefinition[]
+  // Root total and unit that turn flow percentages into amounts
+  settings?: DiagramSettings
+  // Accordions spanning two stages, drawn along the top of the canvas
+  sections?: Section[]
+  onEditSection?: (section: Section) => void
+  // Tell the user why an action wasn't carried out
+  onError?: (message: string) => void
 }
 
 // Canvas height will be calculated based on viewport
 const MIN_MARKER_HEIGHT = 480 // Minimum node height (4x the previous 120)
 const HEIGHT_SCALE = 8 // Pixels per unit of flow value (4x the previous 2)
 const FLOW_SPACING = 8 // Spacing between flows (4x the previous 2)
+const DEFAULT_ZOOM = 0.8
+const ATTRIBUTE_FIELD_HEIGHT = 40 // Height of one custom attribute row in the edit modals
+const GROUP_SELECTION_COLOR = '#f59e0b' // Outline of stages and flows picked for a group operation
 
 export default function FlowCanvas({
   stages,
@@ -24,26 +65,52 @@ export default function FlowCanvas({
   onStagesChange,
   onFlowsChange,
   onStagesChangeNoHistory,
+  onDiagramChange,
+  initialViewState,
+  onViewStateChange,
+  attributeDefinitions = [],
+  settings = {},
+  sections = [],
+  onEditSection,
+  onError,
 }: FlowCanvasProps) {
   const canvasRef = useRef<HTMLDivElement>(null)
   const svgRef = useRef<SVGSVGElement>(null)
   const [canvasWidth, setCanvasWidth] = useState(1200)
   const [canvasHeight, setCanvasHeight] = useState(800)
-  const [selectedStageId, setSelectedStageId] = useState<string | null>(null)
+  // Only restore the selection if the stage still exists
+  const [selectedStageId, setSelectedStageId] = useState<string | null>(() => {
+    const id = initialViewState?.selectedStageId
+    return id && stages.some(stage => stage.id === id) ? id : null
+  })
   const [isCreatingBranch, setIsCreatingBranch] = useState(false)
   const [selectedFlowId, setSelectedFlowId] = useState<string | null>(null)
   const [editingFlow, setEditingFlow] = useState<Flow | null>(null)
   const [editingStage, setEditingStage] = useState<Stage | null>(null)
+  const [expandedSectionIds, setExpandedSectionIds] = useState<string[]>([])
+  // Stages and flows picked with shift-click or by dragging a box, for group operations
+  const [groupStageIds, setGroupStageIds] = useState<string[]>([])
+  const [groupFlowIds, setGroupFlowIds] = useState<string[]>([])
+  const [groupColor, setGroupColor] = useState('#667eea')
+  // Box being dragged with shift held, in canvas coordinates
+  const [selectionBox, setSelectionBox] = useState<{ x1: number; y1: number; x2: number; y2: number } | null>(null)
+  // Where the dragged marker started, and whether the drag has been recorded for undo yet
+  const stageDragRef = useRef<{ startPosition: number; startY: number; isRecorded: boolean } | null>(null)
+  // Last pointer position over the canvas, in canvas coordinates, where copies are pasted
+  const pointerRef = useRef<{ x: number; y: number } | null>(null)
   
   // Pan and zoom state
-  const [zoom, setZoom] = useState(0.8)
+  const [zoom, setZoom] = useState(initialViewState?.zoom ?? DEFAULT_ZOOM)
   // Initialize pan so that 0% is to the left of the canvas
   // We'll calculate this after canvasWidth is set
   const [pan, setPan] = useState({ x: 0, y: 0 })
   const [initialPan, setInitialPan] = useState({ x: 0, y: 0 })
   const [isPanning, setIsPanning] = useState(false)
   const [panStart, setPanStart] = useState({ x: 0, y: 0 })
-  const [isZoomLocked, setIsZoomLocked] = useState(false) // Unlocked by default
+  const [isZoomLocked, setIsZoomLocked] = useState(initialViewState?.zoomLocked ?? false) // Unlocked by default
+  // Last view passed to onViewStateChange (null until the canvas is sized), so an
+  // unchanged view isn't reported again
+  const reportedViewRef = useRef<string | null>(null)
 
   // Canvas coordinate system: -10% to 101% (0% is not at left edge)
   const CANVAS_MIN_POSITION = -10
@@ -51,6 +118,7 @@ export default function FlowCanvas({
   const CANVAS_RANGE = CANVAS_MAX_POSITION - CANVAS_MIN_POSITION // 111
 
   useEffect(() => {
+    let isInitial = true
     const updateSize = () => {
       if (canvasRef.current) {
         // Get the container width (parent of canvasRef - the flow-canvas-container)
@@ -93,8 +161,24 @@ export default function FlowCanvas({
         const minusOnePercentX = ((-1 - CANVAS_MIN_POSITION) / CANVAS_RANGE) * newCanvasWidth
         // To have -1% at left edge: pan.x = -minusOnePercentX * zoom (for zoom=1)
         const initialPanValue = { x: -minusOnePercentX, y: 0 }
-        setPan(initialPanValue)
         setInitialPan(initialPanValue)
+
+        if (!isInitial) {
+          setPan(initialPanValue)
+          return
+        }
+        // Start from the saved view, if there is one
+        isInitial = false
+        const startPan = initialViewState?.pan ?? initialPanValue
+        setPan(startPan)
+        if (container && initialViewState) container.scrollLeft = initialViewState.scrollLeft
+        reportedViewRef.current = JSON.stringify({
+          zoom,
+          pan: startPan,
+          zoomLocked: isZoomLocked,
+          selectedStageId,
+          scrollLeft: container?.scrollLeft ?? 0,
+        })
       }
     }
     updateSize()
@@ -102,6 +186,24 @@ export default function FlowCanvas({
     return () => window.removeEventListener('resize', updateSize)
   }, [])
 
+  const reportViewState = () => {
+    if (!onViewStateChange || reportedViewRef.current === null) return
+    const viewState: ViewState = {
+      zoom,
+      pan,
+      zoomLocked: isZoomLocked,
+      selectedStageId,
+      scrollLeft: canvasRef.current?.parentElement?.scrollLeft ?? 0,
+    }
+    const serialized = JSON.stringify(viewState)
+    if (serialized === reportedViewRef.current) return
+    reportedViewRef.current = serialized
+    onViewStateChange(viewState)
+  }
+
+  // Let the parent keep the view, e.g. to restore it next time
+  useEffect(reportViewState, [zoom, pan, isZoomLocked, selectedStageId])
+
   // Handle horizontal mouse wheel scrolling
   const handleWheel = (e: React.WheelEvent<HTMLDivElement>) => {
     // Check if horizontal scrolling (shift+wheel or trackpad horizontal scroll)
@@ -114,8 +216,25 @@ export default function FlowCanvas({
     }
   }
 
+  // Point on the canvas under the pointer, accounting for pan and zoom
+  const toCanvasPoint = (clientX: number, clientY: number) => {
+    const svgRect = svgRef.current?.getBoundingClientRect()
+    return {
+      x: (clientX - (svgRect?.left ?? 0) - pan.x) / zoom,
+      y: (clientY - (svgRect?.top ?? 0) - pan.y) / zoom,
+    }
+  }
+
   // Handle pan start
   const handlePanStart = (e: React.MouseEvent<SVGSVGElement>) => {
+    // Dragging with shift held draws a box to select stages and flows instead
+    if (e.shiftKey && e.button === 0 && !isCreatingBranch) {
+      e.preventDefault()
+      const { x, y } = toCanvasPoint(e.clientX, e.clientY)
+      setSelectionBox({ x1: x, y1: y, x2: x, y2: y })
+      return
+    }
+
     // Don't pan if clicking on markers or flows, or if creating a branch
     if (selectedStageId || selectedFlowId || isCreatingBranch) {
       return
@@ -154,6 +273,29 @@ export default function FlowCanvas({
     }
   }, [isPanning, panStart])
 
+  // Handle selection box drag
+  useEffect(() => {
+    if (!selectionBox) return
+
+    const handleSelectMove = (e: MouseEvent) => {
+      const { x, y } = toCanvasPoint(e.clientX, e.clientY)
+      setSelectionBox({ ...selectionBox, x2: x, y2: y })
+    }
+
+    const handleSelectEnd = () => {
+      selectInBox(selectionBox)
+      setSelectionBox(null)
+    }
+
+    document.addEventListener('mousemove', handleSelectMove)
+    document.addEventListener('mouseup', handleSelectEnd)
+
+    return () => {
+      document.removeEventListener('mousemove', handleSelectMove)
+      document.removeEventListener('mouseup', handleSelectEnd)
+    }
+  }, [selectionBox])
+
   const getStageX = (position: number) => {
     // Map position from [-10, 101] range to [0, canvasWidth]
     const normalizedPosition = (position - CANVAS_MIN_POSITION) / CANVAS_RANGE
@@ -336,6 +478,15 @@ export default function FlowCanvas({
 
   const handleFlowClick = (flowId: string, e: React.MouseEvent) => {
     e.stopPropagation() // Prevent canvas click
+
+    // Shift-click adds the flow to the group selection, or takes it out
+    if (e.shiftKey) {
+      setGroupFlowIds(prev => (prev.includes(flowId) ? prev.filter(id => id !== flowId) : [...prev, flowId]))
+      setSelectedFlowId(null)
+      setEditingFlow(null)
+      return
+    }
+    clearGroupSelection()
     
     // Don't handle flow click if modal is already open for this flow
     if (selectedFlowId === flowId && editingFlow?.id === flowId) {
@@ -396,6 +547,8 @@ export default function FlowCanvas({
 
   const handleFlowUpdate = () => {
     if (!editingFlow) return
+    // The fields show what is wrong
+    if (validateAttributeValues(attributeDefinitions, editingFlow.attributes).length > 0) return
     
     // Get the source stage of the updated flow
     const sourceStageId = editingFlow.fromStageId
@@ -407,8 +560,8 @@ export default function FlowCanvas({
     // Clamp to valid range
     const clampedFlowValue = Math.max(0, Math.min(actualFlowValue, incomingValue))
     
-    // Update the flow with the converted actual value
-    const flowWithActualValue = { ...editingFlow, value: clampedFlowValue }
+    // Update the flow with the converted actual value, leaving out emptied attributes
+    const [flowWithActualValue] = cleanItemAttributes([{ ...editingFlow, value: clampedFlowValue }], attributeDefinitions)
     let updatedFlows = flows.map(f => f.id === editingFlow.id ? flowWithActualValue : f)
     
     // Get all outgoing flows from the same source
@@ -501,7 +654,19 @@ export default function FlowCanvas({
     setSelectedFlowId(null)
   }
 
-  const handleStageClick = (stage: Stage) => {
+  const handleStageClick = (stage: Stage, e?: React.MouseEvent) => {
+    // Shift-click adds the stage to the group selection, or takes it out
+    if (e?.shiftKey) {
+      setGroupStageIds(prev => (prev.includes(stage.id) ? prev.filter(id => id !== stage.id) : [...prev, stage.id]))
+      setSelectedFlowId(null)
+      setEditingFlow(null)
+      setEditingStage(null)
+      setSelectedStageId(null)
+      setIsCreatingBranch(false)
+      return
+    }
+    clearGroupSelection()
+
     // Clear flow selection when clicking stage
     setSelectedFlowId(null)
     setEditingFlow(null)
@@ -538,8 +703,10 @@ export default function FlowCanvas({
   
   const handleStageModalUpdate = () => {
     if (!editingStage) return
+    if (validateAttributeValues(attributeDefinitions, editingStage.attributes).length > 0) return
     
-    onStagesChange(stages.map(s => s.id === editingStage.id ? editingStage : s))
+    const [updatedStage] = cleanItemAttributes([editingStage], attributeDefinitions)
+    onStagesChange(stages.map(s => s.id === editingStage.id ? updatedStage : s))
     setEditingStage(null)
   }
   
@@ -567,6 +734,12 @@ export default function FlowCanvas({
     if (selection && selection.toString().length > 0) {
       return
     }
+
+    // A shift-click ends a selection box drag, or just missed a stage - keep the group
+    if (e.shiftKey) {
+      return
+    }
+    clearGroupSelection()
     
     // Clear flow selection when clicking canvas (but not inside modal or during text selection)
     if (selectedFlowId) {
@@ -749,16 +922,289 @@ export default function FlowCanvas({
 
 
   const handleStageDrag = (stageId: string, newPosition: number, newYPosition: number) => {
+    const draggedStage = stages.find(s => s.id === stageId)
+    if (!draggedStage) return
+    // Dragging one of several selected stages moves all of them
+    if (groupStageIds.length > 1 && groupStageIds.includes(stageId)) {
+      handleGroupDrag(draggedStage, newPosition, newYPosition)
+      return
+    }
     // Snap horizontal position to nearest ticker
     const snappedPosition = snapToTicker(newPosition)
-    // Use no-history setter for drag operations
+    applyStageDrag(draggedStage, stages.map(s => s.id === stageId ? { ...s, position: snappedPosition, yPosition: newYPosition } : s))
+  }
+
+  // A drag is one undo step: the first move that takes the marker more than a few pixels
+  // from where it started is recorded, the rest use the no-history setter. Smaller moves
+  // are ignored, so clicking a marker doesn't nudge it.
+  const applyStageDrag = (draggedStage: Stage, movedStages: Stage[]) => {
+    if (!stageDragRef.current) {
+      stageDragRef.current = { startPosition: draggedStage.position, startY: getStageY(draggedStage), isRecorded: false }
+      document.addEventListener('mouseup', () => { stageDragRef.current = null }, { once: true })
+    }
+    const drag = stageDragRef.current
+    if (!drag.isRecorded) {
+      const moved = movedStages.find(s => s.id === draggedStage.id)
+      if (!moved || (moved.position === drag.startPosition && Math.abs(getStageY(moved) - drag.startY) <= 5)) return
+      drag.isRecorded = true
+      onStagesChange(movedStages)
+      return
+    }
+    // Use no-history setter for the rest of the drag
     const updateFn = onStagesChangeNoHistory || onStagesChange
-    updateFn(stages.map(s => s.id === stageId ? { ...s, position: snappedPosition, yPosition: newYPosition } : s))
+    updateFn(movedStages)
   }
 
   const getStageY = (stage: Stage) => {
     return stage.yPosition ?? canvasHeight / 2
   }
+
+  const clearGroupSelection = () => {
+    setGroupStageIds([])
+    setGroupFlowIds([])
+  }
+
+  // Add the stages and flows inside a selection box to the group selection. Stages are
+  // picked when the box covers their column and part of their height, flows when both
+  // of their ends are inside.
+  const selectInBox = (box: { x1: number; y1: number; x2: number; y2: number }) => {
+    const left = Math.min(box.x1, box.x2)
+    const right = Math.max(box.x1, box.x2)
+    const top = Math.min(box.y1, box.y2)
+    const bottom = Math.max(box.y1, box.y2)
+    const contains = (x: number, y: number) => x >= left && x <= right && y >= top && y <= bottom
+
+    const boxedStageIds = stages
+      .filter(stage => {
+        const x = getStageX(stage.position)
+        const halfHeight = getNodeHeight(stage.id) / 2
+        return x >= left && x <= right && getStageY(stage) + halfHeight >= top && getStageY(stage) - halfHeight <= bottom
+      })
+      .map(stage => stage.id)
+    const boxedFlowIds = flows
+      .filter(flow => {
+        const fromStage = stages.find(s => s.id === flow.fromStageId)
+        const toStage = stages.find(s => s.id === flow.toStageId)
+        if (!fromStage || !toStage) return false
+        return (
+          contains(getStageX(fromStage.position) + 5, getSourceBandY(flow, fromStage)) &&
+          contains(getStageX(toStage.position) - 5, getTargetBandY(flow, toStage))
+        )
+      })
+      .map(flow => flow.id)
+
+    setGroupStageIds(prev => [...prev, ...boxedStageIds.filter(id => !prev.includes(id))])
+    setGroupFlowIds(prev => [...prev, ...boxedFlowIds.filter(id => !prev.includes(id))])
+  }
+
+  // Stages and flows changed by one group operation, recorded as one undo step
+  const applyDiagramChange = (updatedStages: Stage[], updatedFlows: Flow[]) => {
+    if (onDiagramChange) {
+      onDiagramChange(updatedStages, updatedFlows)
+      return
+    }
+    const updateFn = onStagesChangeNoHistory || onStagesChange
+    onFlowsChange(updatedFlows)
+    updateFn(updatedStages)
+  }
+
+  // Move the selected stages along with the dragged one
+  const handleGroupDrag = (draggedStage: Stage, newPosition: number, newYPosition: number) => {
+    const movedStages = moveStages(
+      stages,
+      groupStageIds,
+      snapToTicker(newPosition) - draggedStage.position,
+      newYPosition - getStageY(draggedStage),
+      getStageY,
+      snapToTicker
+    )
+    applyStageDrag(draggedStage, movedStages)
+  }
+
+  // Delete stages and flows, and rebalance the flows around them as deleting them one by
+  // one would. Root stages are kept, as they are when deleted on their own.
+  const deleteStagesAndFlows = (stageIds: string[], flowIds: string[]) => {
+    const deletedStageIds = stageIds.filter(id => flows.some(f => f.toStageId === id))
+    const isRemoved = (flow: Flow) =>
+      flowIds.includes(flow.id) || deletedStageIds.includes(flow.fromStageId) || deletedStageIds.includes(flow.toStageId)
+    const removedFlows = flows.filter(isRemoved)
+    if (deletedStageIds.length === 0 && removedFlows.length === 0) return
+
+    let updatedFlows = flows.filter(flow => !isRemoved(flow))
+    const affectedStageIds = new Set(
+      removedFlows.flatMap(flow => [flow.fromStageId, flow.toStageId]).filter(id => !deletedStageIds.includes(id))
+    )
+    affectedStageIds.forEach(stageId => {
+      updatedFlows = recalculateSiblingFlowValues(stageId, updatedFlows)
+    })
+
+    applyDiagramChange(stages.filter(s => !deletedStageIds.includes(s.id)), updatedFlows)
+    clearGroupSelection()
+    if (selectedStageId && deletedStageIds.includes(selectedStageId)) {
+      setSelectedStageId(null)
+      setIsCreatingBranch(false)
+    }
+  }
+
+  const handleGroupDelete = () => {
+    deleteStagesAndFlows(groupStageIds, groupFlowIds)
+  }
+
+  // Stages that copy and cut work on: the group selection, or else the marker selected for branching
+  const getCopiedStageIds = () => (groupStageIds.length > 0 ? groupStageIds : selectedStageId ? [selectedStageId] : [])
+
+  // Add a copy to the diagram with new ids, its leftmost stages at the pointer and its
+  // stages centered on it vertically, and select it so it can be moved right away.
+  // Without a pointer position, the copy goes a little below and right of the original.
+  const pasteSubgraph = (text: string): boolean => {
+    const file = readSubgraph(text)
+    if (!file) return false
+    const copy = instantiateSubgraph(file, attributeDefinitions)
+    const copiedIds = copy.stages.map(stage => stage.id)
+    const left = Math.min(...copy.stages.map(stage => stage.position))
+    const ys = copy.stages.map(getStageY)
+    const middle = (Math.min(...ys) + Math.max(...ys)) / 2
+    const pointer = pointerRef.current
+    const deltaPosition = pointer ? getPositionFromX(pointer.x) - left : 2
+    const deltaY = pointer ? pointer.y - middle : 40
+    const placedStages = moveStages([...stages, ...copy.stages], copiedIds, deltaPosition, deltaY, getStageY, snapToTicker)
+
+    applyDiagramChange(placedStages, [...flows, ...copy.flows])
+    setGroupStageIds(copiedIds)
+    setGroupFlowIds(copy.flows.map(flow => flow.id))
+    setSelectedStageId(null)
+    setIsCreatingBranch(false)
+    return true
+  }
+
+  // Ctrl+C, Ctrl+X and Ctrl+V copy, cut and paste stages and the flows between them through
+  // the system clipboard, so copies can be pasted into other diagrams and other tabs. Text
+  // fields and selected text keep the browser's own copy and paste.
+  const isTextTarget = (target: EventTarget | null) =>
+    target instanceof HTMLElement && target.closest('input, textarea, select, [contenteditable="true"]') !== null
+
+  const handleClipboardCopy = (e: ClipboardEvent, cut: boolean) => {
+    if (isTextTarget(e.target) || !e.clipboardData) return
+    const selection = window.getSelection()
+    if (selection && selection.toString().length > 0) return
+    const stageIds = getCopiedStageIds()
+    if (stageIds.length === 0) return
+    if (cut) {
+      // Root stages can't be deleted, so a cut one would stay and come back twice on paste
+      const rootNames = stages.filter(s => stageIds.includes(s.id) && !flows.some(f => f.toStageId === s.id)).map(s => `"${s.name}"`)
+      if (rootNames.length > 0) {
+        e.preventDefault()
+        onError?.(`Root stages can't be cut: ${rootNames.join(', ')}. Copy instead, or leave them out of the selection.`)
+        return
+      }
+    }
+    e.preventDefault()
+    e.clipboardData.setData('text/plain', copySubgraph(stages, flows, stageIds, attributeDefinitions, getStageY))
+    if (cut) {
+      const flowIds = flows.filter(f => stageIds.includes(f.fromStageId) && stageIds.includes(f.toStageId)).map(f => f.id)
+      deleteStagesAndFlows(stageIds, flowIds)
+    }
+  }
+
+  const handleClipboardPaste = (e: ClipboardEvent) => {
+    if (isTextTarget(e.target) || !e.clipboardData) return
+    if (pasteSubgraph(e.clipboardData.getData('text/plain'))) e.preventDefault()
+  }
+
+  // The document listeners are added once and call the handlers of the latest render,
+  // which see the current diagram, selection, view and change callbacks
+  const clipboardHandlersRef = useRef({ copy: handleClipboardCopy, paste: handleClipboardPaste })
+  useEffect(() => {
+    clipboardHandlersRef.current = { copy: handleClipboardCopy, paste: handleClipboardPaste }
+  })
+  useEffect(() => {
+    const handleCopyEvent = (e: ClipboardEvent) => clipboardHandlersRef.current.copy(e, false)
+    const handleCutEvent = (e: ClipboardEvent) => clipboardHandlersRef.current.copy(e, true)
+    const handlePasteEvent = (e: ClipboardEvent) => clipboardHandlersRef.current.paste(e)
+
+    document.addEventListener('copy', handleCopyEvent)
+    document.addEventListener('cut', handleCutEvent)
+    document.addEventListener('paste', handlePasteEvent)
+    return () => {
+      document.removeEventListener('copy', handleCopyEvent)
+      document.removeEventListener('cut', handleCutEvent)
+      document.removeEventListener('paste', handlePasteEvent)
+    }
+  }, [])
+
+  const handleGroupRecolor = () => {
+    applyDiagramChange(
+      stages.map(s => (groupStageIds.includes(s.id) ? { ...s, color: groupColor } : s)),
+      flows.map(f => (groupFlowIds.includes(f.id) ? { ...f, color: groupColor } : f))
+    )
+  }
+
+  const handleGroupAlign = (alignment: StageAlignment) => {
+    onStagesChange(alignStages(stages, groupStageIds, alignment, { stageY: getStageY, stageHeight: getNodeHeight }))
+  }
+
+  // Forget picked stages and flows that are gone, e.g. after an undo
+  useEffect(() => {
+    setGroupStageIds(prev => (prev.every(id => stages.some(s => s.id === id)) ? prev : prev.filter(id => stages.some(s => s.id === id))))
+    setGroupFlowIds(prev => (prev.every(id => flows.some(f => f.id === id)) ? prev : prev.filter(id => flows.some(f => f.id === id))))
+  }, [stages, flows])
+
+  // Escape drops the group selection and Delete removes it, unless the user is typing
+  const handleGroupKeyDown = (e: KeyboardEvent) => {
+    if (isTextTarget(e.target)) return
+    if (e.key === 'Escape') {
+      clearGroupSelection()
+    } else if (e.key === 'Delete' || e.key === 'Backspace') {
+      e.preventDefault()
+      handleGroupDelete()
+    }
+  }
+
+  // Listens only while something is picked, calling the handler of the latest render
+  const groupKeyDownRef = useRef(handleGroupKeyDown)
+  useEffect(() => {
+    groupKeyDownRef.current = handleGroupKeyDown
+  })
+  const hasGroupSelection = groupStageIds.length > 0 || groupFlowIds.length > 0
+  useEffect(() => {
+    if (!hasGroupSelection) return
+
+    const handleKeyDown = (e: KeyboardEvent) => groupKeyDownRef.current(e)
+    document.addEventListener('keydown', handleKeyDown)
+    return () => document.removeEventListener('keydown', handleKeyDown)
+  }, [hasGroupSelection])
+
+  // Place sections along the top of the canvas, in lanes so overlapping spans don't cover each other
+  const getSectionLayouts = () => {
+    const laneEnds: number[] = []
+    return sections
+      .map(section => {
+        const from = stages.find(s => s.id === section.fromStageId)
+        const to = stages.find(s => s.id === section.toStageId)
+        if (!from || !to) return null
+        const x1 = getStageX(Math.min(from.position, to.position))
+        const x2 = getStageX(Math.max(from.position, to.position))
+        return { section, x1, x2 }
+      })
+      .filter((layout): layout is { section: Section; x1: number; x2: number } => layout !== null)
+      .sort((a, b) => a.x1 - b.x1)
+      .map(layout => {
+        let lane = laneEnds.findIndex(end => end < layout.x1)
+        if (lane === -1) {
+          lane = laneEnds.length
+          laneEnds.push(layout.x2)
+        } else {
+          laneEnds[lane] = layout.x2
+        }
+        return { ...layout, y: 12 + lane * (SECTION_HEADER_HEIGHT + 6) }
+      })
+  }
+
+  const toggleSection = (sectionId: string) => {
+    setExpandedSectionIds(prev =>
+      prev.includes(sectionId) ? prev.filter(id => id !== sectionId) : [...prev, sectionId]
+    )
+  }
   
 
   // Calculate node height based on total flow value (proportional to root marker)
@@ -807,6 +1253,54 @@ export default function FlowCanvas({
     return totalHeight
   }
 
+  const getBandWidth = (flow: Flow) => Math.max(20, flow.value * HEIGHT_SCALE) // 4x minimum and scale
+
+  // Band order at every stage, see services/bandOrder.ts
+  const bandOrder = orderBands(stages, flows, getStageY)
+
+  // Distance from the top of a node to the center of each band, with the node's bands in attach order
+  const getBandCenterOffsets = (orderedByStage: Map<string, Flow[]>): Map<string, number> => {
+    const offsets = new Map<string, number>()
+    for (const orderedFlows of orderedByStage.values()) {
+      let offset = 0
+      for (const flow of orderedFlows) {
+        offsets.set(flow.id, offset + getBandWidth(flow) / 2)
+        offset += getBandWidth(flow) + FLOW_SPACING
+      }
+    }
+    return offsets
+  }
+  const sourceBandOffsets = getBandCenterOffsets(bandOrder.outgoing)
+  const targetBandOffsets = getBandCenterOffsets(bandOrder.incoming)
+
+  // Where a band leaves its source node and enters its target node
+  const getSourceBandY = (flow: Flow, fromStage: Stage): number => {
+    const nodeTop = getStageY(fromStage) - getNodeHeight(fromStage.id) / 2
+    return nodeTop + (sourceBandOffsets.get(flow.id) ?? 0)
+  }
+
+  const getTargetBandY = (flow: Flow, toStage: Stage): number => {
+    const nodeTop = getStageY(toStage) - getNodeHeight(toStage.id) / 2
+    return nodeTop + (targetBandOffsets.get(flow.id) ?? 0)
+  }
+
+  // Bands dragged into a new order on a marker keep it from then on. Both changes
+  // are one undoable step: the flows change is recorded together with the old stages.
+  const handleReorderOutgoing = (stageId: string, flowIds: string[]) => {
+    onFlowsChange(reorderFlows(flows, flowIds))
+    onStagesChangeNoHistory?.(stages.map(s => (s.id === stageId ? { ...s, manualBandOrder: true } : s)))
+  }
+
+  const handleReorderIncoming = (stageId: string, flowIds: string[]) => {
+    onFlowsChange(reorderIncomingFlows(flows, flowIds))
+    onStagesChangeNoHistory?.(stages.map(s => (s.id === stageId ? { ...s, manualIncomingBandOrder: true } : s)))
+  }
+
+  // Arrange all stages that aren't pinned by depth, as one undoable step
+  const handleAutoLayout = () => {
+    onStagesChange(autoLayout(stages, flows, { stageHeight: getNodeHeight, centerY: canvasHeight / 2 }))
+  }
+
   // Calculate minimum X position for a stage based on parent nodes
   const getMinXForStage = (_stageId: string): number => {
     // No constraints - markers can be positioned anywhere
@@ -886,7 +1380,7 @@ export default function FlowCanvas({
           </span>
           <button
             onClick={() => {
-              setZoom(0.8)
+              setZoom(DEFAULT_ZOOM)
               // Reset to initial pan position
               setPan(initialPan)
             }}
@@ -941,8 +1435,68 @@ export default function FlowCanvas({
             }}
           />
           </div>
+          <button
+            onClick={handleAutoLayout}
+            disabled={stages.length === 0}
+            style={{
+              background: 'white',
+              border: '1px solid #e2e8f0',
+              borderRadius: '9999px',
+              padding: '0.375rem 0.75rem',
+              boxShadow: '0 2px 8px rgba(0, 0, 0, 0.1)',
+              display: 'flex',
+              alignItems: 'center',
+              gap: '0.5rem',
+              fontSize: '14px',
+              fontWeight: '500',
+              color: '#4a5568',
+              cursor: 'pointer',
+              transition: 'all 0.2s',
+            }}
+            onMouseEnter={(e) => {
+              e.currentTarget.style.background = '#f7fafc'
+            }}
+            onMouseLeave={(e) => {
+              e.currentTarget.style.background = 'white'
+            }}
+            title="Arrange stages in columns by depth so flows cross as little as possible. Pinned stages stay where they are."
+          >
+            <LayoutGrid size={18} color="#4a5568" />
+            Auto layout
+          </button>
         </div>
-      <div className="flow-canvas-container" onWheel={handleWheel}>
+      {(groupStageIds.length > 0 || groupFlowIds.length > 0) && (
+        <div className="group-toolbar">
+          <span className="group-toolbar-count">
+            {groupStageIds.length} stage{groupStageIds.length === 1 ? '' : 's'}, {groupFlowIds.length} flow{groupFlowIds.length === 1 ? '' : 's'}
+          </span>
+          <button onClick={() => handleGroupAlign('top')} disabled={groupStageIds.length < 2} title="Align top edges">
+            <AlignStartHorizontal size={16} />
+          </button>
+          <button onClick={() => handleGroupAlign('middle')} disabled={groupStageIds.length < 2} title="Align centers">
+            <AlignCenterHorizontal size={16} />
+          </button>
+          <button onClick={() => handleGroupAlign('bottom')} disabled={groupStageIds.length < 2} title="Align bottom edges">
+            <AlignEndHorizontal size={16} />
+          </button>
+          <button onClick={() => handleGroupAlign('column')} disabled={groupStageIds.length < 2} title="Move into the leftmost stage's column">
+            <AlignCenterVertical size={16} />
+          </button>
+          <span className="group-toolbar-separator" />
+          <input type="color" value={groupColor} onChange={(e) => setGroupColor(e.target.value)} title="Color for the selection" />
+          <button onClick={handleGroupRecolor} title="Recolor the selected stages and flows">
+            <Paintbrush size={16} />
+          </button>
+          <span className="group-toolbar-separator" />
+          <button onClick={handleGroupDelete} className="group-toolbar-delete" title="Delete the selection (Delete). Root stages are kept.">
+            <Trash2 size={16} />
+          </button>
+          <button onClick={clearGroupSelection} title="Clear the selection (Escape)">
+            <X size={16} />
+          </button>
+        </div>
+      )}
+      <div className="flow-canvas-container" onWheel={handleWheel} onScroll={reportViewState}>
         {isCreatingBranch && (
           <div className="branch-creation-hint">
             Click on the canvas to create a new marker, or click an existing marker to connect
@@ -952,6 +1506,7 @@ export default function FlowCanvas({
         <svg
           ref={svgRef}
           onMouseDown={handlePanStart}
+          onMouseMove={(e) => { pointerRef.current = toCanvasPoint(e.clientX, e.clientY) }}
           style={{ cursor: isPanning ? 'grabbing' : (isCreatingBranch ? 'crosshair' : 'grab') }}
           width={canvasWidth}
           height={canvasHeight}
@@ -1185,6 +1740,29 @@ export default function FlowCanvas({
             )
           })()}
           
+          {/* Outline stages picked for a group operation */}
+          {stages
+            .filter(stage => groupStageIds.includes(stage.id))
+            .map(stage => {
+              const nodeHeight = getNodeHeight(stage.id)
+              return (
+                <rect
+                  key={`group-${stage.id}`}
+                  x={getStageX(stage.position) - 20}
+                  y={getStageY(stage) - nodeHeight / 2 - 5}
+                  width={40}
+                  height={nodeHeight + 10}
+                  fill={GROUP_SELECTION_COLOR}
+                  fillOpacity={0.15}
+                  stroke={GROUP_SELECTION_COLOR}
+                  strokeWidth={2}
+                  rx={4}
+                  pointerEvents="none"
+                  className="group-selection-highlight"
+                />
+              )
+            })}
+
           {/* Render flows */}
           {flows.map(flow => {
             const fromStage = stages.find(s => s.id === flow.fromStageId)
@@ -1200,55 +1778,13 @@ export default function FlowCanvas({
 
             const fromX = getStageX(fromStage.position)
             const toX = getStageX(toStage.position)
-            const fromY = getStageY(fromStage)
-            const toY = getStageY(toStage)
-            
-            // Get node heights for proper alignment
-            const fromNodeHeight = getNodeHeight(fromStage.id)
-            const toNodeHeight = getNodeHeight(toStage.id)
             
-            // Calculate node top edges (node center - half height)
-            const fromNodeTop = fromY - fromNodeHeight / 2
-            const toNodeTop = toY - toNodeHeight / 2
-
             // Calculate flow width based on value (Sankey diagram)
-            const flowWidth = Math.max(20, flow.value * HEIGHT_SCALE) // 4x minimum and scale
+            const flowWidth = getBandWidth(flow)
 
-            // Calculate vertical position for flows from same source
-            // Flows should stack from top to bottom within the source node
-            const flowsFromSameSource = flows
-              .filter(f => f.fromStageId === flow.fromStageId)
-              .sort((a, b) => (a.branchIndex || 0) - (b.branchIndex || 0))
-            
-            // Calculate cumulative offset from top of node
-            let sourceOffset = 0
-            const currentIndex = flowsFromSameSource.findIndex(f => f.id === flow.id)
-            for (let i = 0; i < currentIndex; i++) {
-              sourceOffset += (flowsFromSameSource[i].value * HEIGHT_SCALE) + FLOW_SPACING // Flow width + spacing
-            }
-            
-            // Position flow center relative to node top
-            const sourceFlowCenter = fromNodeTop + sourceOffset + flowWidth / 2
-
-            // Calculate vertical position for flows to same target
-            // Sort by vertical position of source markers to avoid criss-crossing
-            const flowsToSameTarget = flows
-              .filter(f => f.toStageId === flow.toStageId)
-              .map(f => {
-                const fromStage = stages.find(s => s.id === f.fromStageId)
-                return { flow: f, fromY: fromStage ? getStageY(fromStage) : 0 }
-              })
-              .sort((a, b) => a.fromY - b.fromY) // Sort by source marker vertical position
-              .map(item => item.flow)
-            
-            let targetOffset = 0
-            const targetIndex = flowsToSameTarget.findIndex(f => f.id === flow.id)
-            for (let i = 0; i < targetIndex; i++) {
-              targetOffset += (flowsToSameTarget[i].value * HEIGHT_SCALE) + FLOW_SPACING
-            }
-            
-            // Position flow center relative to node top
-            const targetFlowCenter = toNodeTop + targetOffset + flowWidth / 2
+            // Bands stack from top to bottom within each node, ordered by the other end's height
+            const sourceFlowCenter = getSourceBandY(flow, fromStage)
+            const targetFlowCenter = getTargetBandY(flow, toStage)
 
             // Connect to right side of fromStage and left side of toStage
             const exitPointX = fromX + 5 // Right edge of rectangular node (marker is 10px wide, so +5 from center)
@@ -1266,8 +1802,13 @@ export default function FlowCanvas({
                   width={flowWidth}
                   color={flowColor}
                   label={flow.name}
-                  value={flow.value}
+                  valueLabel={formatFlowLabel(flow, flows, settings)}
+                  tooltip={[
+                    ...describeFlowValue(flow, flows, settings, stages.find(s => s.id === flow.fromStageId)?.name ?? ''),
+                    ...describeAttributes(attributeDefinitions, flow.attributes),
+                  ].join('\n')}
                   onClick={(e: React.MouseEvent) => handleFlowClick(flow.id, e)}
+                  isSelected={groupFlowIds.includes(flow.id)}
                   style={{ pointerEvents: selectedFlowId === flow.id && editingFlow?.id === flow.id ? 'none' : 'auto' }}
                 />
               </g>
@@ -1283,35 +1824,17 @@ export default function FlowCanvas({
             // Get incoming flows (parent connections) for this stage
             const incomingFlows = flows.filter(f => f.toStageId === stage.id)
             
-            // Calculate vertical positions for each incoming flow entry point
-            const incomingFlowPositions = incomingFlows.map(flow => {
-              // Sort flows to same target by vertical position of source markers to avoid criss-crossing
-              const flowsToSameTarget = flows
-                .filter(f => f.toStageId === stage.id)
-                .map(f => {
-                  const fromStage = stages.find(s => s.id === f.fromStageId)
-                  return { flow: f, fromY: fromStage ? getStageY(fromStage) : 0 }
-                })
-                .sort((a, b) => a.fromY - b.fromY) // Sort by source marker vertical position
-                .map(item => item.flow)
-              
-              // Calculate cumulative offset from top of node (same as flow rendering)
-              let targetOffset = 0
-              const targetIndex = flowsToSameTarget.findIndex(f => f.id === flow.id)
-              const flowWidth = Math.max(20, flow.value * HEIGHT_SCALE) // 4x minimum and scale
-              
-              for (let i = 0; i < targetIndex; i++) {
-                targetOffset += (flowsToSameTarget[i].value * HEIGHT_SCALE) + FLOW_SPACING // Flow width + spacing (same as flow rendering)
-              }
-              
-              // Calculate node top edge (same as flow rendering)
-              const toNodeTop = stageY - nodeHeight / 2
-              
-              // Position flow center relative to node top (same as targetFlowCenter in flow rendering)
-              const flowY = toNodeTop + targetOffset + flowWidth / 2
-              
-              return { flowId: flow.id, y: flowY }
-            })
+            // Vertical positions of the band ends, the same as where the flows are drawn
+            const incomingFlowPositions = (bandOrder.incoming.get(stage.id) ?? []).map(flow => ({
+              flowId: flow.id,
+              y: getTargetBandY(flow, stage),
+              width: getBandWidth(flow),
+            }))
+            const outgoingFlowPositions = (bandOrder.outgoing.get(stage.id) ?? []).map(flow => ({
+              flowId: flow.id,
+              y: getSourceBandY(flow, stage),
+              width: getBandWidth(flow),
+            }))
             
             const handleDisconnectParent = (flowId: string) => {
               // Remove the flow and recalculate sibling values if needed
@@ -1363,10 +1886,14 @@ export default function FlowCanvas({
                   isSelected={selectedStageId === stage.id}
                   incomingFlows={incomingFlows}
                   incomingFlowPositions={incomingFlowPositions}
+                  outgoingFlowPositions={outgoingFlowPositions}
+                  onReorderIncoming={(flowIds) => handleReorderIncoming(stage.id, flowIds)}
+                  onReorderOutgoing={(flowIds) => handleReorderOutgoing(stage.id, flowIds)}
                   minX={minX}
                   canvasWidth={canvasWidth}
                   canvasHeight={canvasHeight}
                   hideLabel={selectedStageId !== stage.id}
+                  tooltip={describeAttributes(attributeDefinitions, stage.attributes).join('\n')}
                 />
               </g>
             )
@@ -1391,7 +1918,7 @@ export default function FlowCanvas({
                     transform={`translate(${getStageX(stage.position)}, 0)`}
                     onClick={(e) => {
                       e.stopPropagation()
-                      handleStageClick(stage)
+                      handleStageClick(stage, e)
                     }}
                   >
                     {/* Label background */}
@@ -1422,11 +1949,46 @@ export default function FlowCanvas({
                     >
                       {stage.name}
                     </text>
+                    {/* Pinned stages are left alone by Auto layout */}
+                    {stage.pinned && (
+                      <Pin x={-labelWidth / 2 - 18} y={bottomY + 13} size={14} color="#64748b" />
+                    )}
                   </g>
                 )
               })}
           </g>
+
+          {/* Render sections after markers so expanded notes appear on top */}
+          {getSectionLayouts().map(({ section, x1, x2, y }) => (
+            <SectionAccordion
+              key={section.id}
+              section={section}
+              x={x1}
+              width={Math.max(x2 - x1, 1)}
+              y={y}
+              isExpanded={expandedSectionIds.includes(section.id)}
+              onToggle={() => toggleSection(section.id)}
+              onEdit={() => onEditSection?.(section)}
+            />
+          ))}
           
+          {/* Box being dragged to select stages and flows */}
+          {selectionBox && (
+            <rect
+              x={Math.min(selectionBox.x1, selectionBox.x2)}
+              y={Math.min(selectionBox.y1, selectionBox.y2)}
+              width={Math.abs(selectionBox.x2 - selectionBox.x1)}
+              height={Math.abs(selectionBox.y2 - selectionBox.y1)}
+              fill={GROUP_SELECTION_COLOR}
+              fillOpacity={0.08}
+              stroke={GROUP_SELECTION_COLOR}
+              strokeWidth={1 / zoom}
+              strokeDasharray={`${4 / zoom},${4 / zoom}`}
+              pointerEvents="none"
+              className="selection-box"
+            />
+          )}
+
           {/* Render flow edit form after markers so it appears on top */}
           {flows.map(flow => {
             if (selectedFlowId !== flow.id || !editingFlow) return null
@@ -1437,36 +1999,8 @@ export default function FlowCanvas({
 
             const fromX = getStageX(fromStage.position)
             const toX = getStageX(toStage.position)
-            const fromY = getStageY(fromStage)
-            const toY = getStageY(toStage)
-            
-            const fromNodeHeight = getNodeHeight(fromStage.id)
-            const toNodeHeight = getNodeHeight(toStage.id)
-            const fromNodeTop = fromY - fromNodeHeight / 2
-            const toNodeTop = toY - toNodeHeight / 2
-            const flowWidth = Math.max(20, flow.value * HEIGHT_SCALE)
-            
-            const flowsFromSameSource = flows
-              .filter(f => f.fromStageId === flow.fromStageId)
-              .sort((a, b) => (a.branchIndex || 0) - (b.branchIndex || 0))
-            
-            let sourceOffset = 0
-            const currentIndex = flowsFromSameSource.findIndex(f => f.id === flow.id)
-            for (let i = 0; i < currentIndex; i++) {
-              sourceOffset += (flowsFromSameSource[i].value * HEIGHT_SCALE) + FLOW_SPACING
-            }
-            const sourceFlowCenter = fromNodeTop + sourceOffset + flowWidth / 2
-
-            const flowsToSameTarget = flows
-              .filter(f => f.toStageId === flow.toStageId)
-              .sort((a, b) => (a.branchIndex || 0) - (b.branchIndex || 0))
-            
-            let targetOffset = 0
-            const targetIndex = flowsToSameTarget.findIndex(f => f.id === flow.id)
-            for (let i = 0; i < targetIndex; i++) {
-              targetOffset += (flowsToSameTarget[i].value * HEIGHT_SCALE) + FLOW_SPACING
-            }
-            const targetFlowCenter = toNodeTop + targetOffset + flowWidth / 2
+            const sourceFlowCenter = getSourceBandY(flow, fromStage)
+            const targetFlowCenter = getTargetBandY(flow, toStage)
 
             const exitPointX = fromX + 5 // Right edge of rectangular node (marker is 10px wide, so +5 from center)
             const entryPointX = toX - 5 // Left edge of rectangular node (marker is 10px wide, so -5 from center)
@@ -1479,7 +2013,7 @@ export default function FlowCanvas({
                 x={midX - 160}
                 y={midY - 90}
                 width="320"
-                height="200"
+                height={200 + ((settings.rootTotal !== undefined ? 1 : 0) + attributeDefinitions.length) * ATTRIBUTE_FIELD_HEIGHT}
                 style={{ pointerEvents: 'all', overflow: 'visible' }}
                 onClick={(e) => e.stopPropagation()}
                 onMouseDown={(e) => e.stopPropagation()}
@@ -1639,6 +2173,85 @@ export default function FlowCanvas({
                       placeholder="0-100"
                     />
                   </div>
+                  {settings.rootTotal !== undefined && (() => {
+                    // Importance is a percentage of the source stage's inflow, itself a percentage of the root total
+                    const rootTotal = settings.rootTotal
+                    const sourceAmount = (getIncomingFlowValue(editingFlow.fromStageId, flows) / 100) * rootTotal
+                    const amount = Math.round((editingFlow.value / 100) * sourceAmount * 100) / 100
+                    return (
+                      <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                        <label
+                          style={{
+                            fontSize: '14px',
+                            color: '#64748b',
+                            fontWeight: '500',
+                            minWidth: '80px',
+                            flexShrink: '0',
+                          }}
+                        >
+                          Amount:
+                        </label>
+                        <input
+                          type="number"
+                          value={amount}
+                          onChange={(e) =>
+                            setEditingFlow({
+                              ...editingFlow,
+                              value: sourceAmount > 0 ? (Number(e.target.value) / sourceAmount) * 100 : 0,
+                            })
+                          }
+                          onKeyDown={(e) => {
+                            if (e.key === 'Enter') {
+                              e.preventDefault()
+                              e.stopPropagation()
+                              handleFlowUpdate()
+                            } else if (e.key === 'Escape') {
+                              e.preventDefault()
+                              e.stopPropagation()
+                              setEditingFlow(null)
+                              setSelectedFlowId(null)
+                            }
+                          }}
+                          onClick={(e) => e.stopPropagation()}
+                          onMouseDown={(e) => e.stopPropagation()}
+                          onFocus={(e) => {
+                            e.stopPropagation()
+                            e.target.style.borderColor = '#667eea'
+                          }}
+                          onBlur={(e) => {
+                            e.target.style.borderColor = '#e2e8f0'
+                          }}
+                          style={{
+                            padding: '8px 12px',
+                            border: '1px solid #e2e8f0',
+                            borderRadius: '8px',
+                            fontSize: '14px',
+                            flex: '1',
+                            minWidth: '0',
+                            outline: 'none',
+                            transition: 'border-color 0.2s',
+                          }}
+                          min="0"
+                          max={sourceAmount}
+                          step="any"
+                          title={`At most ${sourceAmount.toLocaleString()}, what flows into the source stage`}
+                        />
+                        {settings.unit && (
+                          <span style={{ fontSize: '13px', color: '#64748b', whiteSpace: 'nowrap' }}>{settings.unit}</span>
+                        )}
+                      </div>
+                    )
+                  })()}
+                  <AttributeFields
+                    definitions={attributeDefinitions}
+                    values={editingFlow.attributes}
+                    onChange={(attributes) => setEditingFlow({ ...editingFlow, attributes })}
+                    onSubmit={handleFlowUpdate}
+                    onCancel={() => {
+                      setEditingFlow(null)
+                      setSelectedFlowId(null)
+                    }}
+                  />
                   <div style={{ display: 'flex', gap: '6px', justifyContent: 'flex-end', alignItems: 'center' }}>
                     <button
                       onClick={(e) => {
@@ -1757,12 +2370,16 @@ export default function FlowCanvas({
             const incomingFlowsHeight = incomingFlows.length > 0 
               ? 40 + (incomingFlows.length * 32) // Header + flow items
               : 0
+            const attributesHeight = attributeDefinitions.length > 0
+              ? 10 + attributeDefinitions.length * ATTRIBUTE_FIELD_HEIGHT
+              : 0
+            const bandOrderHeight = ((stage.manualBandOrder ? 1 : 0) + (stage.manualIncomingBandOrder ? 1 : 0)) * 30
             
             // Modal dimensions
             const modalWidth = 320
             const modalHeight = isRootMarker 
-              ? 220 + incomingFlowsHeight
-              : 240 + incomingFlowsHeight
+              ? 250 + incomingFlowsHeight + attributesHeight + bandOrderHeight
+              : 270 + incomingFlowsHeight + attributesHeight + bandOrderHeight
             const modalPadding = 20
             
             // Calculate position ensuring modal stays within canvas bounds
@@ -1937,6 +2554,87 @@ export default function FlowCanvas({
                     placeholder="Description (optional)"
                   />
                   </div>
+                  <label
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '8px',
+                      fontSize: '14px',
+                      color: '#64748b',
+                      fontWeight: '500',
+                      cursor: 'pointer',
+                    }}
+                    title="Auto layout leaves pinned stages where they are"
+                    onClick={(e) => e.stopPropagation()}
+                    onMouseDown={(e) => e.stopPropagation()}
+                  >
+                    <input
+                      type="checkbox"
+                      checked={Boolean(editingStage.pinned)}
+                      onChange={(e) =>
+                        setEditingStage({ ...editingStage, pinned: e.target.checked || undefined })
+                      }
+                    />
+                    <Pin size={14} />
+                    Pinned
+                  </label>
+                  {stage.manualBandOrder && (
+                    <label
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '8px',
+                        fontSize: '14px',
+                        color: '#64748b',
+                        fontWeight: '500',
+                        cursor: 'pointer',
+                      }}
+                      title="Untick to order the outgoing bands by the height of the stages they go to"
+                      onClick={(e) => e.stopPropagation()}
+                      onMouseDown={(e) => e.stopPropagation()}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={Boolean(editingStage.manualBandOrder)}
+                        onChange={(e) =>
+                          setEditingStage({ ...editingStage, manualBandOrder: e.target.checked || undefined })
+                        }
+                      />
+                      Keep dragged order of outgoing bands
+                    </label>
+                  )}
+                  {stage.manualIncomingBandOrder && (
+                    <label
+                      style={{
+                        display: 'flex',
+                        alignItems: 'center',
+                        gap: '8px',
+                        fontSize: '14px',
+                        color: '#64748b',
+                        fontWeight: '500',
+                        cursor: 'pointer',
+                      }}
+                      title="Untick to order the incoming bands by the height of the stages they come from"
+                      onClick={(e) => e.stopPropagation()}
+                      onMouseDown={(e) => e.stopPropagation()}
+                    >
+                      <input
+                        type="checkbox"
+                        checked={Boolean(editingStage.manualIncomingBandOrder)}
+                        onChange={(e) =>
+                          setEditingStage({ ...editingStage, manualIncomingBandOrder: e.target.checked || undefined })
+                        }
+                      />
+                      Keep dragged order of incoming bands
+                    </label>
+                  )}
+                  <AttributeFields
+                    definitions={attributeDefinitions}
+                    values={editingStage.attributes}
+                    onChange={(attributes) => setEditingStage({ ...editingStage, attributes })}
+                    onSubmit={handleStageModalUpdate}
+                    onCancel={() => setEditingStage(null)}
+                  />
                   
                   {/* Incoming flows section */}
                   {incomingFlows.length > 0 && (() => {
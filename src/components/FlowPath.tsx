@@ -9,9 +9,11 @@ interface FlowPathProps {
   width: number // Width of the flow band (proportional to value)
   color: string
   label?: string
-  value?: number
+  valueLabel?: string // Printed in the middle of the band, e.g. "12.50%"
+  tooltip?: string // Shown on hover, e.g. the flow's amount and custom attribute values
   onClick?: (e: React.MouseEvent) => void
   style?: React.CSSProperties
+  isSelected?: boolean // Picked for a group operation
 }
 
 export default function FlowPath({
@@ -22,9 +24,11 @@ export default function FlowPath({
   width,
   color,
   label,
-  value,
+  valueLabel,
+  tooltip,
   onClick,
   style,
+  isSelected = false,
 }: FlowPathProps) {
   const midX = (fromX + toX) / 2
   const midY = (fromY + toY) / 2
@@ -53,16 +57,17 @@ export default function FlowPath({
   }
 
   return (
-    <g className="flow-path" onClick={handleClick} style={{ cursor: onClick ? 'pointer' : 'default', ...style }}>
+    <g className={`flow-path ${isSelected ? 'selected' : ''}`} onClick={handleClick} style={{ cursor: onClick ? 'pointer' : 'default', ...style }}>
+      {tooltip && <title>{tooltip}</title>}
       <path
         d={bandPath}
         fill={color}
         fillOpacity={0.6}
-        stroke={color}
-        strokeWidth="1"
+        stroke={isSelected ? '#f59e0b' : color}
+        strokeWidth={isSelected ? 3 : 1}
         className="sankey-flow"
       />
-      {value !== undefined && (
+      {valueLabel && (
         <text
           x={midX}
           y={midY}
@@ -73,7 +78,7 @@ export default function FlowPath({
           fontWeight="600"
           pointerEvents="none"
         >
-          {value.toFixed(2)}%
+          {valueLabel}
         </text>
       )}
       {label && (
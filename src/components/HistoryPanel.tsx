@@ -0,0 +1,46 @@
+import { X } from 'lucide-react'
+import './HistoryPanel.css'
+
+interface HistoryItem {
+  label: string
+  isCurrent: boolean
+}
+
+interface HistoryPanelProps {
+  items: HistoryItem[]
+  onJump: (index: number) => void
+  onClose: () => void
+}
+
+// Steps of the edit history, oldest first. Clicking a step shows the diagram as it was
+// after it; steps after the current one can be redone until the next edit.
+export default function HistoryPanel({ items, onJump, onClose }: HistoryPanelProps) {
+  const currentIndex = items.findIndex(item => item.isCurrent)
+
+  return (
+    <aside className="history-panel">
+      <div className="history-panel-header">
+        <h2>Edits</h2>
+        <button className="history-panel-close" onClick={onClose} title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <ol className="history-list">
+        {items.map((item, index) => (
+          <li key={index}>
+            <button
+              className={`history-item ${item.isCurrent ? 'current' : ''} ${index > currentIndex ? 'undone' : ''}`}
+              onClick={() => onJump(index)}
+              disabled={item.isCurrent}
+              title={item.isCurrent ? 'Shown now' : index > currentIndex ? 'Redo up to here' : 'Undo back to here'}
+            >
+              {item.label}
+            </button>
+          </li>
+        ))}
+      </ol>
+      <p className="history-hint">Keeps the last 50 edits. A new edit drops the undone ones.</p>
+    </aside>
+  )
+}
@@ -0,0 +1,96 @@
+import { useState } from 'react'
+import { Stage } from '../types'
+import { IntegrityIssue, IntegrityFix } from '../services/integrity'
+import { ShieldAlert, X } from 'lucide-react'
+import './IntegrityReport.css'
+
+interface IntegrityReportProps {
+  issues: IntegrityIssue[]
+  // Candidates for re-linking orphan flows
+  stages: Stage[]
+  onFix: (issue: IntegrityIssue, fix: IntegrityFix, stageId?: string) => void
+  onFixAll: () => void
+  onClose: () => void
+}
+
+const FIX_LABELS: Record<IntegrityFix, string> = {
+  'remove': 'Remove',
+  'new-id': 'Give new id',
+  'recreate-stage': 'Recreate missing stage',
+  'relink': 'Re-link',
+  'reset-value': 'Reset to 0',
+}
+
+const issueKey = (issue: IntegrityIssue) => `${issue.type}-${issue.entity}-${issue.index}`
+
+// Lists problems found in the loaded diagram, each with one-click fixes
+export default function IntegrityReport({ issues, stages, onFix, onFixAll, onClose }: IntegrityReportProps) {
+  // Stage chosen as re-link target, per issue
+  const [relinkTargets, setRelinkTargets] = useState<Record<string, string>>({})
+
+  const uniqueStages = stages.filter((stage, index) => stages.findIndex(s => s.id === stage.id) === index)
+
+  return (
+    <div className="integrity-overlay" onClick={onClose}>
+      <div className="integrity-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="integrity-header">
+          <ShieldAlert size={20} />
+          <h3>{issues.length === 0 ? 'No problems left' : `${issues.length} problem${issues.length === 1 ? '' : 's'} in this diagram`}</h3>
+          <button className="integrity-close" onClick={onClose} title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        {issues.length === 0 ? (
+          <p className="integrity-text">All problems are fixed. Save to store the repaired diagram.</p>
+        ) : (
+          <>
+            <p className="integrity-text">
+              The stored data has problems that can break the diagram. Fixes change the canvas only - Undo reverts them
+              and nothing is stored until you save.
+            </p>
+            <ul className="integrity-list">
+              {issues.map(issue => {
+                const key = issueKey(issue)
+                const relinkTarget = relinkTargets[key] ?? uniqueStages[0]?.id
+                return (
+                  <li key={key} className="integrity-item">
+                    <span className="integrity-message">{issue.message}</span>
+                    <div className="integrity-fixes">
+                      {issue.fixes.map(fix => fix === 'relink' ? (
+                        <span key={fix} className="integrity-relink">
+                          <button onClick={() => onFix(issue, fix, relinkTarget)}>{FIX_LABELS[fix]} to</button>
+                          <select
+                            value={relinkTarget}
+                            onChange={(e) => setRelinkTargets({ ...relinkTargets, [key]: e.target.value })}
+                          >
+                            {uniqueStages.map(stage => (
+                              <option key={stage.id} value={stage.id}>{stage.name}</option>
+                            ))}
+                          </select>
+                        </span>
+                      ) : (
+                        <button key={fix} onClick={() => onFix(issue, fix)}>{FIX_LABELS[fix]}</button>
+                      ))}
+                    </div>
+                  </li>
+                )
+              })}
+            </ul>
+          </>
+        )}
+
+        <div className="integrity-buttons">
+          <button className="integrity-secondary" onClick={onClose}>
+            {issues.length === 0 ? 'Close' : 'Not now'}
+          </button>
+          {issues.length > 0 && (
+            <button className="integrity-primary" onClick={onFixAll} title="Apply the first fix of every problem">
+              Fix all
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,173 @@
+import { useState } from 'react'
+import { LocalDiagramComparison, LocalDiagramAction } from '../services/localDataMigration'
+import { describeChanges } from '../services/diagramDiff'
+import { HardDrive } from 'lucide-react'
+import './LocalDataMigrationDialog.css'
+
+interface LocalDataMigrationDialogProps {
+  comparisons: LocalDiagramComparison[]
+  storageLabel: string
+  // Resolves to false if something failed, keeping the dialog open
+  onApply: (actions: LocalDiagramAction[]) => Promise<boolean>
+  onRemoveLocalCopy: () => Promise<void>
+  onKeepLocalCopy: () => void
+  onLater: () => void
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString([], {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+})
+
+// Pre-selected action for each kind of difference
+const defaultAction = (comparison: LocalDiagramComparison): LocalDiagramAction => {
+  switch (comparison.status) {
+    case 'missing':
+      return 'promote'
+    case 'different':
+      return 'merge'
+    case 'identical':
+      return 'skip'
+  }
+}
+
+// Offers to move diagrams left in localStorage into the active storage, then asks
+// separately whether the localStorage copy can be removed
+export default function LocalDataMigrationDialog({
+  comparisons,
+  storageLabel,
+  onApply,
+  onRemoveLocalCopy,
+  onKeepLocalCopy,
+  onLater,
+}: LocalDataMigrationDialogProps) {
+  const needsDecision = comparisons.some(c => c.status !== 'identical')
+  const [step, setStep] = useState<'choose' | 'cleanup'>(needsDecision ? 'choose' : 'cleanup')
+  const [actions, setActions] = useState<LocalDiagramAction[]>(() => comparisons.map(defaultAction))
+  const [isWorking, setIsWorking] = useState(false)
+
+  const setAction = (index: number, action: LocalDiagramAction) => {
+    setActions(actions.map((a, i) => i === index ? action : a))
+  }
+
+  const handleApply = async () => {
+    setIsWorking(true)
+    try {
+      if (await onApply(actions)) {
+        setStep('cleanup')
+      }
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  const handleRemove = async () => {
+    setIsWorking(true)
+    try {
+      await onRemoveLocalCopy()
+    } finally {
+      setIsWorking(false)
+    }
+  }
+
+  return (
+    <div className="local-migration-overlay">
+      <div className="local-migration-modal">
+        <div className="local-migration-header">
+          <HardDrive size={20} />
+          <h3>Diagrams found in browser storage</h3>
+        </div>
+
+        {step === 'choose' ? (
+          <>
+            <p className="local-migration-text">
+              These diagrams were saved to the browser's local storage while {storageLabel} was unavailable.
+              Choose what to do with each one. Nothing is deleted.
+            </p>
+            <div className="local-migration-list">
+              {comparisons.map((comparison, index) => (
+                <div key={comparison.local.id} className="local-migration-item">
+                  <div className="local-migration-item-info">
+                    <span className="local-migration-name">{comparison.local.name}</span>
+                    <span className="local-migration-meta">
+                      Browser copy: {comparison.localData.stages.length} stages, {comparison.localData.flows.length} flows,
+                      saved {formatDate(comparison.local.updatedAt)}
+                    </span>
+                    {comparison.stored && comparison.storedData && (
+                      <span className="local-migration-meta">
+                        {storageLabel}: {comparison.storedData.stages.length} stages, {comparison.storedData.flows.length} flows,
+                        saved {formatDate(comparison.stored.updatedAt)}
+                      </span>
+                    )}
+                    <span className={`local-migration-status ${comparison.status}`}>
+                      {comparison.status === 'missing' && `Not in ${storageLabel}`}
+                      {comparison.status === 'identical' && 'Identical - nothing to do'}
+                      {comparison.status === 'different' && comparison.diff && (
+                        <>
+                          Browser copy differs.{' '}
+                          {[
+                            describeChanges('Stages', comparison.diff.stages),
+                            describeChanges('Flows', comparison.diff.flows),
+                            describeChanges('Sections', comparison.diff.sections),
+                            describeChanges('Attributes', comparison.diff.attributeDefinitions),
+                            comparison.diff.settingsChanged ? 'Root total or unit changed' : null,
+                          ]
+                            .filter(Boolean)
+                            .join('; ')}
+                        </>
+                      )}
+                    </span>
+                  </div>
+                  {comparison.status !== 'identical' && (
+                    <select
+                      value={actions[index]}
+                      onChange={(e) => setAction(index, e.target.value as LocalDiagramAction)}
+                      disabled={isWorking}
+                    >
+                      {comparison.status === 'missing' ? (
+                        <option value="promote">Copy to {storageLabel}</option>
+                      ) : (
+                        <>
+                          <option value="merge">Merge into stored diagram</option>
+                          <option value="promote">Replace stored diagram</option>
+                          <option value="copy">Add as new diagram</option>
+                        </>
+                      )}
+                      <option value="skip">Skip</option>
+                    </select>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="local-migration-buttons">
+              <button className="local-migration-secondary" onClick={onLater} disabled={isWorking}>
+                Ask me later
+              </button>
+              <button className="local-migration-primary" onClick={handleApply} disabled={isWorking}>
+                {isWorking ? 'Applying...' : 'Apply'}
+              </button>
+            </div>
+          </>
+        ) : (
+          <>
+            <p className="local-migration-text">
+              The browser storage copy is still there. Remove it now, or keep it - you won't be asked again
+              unless it changes.
+            </p>
+            <div className="local-migration-buttons">
+              <button className="local-migration-secondary" onClick={onKeepLocalCopy} disabled={isWorking}>
+                Keep browser copy
+              </button>
+              <button className="local-migration-danger" onClick={handleRemove} disabled={isWorking}>
+                Remove browser copy
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
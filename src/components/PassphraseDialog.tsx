@@ -0,0 +1,141 @@
+import { useState } from 'react'
+import { Lock } from 'lucide-react'
+import { WrongPassphraseError } from '../services/encryption'
+import './PassphraseDialog.css'
+
+const MIN_PASSPHRASE_LENGTH = 8
+
+interface PassphraseDialogProps {
+  // Whether a passphrase is set already
+  enabled: boolean
+  storageLabel: string
+  onEnable: (passphrase: string) => Promise<void>
+  onChange: (currentPassphrase: string, newPassphrase: string) => Promise<void>
+  onDisable: (currentPassphrase: string) => Promise<void>
+  onClose: () => void
+}
+
+// Set, change or remove the passphrase that encrypts diagrams stored in this browser
+export default function PassphraseDialog({ enabled, storageLabel, onEnable, onChange, onDisable, onClose }: PassphraseDialogProps) {
+  const [currentPassphrase, setCurrentPassphrase] = useState('')
+  const [newPassphrase, setNewPassphrase] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isWorking, setIsWorking] = useState(false)
+
+  // Problem with the new passphrase, if any
+  const validateNewPassphrase = (): string | null => {
+    if (newPassphrase.length < MIN_PASSPHRASE_LENGTH) {
+      return `The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters.`
+    }
+    if (newPassphrase !== confirmation) {
+      return 'The passphrases do not match.'
+    }
+    return null
+  }
+
+  const run = async (action: () => Promise<void>) => {
+    setIsWorking(true)
+    setError(null)
+    try {
+      await action()
+    } catch (err: any) {
+      console.error('Passphrase update failed:', err)
+      setError(err instanceof WrongPassphraseError
+        ? 'The current passphrase is not correct.'
+        : err?.message || 'Unknown error occurred')
+      setIsWorking(false)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const problem = validateNewPassphrase()
+    if (problem) {
+      setError(problem)
+      return
+    }
+    if (enabled) {
+      run(() => onChange(currentPassphrase, newPassphrase))
+    } else {
+      run(() => onEnable(newPassphrase))
+    }
+  }
+
+  const handleDisable = () => {
+    if (!currentPassphrase) {
+      setError('Enter the current passphrase to turn protection off.')
+      return
+    }
+    if (!window.confirm(`Store diagrams in ${storageLabel} without encryption?`)) return
+    run(() => onDisable(currentPassphrase))
+  }
+
+  return (
+    <div className="passphrase-overlay" onClick={onClose}>
+      <form className="passphrase-modal" onClick={(e) => e.stopPropagation()} onSubmit={handleSubmit}>
+        <div className="passphrase-header">
+          <Lock size={20} />
+          <h3>{enabled ? 'Change passphrase' : 'Protect with a passphrase'}</h3>
+        </div>
+        <p className="passphrase-text">
+          {enabled
+            ? `Diagrams in ${storageLabel} are encrypted. Changing the passphrase does not re-encrypt them, so it is quick.`
+            : `Diagrams in ${storageLabel} will be encrypted, and the passphrase is asked for each time the app starts. A forgotten passphrase cannot be recovered.`}
+        </p>
+
+        {enabled && (
+          <label className="passphrase-field">
+            <span>Current passphrase</span>
+            <input
+              type="password"
+              value={currentPassphrase}
+              onChange={(e) => setCurrentPassphrase(e.target.value)}
+              autoComplete="current-password"
+              autoFocus
+              disabled={isWorking}
+            />
+          </label>
+        )}
+        <label className="passphrase-field">
+          <span>New passphrase</span>
+          <input
+            type="password"
+            value={newPassphrase}
+            onChange={(e) => setNewPassphrase(e.target.value)}
+            autoComplete="new-password"
+            autoFocus={!enabled}
+            disabled={isWorking}
+          />
+        </label>
+        <label className="passphrase-field">
+          <span>Repeat new passphrase</span>
+          <input
+            type="password"
+            value={confirmation}
+            onChange={(e) => setConfirmation(e.target.value)}
+            autoComplete="new-password"
+            disabled={isWorking}
+          />
+        </label>
+
+        {error && <p className="passphrase-error" role="alert">{error}</p>}
+
+        <div className="passphrase-buttons">
+          {enabled && (
+            <button type="button" className="passphrase-danger" onClick={handleDisable} disabled={isWorking}>
+              Turn off
+            </button>
+          )}
+          <span className="passphrase-spacer" />
+          <button type="button" className="passphrase-secondary" onClick={onClose} disabled={isWorking}>
+            Cancel
+          </button>
+          <button type="submit" className="passphrase-primary" disabled={isWorking}>
+            {isWorking ? 'Working...' : enabled ? 'Change passphrase' : 'Encrypt diagrams'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
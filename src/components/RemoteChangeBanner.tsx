@@ -0,0 +1,39 @@
+import { MergeConflict } from '../services/diagramDiff'
+import { RefreshCw } from 'lucide-react'
+import './RemoteChangeBanner.css'
+
+interface RemoteChangeBannerProps {
+  // When the other tab saved, if known
+  changedAt: Date | null
+  // Stages and flows edited both here and in the other tab
+  conflicts: MergeConflict[]
+  onReload: () => void
+  onMerge: () => void
+  onKeepMine: () => void
+}
+
+// Shown when another tab saved the open diagram while this one has unsaved changes
+export default function RemoteChangeBanner({ changedAt, conflicts, onReload, onMerge, onKeepMine }: RemoteChangeBannerProps) {
+  return (
+    <div className="remote-change-banner" role="alert">
+      <RefreshCw size={18} className="remote-change-icon" />
+      <div className="remote-change-text">
+        <strong>This diagram was saved in another tab{changedAt ? ` at ${changedAt.toLocaleTimeString()}` : ''}.</strong>
+        <span>
+          Reload to take that version (Undo brings yours back), merge both, or keep yours - saving then overwrites the other version.
+        </span>
+        {conflicts.length > 0 && (
+          <span className="remote-change-conflicts">
+            Changed in both tabs, merging keeps yours:{' '}
+            {conflicts.map(c => `${c.kind} "${c.name}"`).join(', ')}
+          </span>
+        )}
+      </div>
+      <div className="remote-change-buttons">
+        <button className="remote-change-secondary" onClick={onKeepMine}>Keep mine</button>
+        <button className="remote-change-secondary" onClick={onReload}>Reload</button>
+        <button className="remote-change-primary" onClick={onMerge}>Merge</button>
+      </div>
+    </div>
+  )
+}
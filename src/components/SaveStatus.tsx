@@ -0,0 +1,99 @@
+import { useState, useRef, useEffect } from 'react'
+import { Settings } from 'lucide-react'
+import './SaveStatus.css'
+
+export interface AutosaveSettings {
+  enabled: boolean
+  delaySeconds: number
+}
+
+export const AUTOSAVE_DELAY_OPTIONS = [2, 5, 10, 30, 60]
+
+interface SaveStatusProps {
+  isDirty: boolean
+  isSaving: boolean
+  lastSavedAt: Date | null
+  autosave: AutosaveSettings
+  onAutosaveChange: (settings: AutosaveSettings) => void
+}
+
+const formatTime = (date: Date) => date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
+
+export default function SaveStatus({
+  isDirty,
+  isSaving,
+  lastSavedAt,
+  autosave,
+  onAutosaveChange,
+}: SaveStatusProps) {
+  const [isMenuOpen, setIsMenuOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close settings menu when clicking outside
+  useEffect(() => {
+    if (!isMenuOpen) return
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsMenuOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isMenuOpen])
+
+  let status: 'saving' | 'unsaved' | 'saved'
+  let label: string
+  if (isSaving) {
+    status = 'saving'
+    label = 'Saving...'
+  } else if (isDirty) {
+    status = 'unsaved'
+    label = 'Unsaved changes'
+  } else {
+    status = 'saved'
+    label = lastSavedAt ? `Saved at ${formatTime(lastSavedAt)}` : 'Saved'
+  }
+
+  return (
+    <div className="save-status" ref={containerRef}>
+      <span className={`save-status-label ${status}`} title={autosave.enabled ? `Autosave after ${autosave.delaySeconds}s` : 'Autosave is off'}>
+        <span className="save-status-dot" />
+        {label}
+      </span>
+      <button
+        className="save-status-settings"
+        onClick={() => setIsMenuOpen(!isMenuOpen)}
+        title="Autosave settings"
+      >
+        <Settings size={16} />
+      </button>
+      {isMenuOpen && (
+        <div className="save-status-menu">
+          <label className="save-status-option">
+            <input
+              type="checkbox"
+              checked={autosave.enabled}
+              onChange={(e) => onAutosaveChange({ ...autosave, enabled: e.target.checked })}
+            />
+            Autosave
+          </label>
+          <label className="save-status-option">
+            Delay
+            <select
+              value={autosave.delaySeconds}
+              disabled={!autosave.enabled}
+              onChange={(e) => onAutosaveChange({ ...autosave, delaySeconds: Number(e.target.value) })}
+            >
+              {AUTOSAVE_DELAY_OPTIONS.map(seconds => (
+                <option key={seconds} value={seconds}>
+                  {seconds} s
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
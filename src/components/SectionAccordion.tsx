@@ -0,0 +1,99 @@
+import React from 'react'
+import { ChevronDown, ChevronRight, Pencil } from 'lucide-react'
+import { Section } from '../types'
+import { InlineNode, parseSectionContent } from '../services/sectionContent'
+import './SectionAccordion.css'
+
+interface SectionAccordionProps {
+  section: Section
+  x: number // Left edge, at the section's first stage
+  width: number // Distance to the section's last stage
+  y: number
+  isExpanded: boolean
+  onToggle: () => void
+  onEdit: () => void
+}
+
+export const SECTION_HEADER_HEIGHT = 28
+const CONTENT_HEIGHT = 160
+const MIN_CONTENT_WIDTH = 240
+const DEFAULT_SECTION_COLOR = '#667eea'
+
+const renderInlines = (inlines: InlineNode[]) => inlines.map((node, index) => {
+  switch (node.type) {
+    case 'bold':
+      return <strong key={index}>{node.text}</strong>
+    case 'italic':
+      return <em key={index}>{node.text}</em>
+    case 'code':
+      return <code key={index}>{node.text}</code>
+    case 'link':
+      return <a key={index} href={node.href} target="_blank" rel="noopener noreferrer">{node.text}</a>
+    default:
+      return <React.Fragment key={index}>{node.text}</React.Fragment>
+  }
+})
+
+// A horizontal accordion spanning the stages from the section's first to its last stage.
+// The header bar toggles a panel with the section's formatted notes below it.
+export default function SectionAccordion({ section, x, width, y, isExpanded, onToggle, onEdit }: SectionAccordionProps) {
+  const color = section.color || DEFAULT_SECTION_COLOR
+  const blocks = parseSectionContent(section.content ?? '')
+  // Narrow sections still get a readable panel, centered under the header
+  const contentWidth = Math.max(width, MIN_CONTENT_WIDTH)
+  const contentX = x + (width - contentWidth) / 2
+
+  // Keep clicks on the accordion from panning the canvas or deselecting markers
+  const stop = (e: React.MouseEvent) => e.stopPropagation()
+
+  const handleToggle = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    onToggle()
+  }
+
+  return (
+    <g className="section-accordion" onMouseDown={stop} onClick={stop}>
+      <rect
+        x={x}
+        y={y}
+        width={width}
+        height={SECTION_HEADER_HEIGHT}
+        rx={6}
+        fill={color}
+        fillOpacity={0.15}
+        stroke={color}
+        strokeWidth={1.5}
+        className="section-accordion-header"
+        onClick={handleToggle}
+      />
+      <foreignObject x={x} y={y} width={width} height={SECTION_HEADER_HEIGHT} pointerEvents="none">
+        <div className="section-accordion-title" style={{ color }}>
+          {isExpanded ? <ChevronDown size={14} /> : <ChevronRight size={14} />}
+          <span>{section.name}</span>
+        </div>
+      </foreignObject>
+
+      {isExpanded && (
+        <foreignObject x={contentX} y={y + SECTION_HEADER_HEIGHT + 4} width={contentWidth} height={CONTENT_HEIGHT}>
+          <div className="section-accordion-panel" style={{ borderColor: color }} onWheel={(e) => e.stopPropagation()}>
+            <button className="section-accordion-edit" onClick={onEdit} title="Edit section">
+              <Pencil size={14} />
+            </button>
+            {blocks.length === 0 && <p className="section-accordion-empty">No notes yet.</p>}
+            {blocks.map((block, index) => {
+              if (block.type === 'heading') return <h4 key={index}>{renderInlines(block.inlines)}</h4>
+              if (block.type === 'list') {
+                return (
+                  <ul key={index}>
+                    {block.items.map((item, itemIndex) => <li key={itemIndex}>{renderInlines(item)}</li>)}
+                  </ul>
+                )
+              }
+              return <p key={index}>{renderInlines(block.inlines)}</p>
+            })}
+          </div>
+        </foreignObject>
+      )}
+    </g>
+  )
+}
@@ -0,0 +1,173 @@
+import { useRef, useState } from 'react'
+import { Bold, Heading, Italic, Link, List, PanelTop, X } from 'lucide-react'
+import { Section, Stage } from '../types'
+import './SectionDialog.css'
+
+interface SectionDialogProps {
+  section: Section
+  stages: Stage[]
+  isNew: boolean
+  onSave: (section: Section) => void
+  onDelete: (sectionId: string) => void
+  onClose: () => void
+}
+
+// Create or edit a section: a named span between two stages with formatted notes
+export default function SectionDialog({ section, stages, isNew, onSave, onDelete, onClose }: SectionDialogProps) {
+  const contentRef = useRef<HTMLTextAreaElement>(null)
+  const [name, setName] = useState(section.name)
+  const [fromStageId, setFromStageId] = useState(section.fromStageId)
+  const [toStageId, setToStageId] = useState(section.toStageId)
+  const [color, setColor] = useState(section.color || '#667eea')
+  const [content, setContent] = useState(section.content ?? '')
+  const [error, setError] = useState<string | null>(null)
+
+  const sortedStages = [...stages].sort((a, b) => a.position - b.position)
+
+  // Wrap the selected text in formatting marks, or prefix the current line
+  const applyFormat = (before: string, after = '', linePrefix = false) => {
+    const textarea = contentRef.current
+    if (!textarea) return
+    const { selectionStart, selectionEnd } = textarea
+    const selected = content.slice(selectionStart, selectionEnd)
+    let next: string
+    let cursor: number
+    if (linePrefix) {
+      const lineStart = content.lastIndexOf('\n', selectionStart - 1) + 1
+      next = content.slice(0, lineStart) + before + content.slice(lineStart)
+      cursor = selectionEnd + before.length
+    } else {
+      next = content.slice(0, selectionStart) + before + selected + after + content.slice(selectionEnd)
+      cursor = selectionStart + before.length + selected.length
+    }
+    setContent(next)
+    requestAnimationFrame(() => {
+      textarea.focus()
+      textarea.setSelectionRange(cursor, cursor)
+    })
+  }
+
+  const handleLink = () => {
+    const url = window.prompt('Link address:', 'https://')
+    if (url && url.trim()) {
+      applyFormat('[', `](${url.trim()})`)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!name.trim()) {
+      setError('Give the section a name.')
+      return
+    }
+    if (!fromStageId || !toStageId || fromStageId === toStageId) {
+      setError('A section spans two different stages.')
+      return
+    }
+    onSave({
+      ...section,
+      name: name.trim(),
+      fromStageId,
+      toStageId,
+      color,
+      content: content.trim() ? content : undefined,
+    })
+  }
+
+  const handleDelete = () => {
+    if (window.confirm(`Delete section "${section.name}"?`)) {
+      onDelete(section.id)
+    }
+  }
+
+  return (
+    <div className="section-dialog-overlay" onClick={onClose}>
+      <form className="section-dialog-modal" onClick={(e) => e.stopPropagation()} onSubmit={handleSubmit}>
+        <div className="section-dialog-header">
+          <PanelTop size={20} />
+          <h3>{isNew ? 'New Section' : 'Edit Section'}</h3>
+          <button type="button" className="section-dialog-close" onClick={onClose} title="Close">
+            <X size={18} />
+          </button>
+        </div>
+
+        <label className="section-dialog-field">
+          <span>Name</span>
+          <input
+            type="text"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            placeholder="e.g. Onboarding"
+            autoFocus
+          />
+        </label>
+        <div className="section-dialog-row">
+          <label className="section-dialog-field">
+            <span>From stage</span>
+            <select value={fromStageId} onChange={(e) => setFromStageId(e.target.value)}>
+              {sortedStages.map(stage => (
+                <option key={stage.id} value={stage.id}>{stage.name} ({stage.position}%)</option>
+              ))}
+            </select>
+          </label>
+          <label className="section-dialog-field">
+            <span>To stage</span>
+            <select value={toStageId} onChange={(e) => setToStageId(e.target.value)}>
+              {sortedStages.map(stage => (
+                <option key={stage.id} value={stage.id}>{stage.name} ({stage.position}%)</option>
+              ))}
+            </select>
+          </label>
+          <label className="section-dialog-field section-dialog-color">
+            <span>Color</span>
+            <input type="color" value={color} onChange={(e) => setColor(e.target.value)} />
+          </label>
+        </div>
+
+        <div className="section-dialog-field">
+          <span>Notes</span>
+          <div className="section-dialog-toolbar">
+            <button type="button" onClick={() => applyFormat('**', '**')} title="Bold">
+              <Bold size={14} />
+            </button>
+            <button type="button" onClick={() => applyFormat('*', '*')} title="Italic">
+              <Italic size={14} />
+            </button>
+            <button type="button" onClick={() => applyFormat('# ', '', true)} title="Heading">
+              <Heading size={14} />
+            </button>
+            <button type="button" onClick={() => applyFormat('- ', '', true)} title="List item">
+              <List size={14} />
+            </button>
+            <button type="button" onClick={handleLink} title="Link">
+              <Link size={14} />
+            </button>
+          </div>
+          <textarea
+            ref={contentRef}
+            value={content}
+            onChange={(e) => setContent(e.target.value)}
+            rows={8}
+            placeholder={'# Heading\n- List item\n**bold**, *italic*, [link](https://example.com)'}
+          />
+        </div>
+
+        {error && <p className="section-dialog-error" role="alert">{error}</p>}
+
+        <div className="section-dialog-buttons">
+          {!isNew && (
+            <button type="button" className="section-dialog-danger" onClick={handleDelete}>
+              Delete
+            </button>
+          )}
+          <button type="button" className="section-dialog-secondary" onClick={onClose}>
+            Cancel
+          </button>
+          <button type="submit" className="section-dialog-primary">
+            {isNew ? 'Add' : 'Apply'}
+          </button>
+        </div>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,45 @@
+import { DiagramFile } from '../services/jsonFormat'
+import DiagramPreview from './DiagramPreview'
+import { Share2 } from 'lucide-react'
+import './SharedDiagramPreview.css'
+
+interface SharedDiagramPreviewProps {
+  file: DiagramFile
+  isImporting: boolean
+  onImport: () => void
+  onClose: () => void
+}
+
+// Read-only view of a diagram opened from a share link
+export default function SharedDiagramPreview({ file, isImporting, onImport, onClose }: SharedDiagramPreviewProps) {
+  return (
+    <div className="shared-preview-overlay" onClick={onClose}>
+      <div className="shared-preview-modal" onClick={(e) => e.stopPropagation()}>
+        <div className="shared-preview-header">
+          <Share2 size={20} />
+          <h3>{file.diagram.name}</h3>
+        </div>
+        <p className="shared-preview-summary">
+          Shared diagram with {file.stages.length} stages and {file.flows.length} flows,
+          last changed {new Date(file.diagram.updatedAt).toLocaleString()}.
+        </p>
+
+        <DiagramPreview stages={file.stages} flows={file.flows} width={552} height={260} />
+
+        <p className="shared-preview-note">
+          This is a read-only preview. Nothing is stored until you import the diagram, which adds it
+          next to your own diagrams.
+        </p>
+
+        <div className="shared-preview-buttons">
+          <button className="shared-preview-close" onClick={onClose}>
+            Close
+          </button>
+          <button className="shared-preview-import" onClick={onImport} disabled={isImporting}>
+            {isImporting ? 'Importing...' : 'Import into my workspace'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,164 @@
+import { useState } from 'react'
+import { Stage, Flow, Section, Snapshot, SnapshotSummary, AttributeDefinition, DiagramSettings } from '../types'
+import { diffDiagrams, isDiffEmpty, describeChanges } from '../services/diagramDiff'
+import DiagramPreview from './DiagramPreview'
+import { Camera, Eye, RotateCcw, Trash2, X } from 'lucide-react'
+import './SnapshotPanel.css'
+
+interface SnapshotPanelProps {
+  snapshots: SnapshotSummary[]
+  stages: Stage[]
+  flows: Flow[]
+  sections: Section[]
+  attributeDefinitions: AttributeDefinition[]
+  settings: DiagramSettings
+  snapshotOnSave: boolean
+  onSnapshotOnSaveChange: (enabled: boolean) => void
+  onTakeSnapshot: (name: string) => void
+  onLoadSnapshot: (snapshotId: string) => Promise<Snapshot | null>
+  onRestore: (snapshot: Snapshot) => void
+  onDelete: (snapshotId: string) => void
+  onClose: () => void
+}
+
+const formatDate = (iso: string) => new Date(iso).toLocaleString([], {
+  year: 'numeric',
+  month: 'short',
+  day: 'numeric',
+  hour: '2-digit',
+  minute: '2-digit',
+})
+
+export default function SnapshotPanel({
+  snapshots,
+  stages,
+  flows,
+  sections,
+  attributeDefinitions,
+  settings,
+  snapshotOnSave,
+  onSnapshotOnSaveChange,
+  onTakeSnapshot,
+  onLoadSnapshot,
+  onRestore,
+  onDelete,
+  onClose,
+}: SnapshotPanelProps) {
+  const [preview, setPreview] = useState<Snapshot | null>(null)
+
+  const handleTakeSnapshot = () => {
+    const name = window.prompt('Snapshot name:', `Snapshot ${new Date().toLocaleDateString()}`)
+    if (name && name.trim()) {
+      onTakeSnapshot(name.trim())
+    }
+  }
+
+  const handlePreview = async (snapshotId: string) => {
+    if (preview?.id === snapshotId) {
+      setPreview(null)
+      return
+    }
+    setPreview(await onLoadSnapshot(snapshotId))
+  }
+
+  const handleRestore = async (snapshotId: string) => {
+    const snapshot = preview?.id === snapshotId ? preview : await onLoadSnapshot(snapshotId)
+    if (snapshot) {
+      onRestore(snapshot)
+    }
+  }
+
+  const handleDelete = (snapshot: SnapshotSummary) => {
+    if (window.confirm(`Delete snapshot "${snapshot.name}"?`)) {
+      if (preview?.id === snapshot.id) {
+        setPreview(null)
+      }
+      onDelete(snapshot.id)
+    }
+  }
+
+  // How the previewed snapshot differs from what is on the canvas now
+  const comparison = preview ? diffDiagrams({ stages, flows, sections, attributeDefinitions, settings }, preview) : null
+
+  return (
+    <aside className="snapshot-panel">
+      <div className="snapshot-panel-header">
+        <h2>Snapshots</h2>
+        <button className="snapshot-icon-button" onClick={onClose} title="Close">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="snapshot-panel-actions">
+        <button className="snapshot-take-button" onClick={handleTakeSnapshot}>
+          <Camera size={16} />
+          <span>Take snapshot</span>
+        </button>
+        <label className="snapshot-option">
+          <input
+            type="checkbox"
+            checked={snapshotOnSave}
+            onChange={(e) => onSnapshotOnSaveChange(e.target.checked)}
+          />
+          Snapshot on every manual save
+        </label>
+      </div>
+
+      <div className="snapshot-list">
+        {snapshots.length === 0 && (
+          <p className="snapshot-empty">No snapshots yet.</p>
+        )}
+        {snapshots.map(snapshot => (
+          <div key={snapshot.id} className={`snapshot-item ${preview?.id === snapshot.id ? 'active' : ''}`}>
+            <div className="snapshot-item-header">
+              <div className="snapshot-item-info">
+                <span className="snapshot-name">{snapshot.name}</span>
+                <span className="snapshot-meta">
+                  {formatDate(snapshot.createdAt)}
+                  {' · '}
+                  {snapshot.stageCount} stages, {snapshot.flowCount} flows
+                  {snapshot.trigger === 'save' && <span className="snapshot-badge">auto</span>}
+                </span>
+              </div>
+              <div className="snapshot-item-actions">
+                <button className="snapshot-icon-button" onClick={() => handlePreview(snapshot.id)} title="Preview and compare">
+                  <Eye size={16} />
+                </button>
+                <button className="snapshot-icon-button" onClick={() => handleRestore(snapshot.id)} title="Restore">
+                  <RotateCcw size={16} />
+                </button>
+                <button className="snapshot-icon-button danger" onClick={() => handleDelete(snapshot)} title="Delete">
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            </div>
+
+            {preview?.id === snapshot.id && comparison && (
+              <div className="snapshot-preview">
+                <DiagramPreview stages={preview.stages} flows={preview.flows} width={296} height={150} />
+                <div className="snapshot-comparison">
+                  {isDiffEmpty(comparison) ? (
+                    <span>Identical to the current diagram.</span>
+                  ) : (
+                    <>
+                      <span>Restoring would change:</span>
+                      {[
+                        describeChanges('Stages', comparison.stages),
+                        describeChanges('Flows', comparison.flows),
+                        describeChanges('Sections', comparison.sections),
+                        describeChanges('Attributes', comparison.attributeDefinitions),
+                        comparison.settingsChanged ? 'Root total or unit' : null,
+                      ]
+                        .filter(Boolean)
+                        .map(line => <span key={line}>{line}</span>)}
+                    </>
+                  )}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </aside>
+  )
+}
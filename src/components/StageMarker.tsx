@@ -3,23 +3,35 @@ import { Stage, Flow } from '../types'
 import { Trash2, Minus, X } from 'lucide-react'
 import './StageMarker.css'
 
+interface BandPosition {
+  flowId: string
+  y: number
+  width: number
+}
+
+type BandSide = 'incoming' | 'outgoing'
+
 interface StageMarkerProps {
   x: number
   y: number
   stage: Stage
   height: number
   onUpdate?: (stage: Stage) => void
-  onClick?: (stage: Stage) => void
+  onClick?: (stage: Stage, e?: React.MouseEvent) => void // The event tells whether shift was held
   onDelete?: (stageId: string) => void
   onDisconnectParent?: (flowId: string) => void
   onDrag?: (stageId: string, newPosition: number, newYPosition: number) => void
   isSelected?: boolean
   incomingFlows?: Flow[] // Flows that end at this marker (parent connections)
-  incomingFlowPositions?: { flowId: string; y: number }[] // Vertical positions for each incoming flow
+  incomingFlowPositions?: BandPosition[] // Incoming bands, top to bottom
+  outgoingFlowPositions?: BandPosition[] // Outgoing bands, top to bottom
+  onReorderIncoming?: (flowIds: string[]) => void // Incoming bands were dragged into a new order
+  onReorderOutgoing?: (flowIds: string[]) => void // Outgoing bands were dragged into a new order
   minX?: number // Minimum x position based on parent nodes
   canvasWidth?: number
   canvasHeight?: number
   hideLabel?: boolean // If true, don't render the label (for separate label rendering)
+  tooltip?: string // Shown on hover, e.g. the stage's custom attribute values
 }
 
 export default function StageMarker({ 
@@ -35,10 +47,14 @@ export default function StageMarker({
   isSelected,
   incomingFlows = [],
   incomingFlowPositions = [],
+  outgoingFlowPositions = [],
+  onReorderIncoming,
+  onReorderOutgoing,
   minX = 0,
   canvasWidth = 1200,
   canvasHeight = 600,
-  hideLabel = false
+  hideLabel = false,
+  tooltip
 }: StageMarkerProps) {
   const [isEditing, setIsEditing] = useState(false)
   const [editName, setEditName] = useState(stage.name)
@@ -49,6 +65,8 @@ export default function StageMarker({
   const [dragStartYPosition, setDragStartYPosition] = useState(0)
   const [hasDragged, setHasDragged] = useState(false)
   const [contextMenu, setContextMenu] = useState<{ x: number; y: number } | null>(null)
+  // Band being dragged to a new place on the marker, with the pointer's height
+  const [bandDrag, setBandDrag] = useState<{ side: BandSide; flowId: string; y: number } | null>(null)
   const [labelWidth, setLabelWidth] = useState(100)
   const inputRef = useRef<HTMLInputElement>(null)
   const labelContainerRef = useRef<HTMLDivElement>(null)
@@ -146,7 +164,7 @@ export default function StageMarker({
   const handleClick = (e: React.MouseEvent) => {
     e.stopPropagation()
     if (!isDragging && !hasDragged) {
-      onClick?.(stage)
+      onClick?.(stage, e)
       // Don't auto-start editing - user must click input field
     }
   }
@@ -257,8 +275,89 @@ export default function StageMarker({
     }
   }, [isDragging, dragStartX, dragStartY, dragStartPosition, dragStartYPosition, stage.id, minX, canvasWidth, canvasHeight, height, y, onDrag])
 
+  // Pointer height in the marker's coordinates, which are scaled by the canvas zoom
+  const toLocalY = (clientX: number, clientY: number): number | null => {
+    const svg = markerRef.current?.ownerSVGElement
+    const ctm = markerRef.current?.getScreenCTM()
+    if (!svg || !ctm) return null
+    const point = svg.createSVGPoint()
+    point.x = clientX
+    point.y = clientY
+    return point.matrixTransform(ctm.inverse()).y
+  }
+
+  const getBands = (side: BandSide) => (side === 'incoming' ? incomingFlowPositions : outgoingFlowPositions)
+
+  // Slot the dragged band would be dropped into, among the other bands on its side
+  const getBandDropIndex = (drag: { side: BandSide; flowId: string; y: number }) =>
+    getBands(drag.side).filter(band => band.flowId !== drag.flowId && band.y < drag.y).length
+
+  const handleBandMouseDown = (e: React.MouseEvent, side: BandSide, flowId: string) => {
+    e.stopPropagation()
+    e.preventDefault()
+    const localY = toLocalY(e.clientX, e.clientY)
+    if (localY !== null) setBandDrag({ side, flowId, y: localY })
+  }
+
+  useEffect(() => {
+    if (!bandDrag) return
+
+    const handleMouseMove = (e: MouseEvent) => {
+      const localY = toLocalY(e.clientX, e.clientY)
+      if (localY !== null) setBandDrag({ ...bandDrag, y: localY })
+    }
+
+    const handleMouseUp = () => {
+      const order = getBands(bandDrag.side).map(band => band.flowId)
+      const others = order.filter(id => id !== bandDrag.flowId)
+      others.splice(getBandDropIndex(bandDrag), 0, bandDrag.flowId)
+      if (others.some((id, index) => id !== order[index])) {
+        const onReorder = bandDrag.side === 'incoming' ? onReorderIncoming : onReorderOutgoing
+        onReorder?.(others)
+      }
+      setBandDrag(null)
+    }
+
+    document.addEventListener('mousemove', handleMouseMove)
+    document.addEventListener('mouseup', handleMouseUp)
+
+    return () => {
+      document.removeEventListener('mousemove', handleMouseMove)
+      document.removeEventListener('mouseup', handleMouseUp)
+    }
+  }, [bandDrag, incomingFlowPositions, outgoingFlowPositions, onReorderIncoming, onReorderOutgoing])
+
   const topY = y - height / 2
   const bottomY = y + height / 2
+  // Entry points turn into drag handles, unless they are shown as disconnect buttons
+  const showsDisconnect = Boolean(isSelected && onDisconnectParent && incomingFlows.length > 1)
+  const canReorderIncoming = Boolean(onReorderIncoming) && incomingFlowPositions.length > 1 && !showsDisconnect
+  const canReorderOutgoing = Boolean(onReorderOutgoing) && outgoingFlowPositions.length > 1
+
+  // Handles on the left (incoming) or right (outgoing) edge of the marker, one per band
+  const renderBandHandles = (side: BandSide) => getBands(side).map(band => {
+    const handleHeight = Math.max(8, Math.min(band.width - 4, 24))
+    const isDragged = bandDrag?.flowId === band.flowId
+    return (
+      <rect
+        key={`${side === 'incoming' ? 'entry' : 'exit'}-point-${band.flowId}`}
+        x={side === 'incoming' ? -14 : 7}
+        y={(isDragged ? bandDrag.y : band.y) - handleHeight / 2}
+        width={7}
+        height={handleHeight}
+        rx={2}
+        fill="white"
+        stroke={stage.color || '#667eea'}
+        strokeWidth={1.5}
+        opacity={isDragged ? 0.7 : 1}
+        className="band-handle"
+        onMouseDown={(e) => handleBandMouseDown(e, side, band.flowId)}
+        onClick={(e) => e.stopPropagation()}
+      >
+        <title>{`Drag to reorder the bands ${side === 'incoming' ? 'entering' : 'leaving'} this stage`}</title>
+      </rect>
+    )
+  })
 
   return (
     <g 
@@ -269,6 +368,7 @@ export default function StageMarker({
       onContextMenu={handleContextMenu}
       onMouseDown={handleMouseDown}
     >
+      {tooltip && <title>{tooltip}</title>}
       {/* Disconnect parent buttons - shown when selected and multiple parents exist (old implementation, now using entry points) */}
       {false && isSelected && incomingFlows.length > 1 && onDisconnectParent && (
         incomingFlows.map((flow, index) => {
@@ -319,12 +419,12 @@ export default function StageMarker({
       />
       
       {/* Entry points (left side - flows end here) - white points when not selected, red with minus when selected (only if multiple parents) - rendered after marker to appear on top */}
-      {incomingFlowPositions.map(({ flowId, y: flowY }: { flowId: string; y: number }) => {
+      {incomingFlowPositions.map(({ flowId, y: flowY }) => {
         const flow = incomingFlows.find(f => f.id === flowId)
         if (!flow) return null
         
         // Show red dot with minus only if selected AND there are multiple incoming flows
-        if (isSelected && onDisconnectParent && incomingFlows.length > 1) {
+        if (showsDisconnect) {
           // Red dot with minus sign when selected and multiple parents exist
           const handleDisconnect = (e: React.MouseEvent) => {
             e.stopPropagation()
@@ -355,6 +455,9 @@ export default function StageMarker({
               </g>
             </g>
           )
+        } else if (canReorderIncoming) {
+          // Drawn as a drag handle below
+          return null
         } else {
           // White dot when not selected, or when selected but only one parent
           return (
@@ -438,6 +541,22 @@ export default function StageMarker({
         />
       )}
 
+      {/* Band handles - drag them up or down to reorder the incoming or outgoing bands */}
+      {canReorderIncoming && renderBandHandles('incoming')}
+      {canReorderOutgoing && renderBandHandles('outgoing')}
+      {bandDrag && (() => {
+        // Line where the dragged band would go
+        const others = getBands(bandDrag.side).filter(band => band.flowId !== bandDrag.flowId)
+        const index = getBandDropIndex(bandDrag)
+        const lineY = index < others.length
+          ? others[index].y - others[index].width / 2 - 4
+          : others[others.length - 1].y + others[others.length - 1].width / 2 + 4
+        const [x1, x2] = bandDrag.side === 'incoming' ? [-24, -5] : [5, 24]
+        return (
+          <line x1={x1} y1={lineY} x2={x2} y2={lineY} stroke="#1a202c" strokeWidth={2} pointerEvents="none" />
+        )
+      })()}
+
       {/* Hidden text for measuring width */}
       <text
         ref={textMeasureRef}
@@ -0,0 +1,97 @@
+import { useState, useRef, useEffect } from 'react'
+import { Database, AlertTriangle, Check, Lock } from 'lucide-react'
+import { OpenedStorage, StorageAdapterId, STORAGE_ADAPTERS } from '../services/storageAdapter'
+import './StorageBadge.css'
+
+interface StorageBadgeProps {
+  storage: OpenedStorage | null
+  onSelect: (id: StorageAdapterId) => void
+  // Whether stored diagrams are encrypted with a passphrase
+  encrypted: boolean
+  // Opens the passphrase settings; left out when the storage can't be encrypted
+  onPassphrase?: () => void
+}
+
+// Shows which storage adapter is active and lets the user pick another one
+export default function StorageBadge({ storage, onSelect, encrypted, onPassphrase }: StorageBadgeProps) {
+  const [isMenuOpen, setIsMenuOpen] = useState(false)
+  const containerRef = useRef<HTMLDivElement>(null)
+
+  // Close menu when clicking outside
+  useEffect(() => {
+    if (!isMenuOpen) return
+
+    const handleClickOutside = (e: MouseEvent) => {
+      if (containerRef.current && !containerRef.current.contains(e.target as Node)) {
+        setIsMenuOpen(false)
+      }
+    }
+    document.addEventListener('mousedown', handleClickOutside)
+    return () => document.removeEventListener('mousedown', handleClickOutside)
+  }, [isMenuOpen])
+
+  if (!storage) return null
+
+  const { adapter, fallbackReason } = storage
+  const needsAttention = Boolean(fallbackReason) || !adapter.persistent
+  const title = fallbackReason
+    ? `${fallbackReason}. Using ${adapter.label} instead.`
+    : adapter.persistent
+      ? `Storing diagrams in ${adapter.label}${encrypted ? ', encrypted' : ''}`
+      : 'Diagrams are not saved and will be lost on reload'
+
+  return (
+    <div className="storage-badge" ref={containerRef}>
+      <button
+        className={`storage-badge-button ${needsAttention ? 'warning' : ''}`}
+        onClick={() => setIsMenuOpen(!isMenuOpen)}
+        title={title}
+      >
+        {needsAttention ? <AlertTriangle size={14} /> : <Database size={14} />}
+        <span>{adapter.label}</span>
+        {encrypted && <Lock size={12} />}
+      </button>
+      {isMenuOpen && (
+        <div className="storage-badge-menu">
+          {fallbackReason && (
+            <p className="storage-badge-warning">{fallbackReason}</p>
+          )}
+          {STORAGE_ADAPTERS.map(option => (
+            <button
+              key={option.id}
+              className={`storage-badge-option ${option.id === adapter.id ? 'active' : ''}`}
+              onClick={() => {
+                setIsMenuOpen(false)
+                if (option.id !== adapter.id) onSelect(option.id)
+              }}
+            >
+              <span className="storage-badge-check">
+                {option.id === adapter.id && <Check size={14} />}
+              </span>
+              <span className="storage-badge-option-text">
+                <span className="storage-badge-option-label">{option.label}</span>
+                <span className="storage-badge-option-description">{option.description}</span>
+              </span>
+            </button>
+          ))}
+          {onPassphrase && (
+            <button
+              className="storage-badge-option storage-badge-passphrase"
+              onClick={() => {
+                setIsMenuOpen(false)
+                onPassphrase()
+              }}
+            >
+              <span className="storage-badge-check">
+                <Lock size={14} />
+              </span>
+              <span className="storage-badge-option-label">
+                {encrypted ? 'Change passphrase...' : 'Protect with a passphrase...'}
+              </span>
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,113 @@
+import { useEffect, useState } from 'react'
+import { CalendarRange, Pause, Pencil, Play, Plus, Trash2 } from 'lucide-react'
+import './TimelineScrubber.css'
+
+interface TimelineScrubberProps {
+  periods: string[]
+  // Period shown on the canvas, or null for the default values
+  selectedPeriod: string | null
+  onSelect: (period: string | null) => void
+  onAddPeriod: () => void
+  onRenamePeriod: (period: string) => void
+  onRemovePeriod: (period: string) => void
+}
+
+// Time each period stays on screen during playback
+const PLAYBACK_STEP_MS = 1500
+
+// Slider below the canvas that picks the period whose flow values are shown,
+// and replays the periods one after another
+export default function TimelineScrubber({
+  periods,
+  selectedPeriod,
+  onSelect,
+  onAddPeriod,
+  onRenamePeriod,
+  onRemovePeriod,
+}: TimelineScrubberProps) {
+  const [isPlaying, setIsPlaying] = useState(false)
+  // Slider position 0 is the default values, 1..n the periods
+  const position = selectedPeriod === null ? 0 : periods.indexOf(selectedPeriod) + 1
+
+  useEffect(() => {
+    if (!isPlaying) return
+    if (position >= periods.length) {
+      setIsPlaying(false)
+      return
+    }
+    const timer = setTimeout(() => onSelect(periods[position]), PLAYBACK_STEP_MS)
+    return () => clearTimeout(timer)
+  }, [isPlaying, position, periods, onSelect])
+
+  const handlePlay = () => {
+    if (isPlaying) {
+      setIsPlaying(false)
+      return
+    }
+    // Start over when the last period is showing
+    if (position >= periods.length || position === 0) onSelect(periods[0])
+    setIsPlaying(true)
+  }
+
+  const handleSlide = (value: number) => {
+    setIsPlaying(false)
+    onSelect(value === 0 ? null : periods[value - 1])
+  }
+
+  return (
+    <div className="timeline">
+      <CalendarRange size={18} className="timeline-icon" />
+      {periods.length === 0 ? (
+        <span className="timeline-empty">Add a period, e.g. a week, to give every flow a value per period and replay them here.</span>
+      ) : (
+        <>
+          <button
+            className="timeline-button"
+            onClick={handlePlay}
+            title={isPlaying ? 'Pause' : 'Play through the periods'}
+          >
+            {isPlaying ? <Pause size={16} /> : <Play size={16} />}
+          </button>
+          <div className="timeline-track">
+            <input
+              type="range"
+              min={0}
+              max={periods.length}
+              step={1}
+              value={position}
+              onChange={(e) => handleSlide(Number(e.target.value))}
+              aria-label="Period"
+            />
+            <div className="timeline-ticks">
+              {['Default', ...periods].map((label, index) => (
+                <button
+                  key={label}
+                  className={`timeline-tick${index === position ? ' active' : ''}`}
+                  onClick={() => handleSlide(index)}
+                  title={index === 0 ? 'Values without a period' : label}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <span className="timeline-current">{selectedPeriod ?? 'Default values'}</span>
+          {selectedPeriod !== null && (
+            <>
+              <button className="timeline-button" onClick={() => onRenamePeriod(selectedPeriod)} title="Rename period">
+                <Pencil size={16} />
+              </button>
+              <button className="timeline-button danger" onClick={() => onRemovePeriod(selectedPeriod)} title="Remove period">
+                <Trash2 size={16} />
+              </button>
+            </>
+          )}
+        </>
+      )}
+      <button className="timeline-add" onClick={onAddPeriod} title="Add a period, starting from the values shown">
+        <Plus size={16} />
+        Period
+      </button>
+    </div>
+  )
+}
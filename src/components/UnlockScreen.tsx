@@ -0,0 +1,58 @@
+import { useState } from 'react'
+import { Lock } from 'lucide-react'
+import { WrongPassphraseError } from '../services/encryption'
+import './UnlockScreen.css'
+
+interface UnlockScreenProps {
+  // Rejects with WrongPassphraseError if the passphrase is not correct
+  onUnlock: (passphrase: string) => Promise<void>
+}
+
+// Asks for the passphrase before encrypted diagrams are loaded
+export default function UnlockScreen({ onUnlock }: UnlockScreenProps) {
+  const [passphrase, setPassphrase] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [isUnlocking, setIsUnlocking] = useState(false)
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!passphrase) return
+
+    setIsUnlocking(true)
+    setError(null)
+    try {
+      await onUnlock(passphrase)
+    } catch (err: any) {
+      console.error('Failed to unlock:', err)
+      setError(err instanceof WrongPassphraseError
+        ? 'Wrong passphrase. Please try again.'
+        : `Failed to unlock: ${err?.message || 'Unknown error occurred'}`)
+      setPassphrase('')
+      setIsUnlocking(false)
+    }
+  }
+
+  return (
+    <div className="unlock-screen">
+      <form className="unlock-card" onSubmit={handleSubmit}>
+        <Lock size={32} className="unlock-icon" />
+        <h2>Diagrams are locked</h2>
+        <p className="unlock-text">Enter your passphrase to decrypt the diagrams stored in this browser.</p>
+        <input
+          type="password"
+          value={passphrase}
+          onChange={(e) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+          autoComplete="current-password"
+          autoFocus
+          disabled={isUnlocking}
+        />
+        {error && <p className="unlock-error" role="alert">{error}</p>}
+        <button type="submit" className="unlock-button" disabled={isUnlocking || !passphrase}>
+          {isUnlocking ? 'Unlocking...' : 'Unlock'}
+        </button>
+        <p className="unlock-hint">A forgotten passphrase cannot be recovered.</p>
+      </form>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { Flow } from '../types'
+import {
+  normalizeSettings,
+  serializeSettings,
+  getAmount,
+  formatAmount,
+  getStageInflow,
+  getShareOfParent,
+  formatFlowLabel,
+  describeFlowValue,
+} from './amounts'
+
+const flow = (id: string, fromStageId: string, toStageId: string, value: number): Flow => ({
+  id,
+  name: id,
+  fromStageId,
+  toStageId,
+  value,
+})
+
+// a sends 60 to b and 40 to c, b passes 15 on to d
+const flows = [flow('f1', 'a', 'b', 60), flow('f2', 'a', 'c', 40), flow('f3', 'b', 'd', 15)]
+
+describe('settings', () => {
+  it('leave out unset and invalid values', () => {
+    expect(normalizeSettings({ rootTotal: 500, unit: ' users ' })).toEqual({ rootTotal: 500, unit: 'users' })
+    expect(normalizeSettings({ rootTotal: 0, unit: '  ' })).toEqual({})
+    expect(normalizeSettings({ rootTotal: NaN })).toEqual({})
+    expect(normalizeSettings(undefined)).toEqual({})
+  })
+
+  it('serialize to null when nothing is set', () => {
+    expect(serializeSettings({ unit: 'users', rootTotal: 500 })).toBe('{"rootTotal":500,"unit":"users"}')
+    expect(serializeSettings({ rootTotal: -1 })).toBeNull()
+  })
+})
+
+describe('amounts', () => {
+  it('are a percentage of the root total', () => {
+    expect(getAmount(12, { rootTotal: 5000 })).toBe(600)
+    expect(getAmount(12, {})).toBeNull()
+  })
+
+  it('are formatted with the unit, keeping decimals only for small amounts', () => {
+    expect(formatAmount(600.4, { unit: 'users' })).toBe('600 users')
+    expect(formatAmount(2.345, {})).toBe('2.35')
+    expect(formatAmount(1250, { unit: 'users' })).toBe(`${(1250).toLocaleString()} users`)
+  })
+
+  it('use what flows into the source stage as the parent, 100 for roots', () => {
+    expect(getStageInflow('a', flows)).toBe(100)
+    expect(getStageInflow('b', flows)).toBe(60)
+    expect(getShareOfParent(flows[2], flows)).toBe(25)
+    expect(getShareOfParent(flow('f', 'x', 'y', 5), [flow('g', 'w', 'x', 0)])).toBe(0)
+  })
+})
+
+describe('flow labels', () => {
+  it('show the percentage of the root without a root total', () => {
+    expect(formatFlowLabel(flows[2], flows, {})).toBe('15.00%')
+  })
+
+  it('show the amount and the share of the parent with a root total', () => {
+    expect(formatFlowLabel(flows[2], flows, { rootTotal: 200, unit: 'orders' })).toBe('30 orders · 25.00%')
+  })
+
+  it('describe the flow in its tooltip', () => {
+    expect(describeFlowValue(flows[2], flows, { rootTotal: 200, unit: 'orders' }, 'Cart')).toEqual([
+      '30 orders',
+      '25.00% of Cart',
+      '15.00% of the total',
+    ])
+    expect(describeFlowValue(flows[2], flows, {}, '')).toEqual(['25.00% of its source', '15.00% of the total'])
+  })
+})
@@ -0,0 +1,65 @@
+// Absolute amounts of flows, from the root total and unit in the diagram settings
+//
+// Flow values are percentages of the root stages, which stand for 100. With a root
+// total of 5000 and the unit "users", a flow with value 12 carries 600 users.
+import { Flow, DiagramSettings } from '../types'
+
+// Settings with unset and invalid values left out
+export function normalizeSettings(settings: DiagramSettings | undefined): DiagramSettings {
+  const normalized: DiagramSettings = {}
+  if (settings?.rootTotal !== undefined && Number.isFinite(settings.rootTotal) && settings.rootTotal > 0) {
+    normalized.rootTotal = settings.rootTotal
+  }
+  const unit = settings?.unit?.trim()
+  if (unit) normalized.unit = unit
+  return normalized
+}
+
+// Stored form of the settings, null when nothing is set
+export function serializeSettings(settings: DiagramSettings | undefined): string | null {
+  const normalized = normalizeSettings(settings)
+  return Object.keys(normalized).length > 0 ? JSON.stringify(normalized) : null
+}
+
+// Absolute amount of a percentage of the root total, or null without a root total
+export function getAmount(value: number, settings: DiagramSettings): number | null {
+  return settings.rootTotal !== undefined ? (value / 100) * settings.rootTotal : null
+}
+
+// e.g. "1,250 users". Small amounts keep two decimals.
+export function formatAmount(amount: number, settings: DiagramSettings): string {
+  const number = amount.toLocaleString(undefined, { maximumFractionDigits: Math.abs(amount) >= 100 ? 0 : 2 })
+  return settings.unit ? `${number} ${settings.unit}` : number
+}
+
+// Value that flows into a stage; root stages stand for 100
+export function getStageInflow(stageId: string, flows: Flow[]): number {
+  const incoming = flows.filter(flow => flow.toStageId === stageId)
+  return incoming.length > 0 ? incoming.reduce((sum, flow) => sum + flow.value, 0) : 100
+}
+
+// Percentage of what flows into its source stage that a flow carries on
+export function getShareOfParent(flow: Flow, flows: Flow[]): number {
+  const inflow = getStageInflow(flow.fromStageId, flows)
+  return inflow > 0 ? (flow.value / inflow) * 100 : 0
+}
+
+const formatPercent = (percent: number) => `${percent.toFixed(2)}%`
+
+// Short label for the flow band: the amount and share of parent with a root total,
+// otherwise the percentage of the root as before
+export function formatFlowLabel(flow: Flow, flows: Flow[], settings: DiagramSettings): string {
+  const amount = getAmount(flow.value, settings)
+  if (amount === null) return formatPercent(flow.value)
+  return `${formatAmount(amount, settings)} · ${formatPercent(getShareOfParent(flow, flows))}`
+}
+
+// Tooltip lines describing how much a flow carries
+export function describeFlowValue(flow: Flow, flows: Flow[], settings: DiagramSettings, sourceName: string): string[] {
+  const amount = getAmount(flow.value, settings)
+  return [
+    ...(amount !== null ? [formatAmount(amount, settings)] : []),
+    `${formatPercent(getShareOfParent(flow, flows))} of ${sourceName || 'its source'}`,
+    `${formatPercent(flow.value)} of the total`,
+  ]
+}
@@ -0,0 +1,106 @@
+// Custom attributes of stages and flows, see AttributeDefinition in types.ts
+import { AttributeDefinition, AttributeType, AttributeValues } from '../types'
+
+export const ATTRIBUTE_TYPES: Array<{ type: AttributeType; label: string }> = [
+  { type: 'text', label: 'Text' },
+  { type: 'number', label: 'Number' },
+  { type: 'date', label: 'Date' },
+  { type: 'url', label: 'URL' },
+  { type: 'enum', label: 'Choice' },
+]
+
+export function isAttributeType(value: unknown): value is AttributeType {
+  return ATTRIBUTE_TYPES.some(entry => entry.type === value)
+}
+
+// Id not used by any definition yet
+export function createAttributeId(definitions: AttributeDefinition[]): string {
+  const ids = new Set(definitions.map(definition => definition.id))
+  let counter = definitions.length + 1
+  while (ids.has(`attr-${counter}`)) counter++
+  return `attr-${counter}`
+}
+
+function isValidDate(value: string): boolean {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false
+  const date = new Date(`${value}T00:00:00Z`)
+  return !Number.isNaN(date.getTime()) && date.toISOString().startsWith(value)
+}
+
+function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+// Problem with a value entered for an attribute, or null if it is fine. Empty means no value.
+export function validateAttributeValue(definition: AttributeDefinition, value: string): string | null {
+  if (value === '') return null
+  switch (definition.type) {
+    case 'number':
+      return value.trim() !== '' && Number.isFinite(Number(value)) ? null : `${definition.name} must be a number`
+    case 'date':
+      return isValidDate(value) ? null : `${definition.name} must be a date (YYYY-MM-DD)`
+    case 'url':
+      return isValidUrl(value) ? null : `${definition.name} must be a http:// or https:// address`
+    case 'enum':
+      return definition.options?.includes(value) ? null : `${definition.name} must be one of: ${(definition.options ?? []).join(', ')}`
+    default:
+      return null
+  }
+}
+
+export function formatAttributeValue(definition: AttributeDefinition, value: string): string {
+  if (definition.type === 'date' && isValidDate(value)) {
+    const [year, month, day] = value.split('-').map(Number)
+    return new Date(year, month - 1, day).toLocaleDateString()
+  }
+  return value
+}
+
+// "Name: value" per attribute with a value, in the order of the definitions, e.g. for tooltips
+export function describeAttributes(definitions: AttributeDefinition[], values: AttributeValues | undefined): string[] {
+  if (!values) return []
+  return definitions
+    .filter(definition => values[definition.id] !== undefined)
+    .map(definition => `${definition.name}: ${formatAttributeValue(definition, values[definition.id])}`)
+}
+
+// Values with empty ones, those of unknown attributes and those that don't fit their
+// attribute left out. Undefined if none are left, so items don't get an empty object.
+export function cleanAttributeValues(values: AttributeValues | undefined, definitions: AttributeDefinition[]): AttributeValues | undefined {
+  if (!values) return undefined
+  const byId = new Map(definitions.map(definition => [definition.id, definition]))
+  const entries = Object.entries(values).filter(([id, value]) => {
+    const definition = byId.get(id)
+    return definition !== undefined && value !== '' && validateAttributeValue(definition, value) === null
+  })
+  return entries.length > 0 ? Object.fromEntries(entries) : undefined
+}
+
+// Stages or flows with their values cleaned up after the definitions changed.
+// Items that keep all their values are returned as they are.
+export function cleanItemAttributes<T extends { attributes?: AttributeValues }>(items: T[], definitions: AttributeDefinition[]): T[] {
+  return items.map(item => {
+    if (!item.attributes) return item
+    const attributes = cleanAttributeValues(item.attributes, definitions)
+    if (attributes && Object.keys(attributes).length === Object.keys(item.attributes).length) return item
+    const next = { ...item }
+    if (attributes) {
+      next.attributes = attributes
+    } else {
+      delete next.attributes
+    }
+    return next
+  })
+}
+
+// Problems with the values of one stage or flow, in the order of the definitions
+export function validateAttributeValues(definitions: AttributeDefinition[], values: AttributeValues | undefined): string[] {
+  return definitions
+    .map(definition => validateAttributeValue(definition, values?.[definition.id] ?? ''))
+    .filter((problem): problem is string => problem !== null)
+}
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { Stage, Flow } from '../types'
+import { autoLayout, computeDepths } from './autoLayout'
+
+const edge = (source: string, target: string) => ({ source, target })
+
+const stage = (id: string, extra: Partial<Stage> = {}): Stage => ({ id, name: id, position: 0, ...extra })
+
+const flow = (fromStageId: string, toStageId: string, value = 10): Flow => ({
+  id: `${fromStageId}-${toStageId}`,
+  name: `${fromStageId} → ${toStageId}`,
+  fromStageId,
+  toStageId,
+  value,
+})
+
+const options = { stageHeight: () => 40, centerY: 300, gap: 20 }
+
+// Vertical extent of every stage in the given list
+const extents = (stages: Stage[]) =>
+  stages.map(s => ({ id: s.id, top: (s.yPosition as number) - 20, bottom: (s.yPosition as number) + 20 }))
+
+describe('computeDepths', () => {
+  it('places every node one column after its deepest predecessor', () => {
+    const { depth, cyclic } = computeDepths(['a', 'b', 'c', 'd'], [edge('a', 'b'), edge('b', 'c'), edge('a', 'c'), edge('c', 'd')])
+    expect(Object.fromEntries(depth)).toEqual({ a: 0, b: 1, c: 2, d: 3 })
+    expect(cyclic).toEqual([])
+  })
+
+  it('breaks a cycle open after the stages leading into it and reports it', () => {
+    const { depth, cyclic } = computeDepths(['a', 'b', 'c'], [edge('a', 'b'), edge('b', 'c'), edge('c', 'b')])
+    expect(Object.fromEntries(depth)).toEqual({ a: 0, b: 1, c: 2 })
+    expect(cyclic).toEqual(['b'])
+  })
+
+  it('gives every node a depth when there is no starting node', () => {
+    const { depth, cyclic } = computeDepths(['a', 'b'], [edge('a', 'b'), edge('b', 'a')])
+    expect(Object.fromEntries(depth)).toEqual({ a: 0, b: 1 })
+    expect(cyclic).toEqual(['a'])
+  })
+
+  it('puts unconnected nodes in the first column', () => {
+    const { depth } = computeDepths(['a', 'b'], [])
+    expect(Object.fromEntries(depth)).toEqual({ a: 0, b: 0 })
+  })
+})
+
+describe('autoLayout', () => {
+  it('spreads columns evenly from 0% to 100%', () => {
+    const stages = autoLayout([stage('a'), stage('b'), stage('c')], [flow('a', 'b'), flow('b', 'c')], options)
+    expect(stages.map(s => s.position)).toEqual([0, 50, 100])
+  })
+
+  it('stacks stages in a column without overlapping', () => {
+    const stages = autoLayout(
+      [stage('a'), stage('b'), stage('c'), stage('d')],
+      [flow('a', 'b'), flow('a', 'c'), flow('a', 'd')],
+      options
+    )
+    const column = extents(stages.filter(s => s.position === 100)).sort((x, y) => x.top - y.top)
+    expect(column).toHaveLength(3)
+    for (let i = 1; i < column.length; i++) {
+      expect(column[i].top).toBeGreaterThanOrEqual(column[i - 1].bottom + options.gap)
+    }
+  })
+
+  it('orders a column so flows don\'t cross', () => {
+    // x starts above y, but its flow comes from the lower stage
+    const stages = autoLayout(
+      [stage('a', { yPosition: 100 }), stage('b', { yPosition: 500 }), stage('x', { yPosition: 100 }), stage('y', { yPosition: 500 })],
+      [flow('a', 'y'), flow('b', 'x')],
+      options
+    )
+    const y = Object.fromEntries(stages.map(s => [s.id, s.yPosition as number]))
+    expect(Math.sign(y.x - y.y)).toBe(Math.sign(y.b - y.a))
+  })
+
+  it('leaves pinned stages where they are and stacks the others around them', () => {
+    const pinned = stage('p', { position: 100, yPosition: 300, pinned: true })
+    const stages = autoLayout([stage('a'), stage('b'), pinned], [flow('a', 'b'), flow('a', 'p')], options)
+    expect(stages[2]).toBe(pinned)
+    const [b, p] = extents([stages[1], stages[2]])
+    expect(b.bottom + options.gap <= p.top || b.top >= p.bottom + options.gap).toBe(true)
+  })
+
+  it('copes with columns that only hold pinned stages', () => {
+    const pinned = stage('b', { position: 50, yPosition: 120, pinned: true })
+    const stages = autoLayout([stage('a'), pinned, stage('c')], [flow('a', 'b'), flow('b', 'c')], options)
+    expect(stages[1]).toBe(pinned)
+    expect(stages.map(s => s.position)).toEqual([0, 50, 100])
+    expect(stages.every(s => Number.isFinite(s.yPosition))).toBe(true)
+  })
+
+  it('lays out diagrams with cycles and without stages', () => {
+    const stages = autoLayout([stage('a'), stage('b')], [flow('a', 'b'), flow('b', 'a')], options)
+    expect(stages.map(s => s.position)).toEqual([0, 100])
+    expect(autoLayout([], [], options)).toEqual([])
+  })
+})
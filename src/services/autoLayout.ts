@@ -0,0 +1,187 @@
+// Automatic Sankey layout
+//
+// Stages get a column from their depth in the graph, spread evenly from 0% to 100%.
+// Within a column they are ordered by the weighted average height of the stages they
+// exchange flows with (the barycenter heuristic), sweeping left to right and back a few
+// times so flows cross as little as possible, and then stacked so they don't overlap.
+// Pinned stages keep their place; the others are stacked around them.
+import { Stage, Flow } from '../types'
+
+export interface LayoutOptions {
+  // Drawn height of a stage in canvas pixels
+  stageHeight: (stageId: string) => number
+  // Height columns are centered on when nothing pulls them elsewhere
+  centerY: number
+  // Space between stacked stages
+  gap?: number
+}
+
+const DEFAULT_GAP = 60
+const SWEEPS = 4
+// Pinned stages this close to a column (in %) take up room in it
+const COLUMN_TOLERANCE = 1
+
+// Depth of every node: 0 for nodes without incoming edges, otherwise one more than the
+// deepest predecessor. Nodes in cycles are placed after the predecessors that could be
+// resolved; the names of such nodes are returned so they can be reported.
+export function computeDepths(nodes: string[], edges: Array<{ source: string; target: string }>) {
+  const incoming = new Map<string, number>(nodes.map(n => [n, 0]))
+  const outgoing = new Map<string, string[]>(nodes.map(n => [n, []]))
+  for (const { source, target } of edges) {
+    incoming.set(target, (incoming.get(target) ?? 0) + 1)
+    outgoing.get(source)?.push(target)
+  }
+
+  const depth = new Map<string, number>()
+  const remaining = new Map(incoming)
+  const cyclic: string[] = []
+  const queue = nodes.filter(n => remaining.get(n) === 0)
+  nodes.forEach(n => { if (remaining.get(n) === 0) depth.set(n, 0) })
+
+  const visit = (node: string) => {
+    for (const next of outgoing.get(node) ?? []) {
+      // Edges back into an already placed stage close a cycle - they don't move it
+      if (resolved.has(next)) continue
+      depth.set(next, Math.max(depth.get(next) ?? 0, (depth.get(node) ?? 0) + 1))
+      const left = (remaining.get(next) ?? 0) - 1
+      remaining.set(next, left)
+      if (left === 0) queue.push(next)
+    }
+  }
+
+  const resolved = new Set<string>()
+  for (;;) {
+    while (queue.length > 0) {
+      const node = queue.shift() as string
+      if (resolved.has(node)) continue
+      resolved.add(node)
+      visit(node)
+    }
+    // Only cycles are left - break one open, preferring a node reached from placed stages
+    const stuck = nodes.find(n => !resolved.has(n) && depth.has(n)) ?? nodes.find(n => !resolved.has(n))
+    if (!stuck) break
+    cyclic.push(stuck)
+    if (!depth.has(stuck)) depth.set(stuck, 0)
+    remaining.set(stuck, 0)
+    queue.push(stuck)
+  }
+
+  return { depth, cyclic }
+}
+
+interface Neighbor {
+  id: string
+  weight: number
+}
+
+// New position and yPosition for every stage that isn't pinned. Stages are returned
+// in the order they were passed in.
+export function autoLayout(stages: Stage[], flows: Flow[], options: LayoutOptions): Stage[] {
+  const { stageHeight, centerY, gap = DEFAULT_GAP } = options
+  const ids = stages.map(stage => stage.id)
+  const known = new Set(ids)
+  const links = flows.filter(f => known.has(f.fromStageId) && known.has(f.toStageId) && f.fromStageId !== f.toStageId)
+  const { depth } = computeDepths(ids, links.map(f => ({ source: f.fromStageId, target: f.toStageId })))
+
+  // Flows on either side of each stage, weighted by value so big bands pull harder
+  const predecessors = new Map<string, Neighbor[]>(ids.map(id => [id, []]))
+  const successors = new Map<string, Neighbor[]>(ids.map(id => [id, []]))
+  for (const flow of links) {
+    const weight = Math.max(flow.value, 0.01)
+    predecessors.get(flow.toStageId)?.push({ id: flow.fromStageId, weight })
+    successors.get(flow.fromStageId)?.push({ id: flow.toStageId, weight })
+  }
+
+  const maxDepth = Math.max(0, ...depth.values())
+  const columnPosition = (d: number) => (maxDepth > 0 ? Math.round((d / maxDepth) * 1000) / 10 : 0)
+  const heights = new Map(ids.map(id => [id, stageHeight(id)]))
+  // Vertical centers, starting from where the stages are now
+  const y = new Map(stages.map(stage => [stage.id, stage.yPosition ?? centerY]))
+
+  const pinned = stages.filter(stage => stage.pinned)
+  const columns: Array<{ position: number; movable: string[]; blocked: Array<{ top: number; bottom: number }> }> = []
+  for (let d = 0; d <= maxDepth; d++) {
+    const position = columnPosition(d)
+    columns.push({
+      position,
+      movable: stages
+        .filter(stage => !stage.pinned && (depth.get(stage.id) ?? 0) === d)
+        .sort((a, b) => (y.get(a.id) as number) - (y.get(b.id) as number))
+        .map(stage => stage.id),
+      blocked: pinned
+        .filter(stage => Math.abs(stage.position - position) <= COLUMN_TOLERANCE)
+        .map(stage => {
+          const half = (heights.get(stage.id) as number) / 2
+          const center = stage.yPosition ?? centerY
+          return { top: center - half - gap, bottom: center + half + gap }
+        })
+        .sort((a, b) => a.top - b.top),
+    })
+  }
+
+  const barycenter = (id: string, neighbors: Neighbor[]) => {
+    const total = neighbors.reduce((sum, n) => sum + n.weight, 0)
+    if (total === 0) return y.get(id) as number
+    return neighbors.reduce((sum, n) => sum + (y.get(n.id) as number) * n.weight, 0) / total
+  }
+
+  // Stack a column in order, each stage as close to where it wants to be as it can get
+  const placeColumn = (column: typeof columns[number], wanted: Map<string, number>) => {
+    const order = [...column.movable].sort((a, b) => (wanted.get(a) as number) - (wanted.get(b) as number))
+    const tops: number[] = []
+    let cursor = -Infinity
+    for (const id of order) {
+      const height = heights.get(id) as number
+      const wantedTop = (wanted.get(id) as number) - height / 2
+      const overlaps = (at: number) => column.blocked.some(block => at < block.bottom && at + height > block.top)
+      let top = Math.max(wantedTop, cursor)
+      // Move out of the way of pinned stages, above or below whichever is closer
+      for (const block of column.blocked) {
+        if (top < block.bottom && top + height > block.top) {
+          const above = block.top - height
+          const fitsAbove = above >= cursor && !overlaps(above)
+          top = fitsAbove && Math.abs(above - wantedTop) < Math.abs(block.bottom - wantedTop) ? above : block.bottom
+        }
+      }
+      tops.push(top)
+      cursor = top + height + gap
+    }
+    // Pushing down only drifts the column; without pinned stages, center it on where it wanted to be
+    if (column.blocked.length === 0 && order.length > 0) {
+      const drift = order.reduce((sum, id, index) => sum + tops[index] + (heights.get(id) as number) / 2 - (wanted.get(id) as number), 0) / order.length
+      tops.forEach((_, index) => { tops[index] -= drift })
+    }
+    order.forEach((id, index) => y.set(id, tops[index] + (heights.get(id) as number) / 2))
+    column.movable = order
+  }
+
+  // Start from evenly stacked columns in the current top-to-bottom order
+  for (const column of columns) {
+    const total = column.movable.reduce((sum, id) => sum + (heights.get(id) as number), 0) + gap * (column.movable.length - 1)
+    let top = centerY - total / 2
+    const wanted = new Map<string, number>()
+    for (const id of column.movable) {
+      wanted.set(id, top + (heights.get(id) as number) / 2)
+      top += (heights.get(id) as number) + gap
+    }
+    placeColumn(column, wanted)
+  }
+
+  for (let sweep = 0; sweep < SWEEPS; sweep++) {
+    for (const column of columns.slice(1)) {
+      placeColumn(column, new Map(column.movable.map(id => [id, barycenter(id, predecessors.get(id) ?? [])])))
+    }
+    for (const column of [...columns].reverse().slice(1)) {
+      placeColumn(column, new Map(column.movable.map(id => [id, barycenter(id, successors.get(id) ?? [])])))
+    }
+  }
+
+  return stages.map(stage => {
+    if (stage.pinned) return stage
+    return {
+      ...stage,
+      position: columnPosition(depth.get(stage.id) ?? 0),
+      yPosition: Math.round(y.get(stage.id) as number),
+    }
+  })
+}
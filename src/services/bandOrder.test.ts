@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import { Stage, Flow } from '../types'
+import { orderBands, reorderFlows, reorderIncomingFlows } from './bandOrder'
+
+const stage = (id: string, yPosition: number, extra: Partial<Stage> = {}): Stage => ({ id, name: id, position: 0, yPosition, ...extra })
+
+const flow = (id: string, fromStageId: string, toStageId: string, extra: Partial<Flow> = {}): Flow => ({
+  id,
+  name: id,
+  fromStageId,
+  toStageId,
+  value: 10,
+  ...extra,
+})
+
+const getY = (stage: Stage) => stage.yPosition ?? 0
+const ids = (flows: Flow[] | undefined) => (flows ?? []).map(flow => flow.id)
+
+// s fans out to a low, a middle and a high stage; t collects from the same three
+const stages = [stage('s', 200), stage('low', 300), stage('mid', 200), stage('high', 100), stage('t', 200)]
+const flows = [
+  flow('to-low', 's', 'low', { branchIndex: 0 }),
+  flow('to-mid', 's', 'mid', { branchIndex: 1 }),
+  flow('to-high', 's', 'high', { branchIndex: 2 }),
+  flow('from-low', 'low', 't'),
+  flow('from-high', 'high', 't'),
+  flow('from-mid', 'mid', 't'),
+]
+
+describe('orderBands', () => {
+  it('stacks bands by the height of the stage at their other end', () => {
+    const { outgoing, incoming } = orderBands(stages, flows, getY)
+    expect(ids(outgoing.get('s'))).toEqual(['to-high', 'to-mid', 'to-low'])
+    expect(ids(incoming.get('t'))).toEqual(['from-high', 'from-mid', 'from-low'])
+    expect(outgoing.get('t')).toEqual([])
+  })
+
+  it('breaks ties by branchIndex', () => {
+    const level = [stage('s', 0), stage('a', 100), stage('b', 100)]
+    const { outgoing } = orderBands(level, [flow('x', 's', 'a', { branchIndex: 1 }), flow('y', 's', 'b', { branchIndex: 0 })], getY)
+    expect(ids(outgoing.get('s'))).toEqual(['y', 'x'])
+  })
+
+  it('keeps outgoing bands dragged into order in their branchIndex', () => {
+    const manual = stages.map(s => (s.id === 's' ? { ...s, manualBandOrder: true } : s))
+    expect(ids(orderBands(manual, flows, getY).outgoing.get('s'))).toEqual(['to-low', 'to-mid', 'to-high'])
+  })
+
+  it('keeps incoming bands dragged into order in their targetIndex, new ones last', () => {
+    const manual = stages.map(s => (s.id === 't' ? { ...s, manualIncomingBandOrder: true } : s))
+    const ordered = flows.map(f =>
+      f.id === 'from-low' ? { ...f, targetIndex: 0 } : f.id === 'from-mid' ? { ...f, targetIndex: 1 } : f
+    )
+    expect(ids(orderBands(manual, ordered, getY).incoming.get('t'))).toEqual(['from-low', 'from-mid', 'from-high'])
+  })
+
+  it('leaves the flows passed in alone', () => {
+    const before = ids(flows)
+    orderBands(stages, flows, getY)
+    expect(ids(flows)).toEqual(before)
+  })
+})
+
+describe('reorderFlows', () => {
+  it('numbers branchIndex in the given order and leaves other flows as they are', () => {
+    const reordered = reorderFlows(flows, ['to-high', 'to-low', 'to-mid'])
+    expect(reordered.slice(0, 3).map(f => f.branchIndex)).toEqual([1, 2, 0])
+    expect(reordered[3]).toBe(flows[3])
+  })
+})
+
+describe('reorderIncomingFlows', () => {
+  it('numbers targetIndex in the given order', () => {
+    const reordered = reorderIncomingFlows(flows, ['from-mid', 'from-low', 'from-high'])
+    expect(reordered.slice(3).map(f => f.targetIndex)).toEqual([1, 2, 0])
+    expect(reordered[0]).toBe(flows[0])
+  })
+})
@@ -0,0 +1,61 @@
+// Order in which flow bands attach to a stage
+//
+// Bands leaving a stage are stacked top to bottom by the height of the stage they go to,
+// and bands entering a stage by the height of the stage they come from, so bands don't
+// twist across each other. Bands the user dragged into order on the marker keep that
+// order: outgoing ones (Stage.manualBandOrder) in the flows' branchIndex, incoming ones
+// (Stage.manualIncomingBandOrder) in their targetIndex.
+import { Stage, Flow } from '../types'
+
+type StageY = (stage: Stage) => number
+
+const byBranchIndex = (a: Flow, b: Flow) => (a.branchIndex ?? 0) - (b.branchIndex ?? 0)
+// Flows added after the bands were dragged have no targetIndex yet and go last
+const byTargetIndex = (a: Flow, b: Flow) =>
+  (a.targetIndex ?? Number.MAX_SAFE_INTEGER) - (b.targetIndex ?? Number.MAX_SAFE_INTEGER)
+
+// Bands at each stage by stage id, in attach order from the top
+export interface BandOrder {
+  outgoing: Map<string, Flow[]>
+  incoming: Map<string, Flow[]>
+}
+
+// Order the bands at every stage at once, so a render sorts each stage's bands only once
+export function orderBands(stages: Stage[], flows: Flow[], getY: StageY): BandOrder {
+  // Y position of each stage by id, for sorting bands by their other end
+  const positions = new Map(stages.map(stage => [stage.id, getY(stage)]))
+  const yOf = (stageId: string) => positions.get(stageId) ?? 0
+  const byHeight = (end: 'fromStageId' | 'toStageId') => (a: Flow, b: Flow) =>
+    yOf(a[end]) - yOf(b[end]) || byBranchIndex(a, b)
+
+  const outgoing = new Map<string, Flow[]>(stages.map(stage => [stage.id, []]))
+  const incoming = new Map<string, Flow[]>(stages.map(stage => [stage.id, []]))
+  for (const flow of flows) {
+    outgoing.get(flow.fromStageId)?.push(flow)
+    incoming.get(flow.toStageId)?.push(flow)
+  }
+
+  for (const stage of stages) {
+    outgoing.get(stage.id)?.sort(stage.manualBandOrder ? byBranchIndex : byHeight('toStageId'))
+    incoming.get(stage.id)?.sort(stage.manualIncomingBandOrder
+      ? (a, b) => byTargetIndex(a, b) || byHeight('fromStageId')(a, b)
+      : byHeight('fromStageId'))
+  }
+  return { outgoing, incoming }
+}
+
+// Number the given bands' branchIndex in the given order, from 0
+export function reorderFlows(flows: Flow[], orderedIds: string[]): Flow[] {
+  return flows.map(flow => {
+    const index = orderedIds.indexOf(flow.id)
+    return index === -1 || flow.branchIndex === index ? flow : { ...flow, branchIndex: index }
+  })
+}
+
+// Number the given bands' targetIndex in the given order, from 0
+export function reorderIncomingFlows(flows: Flow[], orderedIds: string[]): Flow[] {
+  return flows.map(flow => {
+    const index = orderedIds.indexOf(flow.id)
+    return index === -1 || flow.targetIndex === index ? flow : { ...flow, targetIndex: index }
+  })
+}
@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest'
+import { parseCsvRows, parseEdgeListCsv } from './csvImport'
+
+describe('parseCsvRows', () => {
+  it('handles quoted commas, escaped quotes and line breaks', () => {
+    const rows = parseCsvRows('"a, b","say ""hi""",1\n"two\nlines",c,2\r\n')
+    expect(rows).toEqual([
+      { line: 1, fields: ['a, b', 'say "hi"', '1'] },
+      { line: 2, fields: ['two\nlines', 'c', '2'] },
+    ])
+  })
+
+  it('skips blank lines but keeps counting them', () => {
+    expect(parseCsvRows('\na,b,1\n\nb,c,2').map(row => row.line)).toEqual([2, 4])
+  })
+
+  it('marks a row whose quote is never closed', () => {
+    const rows = parseCsvRows('a,b,1\nb,"c,2\nc,d,3\n')
+    expect(rows[1]).toMatchObject({ line: 2, unclosedQuoteLine: 2 })
+    expect(rows).toHaveLength(2)
+  })
+})
+
+describe('parseEdgeListCsv', () => {
+  it('builds a stage per name and a flow per row, scaled so the roots send out 100', () => {
+    const result = parseEdgeListCsv('a,b,30\na,c,20\nb,d,30\n')
+    expect(result.stages.map(s => s.name)).toEqual(['a', 'b', 'c', 'd'])
+    expect(result.stages.map(s => s.position)).toEqual([0, 50, 50, 100])
+    expect(result.flows.map(f => f.value)).toEqual([60, 40, 60])
+    expect(result.flows.map(f => f.branchIndex)).toEqual([0, 1, 0])
+    expect(result.scale).toBe(2)
+    expect(result.errors).toEqual([])
+  })
+
+  it('skips a header row, also after blank lines', () => {
+    expect(parseEdgeListCsv('source,target,value\na,b,1').headerSkipped).toBe(true)
+    const result = parseEdgeListCsv('\n\nsource,target,value\na,b,1')
+    expect(result.headerSkipped).toBe(true)
+    expect(result.errors).toEqual([])
+    expect(result.flows).toHaveLength(1)
+  })
+
+  it('reports skipped rows with their line numbers', () => {
+    const result = parseEdgeListCsv('a,b,1\n\na,b\n,b,1\na,,1\na,a,1\na,b,x\na,b,-1\na,b,1,extra\na,b,1,,\n')
+    expect(result.errors).toEqual([
+      { line: 3, message: 'expected 3 columns (source,target,value) but found 2' },
+      { line: 4, message: 'source is empty' },
+      { line: 5, message: 'target is empty' },
+      { line: 6, message: '"a" flows into itself' },
+      { line: 7, message: 'value "x" is not a number' },
+      { line: 8, message: 'value -1 is negative' },
+      { line: 9, message: 'expected 3 columns (source,target,value) but found 4' },
+    ])
+    expect(result.flows).toHaveLength(2)
+  })
+
+  it('reports a quote that is never closed', () => {
+    const result = parseEdgeListCsv('a,b,1\n"b,c,2\nc,d,3\n')
+    expect(result.errors).toEqual([{ line: 2, message: 'quote opened on line 2 is never closed' }])
+    expect(result.flows).toHaveLength(1)
+  })
+
+  it('warns about cycles', () => {
+    const result = parseEdgeListCsv('a,b,1\nb,c,1\nc,b,1')
+    expect(result.warnings.some(w => w.includes('cycles'))).toBe(true)
+  })
+
+  it('stacks the stages of a column without overlapping', () => {
+    const { stages } = parseEdgeListCsv('a,b,50\na,c,50')
+    const [b, c] = stages.slice(1).map(s => s.yPosition as number)
+    // 50 units at 8px each, plus the gap between stages
+    expect(c - b).toBe(50 * 8 + 60)
+  })
+})
@@ -0,0 +1,237 @@
+// Build a diagram from a CSV edge list of `source,target,value` rows
+//
+// Every distinct source/target name becomes a stage and every row becomes a flow.
+// Stages are placed left to right by their depth in the graph, and flow values are
+// scaled so the root stages send out 100 in total, matching how the canvas treats values.
+import { Stage, Flow } from '../types'
+import { computeDepths } from './autoLayout'
+
+export interface CsvRowError {
+  line: number
+  message: string
+}
+
+export interface CsvImportResult {
+  stages: Stage[]
+  flows: Flow[]
+  // Rows that were skipped, with their 1-based line numbers
+  errors: CsvRowError[]
+  // Things that were imported but may not look as expected
+  warnings: string[]
+  headerSkipped: boolean
+  // Factor the values in the file were multiplied by
+  scale: number
+}
+
+// Total value the root stages send out after scaling
+const ROOT_TOTAL = 100
+
+// Vertical layout, in canvas pixels. The canvas draws 8px per unit of flow value.
+const LAYOUT_CENTER_Y = 400
+const PIXELS_PER_VALUE = 8
+const STAGE_GAP = 60
+
+export interface CsvRow {
+  // 1-based line the row starts on
+  line: number
+  fields: string[]
+  // Line of a quote that is never closed. It swallows the rest of the text into this row.
+  unclosedQuoteLine?: number
+}
+
+// Split CSV text into rows of fields, handling quoted fields with commas,
+// escaped quotes ("") and line breaks. Returns each row with its starting line number.
+export function parseCsvRows(text: string): CsvRow[] {
+  const rows: CsvRow[] = []
+  let fields: string[] = []
+  let field = ''
+  let inQuotes = false
+  let quoteLine = 1
+  let line = 1
+  let rowLine = 1
+
+  const endRow = () => {
+    fields.push(field)
+    // Skip blank lines
+    if (fields.length > 1 || fields[0].trim() !== '') {
+      rows.push({ line: rowLine, fields })
+    }
+    fields = []
+    field = ''
+  }
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        inQuotes = false
+      } else {
+        if (char === '\n') line++
+        field += char
+      }
+    } else if (char === '"') {
+      inQuotes = true
+      quoteLine = line
+    } else if (char === ',') {
+      fields.push(field)
+      field = ''
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++
+      endRow()
+      line++
+      rowLine = line
+    } else {
+      field += char
+    }
+  }
+  if (inQuotes) {
+    fields.push(field)
+    rows.push({ line: rowLine, fields, unclosedQuoteLine: quoteLine })
+  } else if (field !== '' || fields.length > 0) {
+    endRow()
+  }
+
+  return rows
+}
+
+const parseValue = (text: string): number | null => {
+  const trimmed = text.trim()
+  if (trimmed === '') return null
+  const value = Number(trimmed)
+  return Number.isFinite(value) ? value : null
+}
+
+export function parseEdgeListCsv(text: string): CsvImportResult {
+  const errors: CsvRowError[] = []
+  const warnings: string[] = []
+  const rows = parseCsvRows(text.replace(/^\uFEFF/, ''))
+
+  // A first non-blank row whose value column isn't a number is a header like "source,target,value"
+  let headerSkipped = false
+  if (rows.length > 0 && !rows[0].unclosedQuoteLine && rows[0].fields.length >= 3 && parseValue(rows[0].fields[2]) === null) {
+    rows.shift()
+    headerSkipped = true
+  }
+
+  const edges: Array<{ line: number; source: string; target: string; value: number }> = []
+  for (const { line, fields, unclosedQuoteLine } of rows) {
+    if (unclosedQuoteLine) {
+      errors.push({ line, message: `quote opened on line ${unclosedQuoteLine} is never closed` })
+      continue
+    }
+    const [source = '', target = '', valueText = '', ...extra] = fields.map(f => f.trim())
+    // Trailing empty columns are common in spreadsheet exports
+    if (fields.length < 3 || extra.some(f => f !== '')) {
+      errors.push({ line, message: `expected 3 columns (source,target,value) but found ${fields.length}` })
+      continue
+    }
+    if (source === '') {
+      errors.push({ line, message: 'source is empty' })
+      continue
+    }
+    if (target === '') {
+      errors.push({ line, message: 'target is empty' })
+      continue
+    }
+    if (source === target) {
+      errors.push({ line, message: `"${source}" flows into itself` })
+      continue
+    }
+    const value = parseValue(valueText)
+    if (value === null) {
+      errors.push({ line, message: `value "${valueText}" is not a number` })
+      continue
+    }
+    if (value < 0) {
+      errors.push({ line, message: `value ${value} is negative` })
+      continue
+    }
+    edges.push({ line, source, target, value })
+  }
+
+  // Stages in order of first appearance
+  const names: string[] = []
+  const seen = new Set<string>()
+  for (const { source, target } of edges) {
+    for (const name of [source, target]) {
+      if (!seen.has(name)) {
+        seen.add(name)
+        names.push(name)
+      }
+    }
+  }
+
+  const { depth, cyclic } = computeDepths(names, edges)
+  if (cyclic.length > 0) {
+    warnings.push(`The data contains cycles. Flows into ${cyclic.map(n => `"${n}"`).join(', ')} point backwards.`)
+  }
+
+  // Scale values so the root stages send out ROOT_TOTAL in total
+  const rootTotal = edges.filter(e => depth.get(e.source) === 0).reduce((sum, e) => sum + e.value, 0)
+  const scale = rootTotal > 0 ? ROOT_TOTAL / rootTotal : 1
+  const round = (value: number) => Math.round(value * 100) / 100
+
+  const stageIds = new Map(names.map((name, index) => [name, `stage-${index + 1}`]))
+  const branchCounts = new Map<string, number>()
+  const flows: Flow[] = edges.map((edge, index) => {
+    const branchIndex = branchCounts.get(edge.source) ?? 0
+    branchCounts.set(edge.source, branchIndex + 1)
+    return {
+      id: `flow-${index + 1}`,
+      name: `${edge.source} → ${edge.target}`,
+      fromStageId: stageIds.get(edge.source) as string,
+      toStageId: stageIds.get(edge.target) as string,
+      value: round(edge.value * scale),
+      branchIndex,
+    }
+  })
+
+  // Throughput decides how tall a stage is drawn, and so how far apart to stack them
+  const throughput = new Map<string, number>()
+  for (const flow of flows) {
+    throughput.set(flow.fromStageId, (throughput.get(flow.fromStageId) ?? 0) + flow.value)
+  }
+  const incoming = new Map<string, number>()
+  for (const flow of flows) {
+    incoming.set(flow.toStageId, (incoming.get(flow.toStageId) ?? 0) + flow.value)
+  }
+  const stageHeight = (id: string) =>
+    Math.max(incoming.get(id) ?? 0, throughput.get(id) ?? 0) * PIXELS_PER_VALUE
+
+  // Columns by depth, each stacked evenly in the order stages first appear in the file.
+  // Auto layout on the canvas can untangle crossing flows afterwards.
+  const maxDepth = Math.max(0, ...depth.values())
+  const columns = new Map<number, string[]>()
+  for (const name of names) {
+    const d = depth.get(name) ?? 0
+    columns.set(d, [...(columns.get(d) ?? []), name])
+  }
+
+  const stages: Stage[] = []
+  for (const [d, column] of columns) {
+    const position = maxDepth > 0 ? Math.round((d / maxDepth) * 1000) / 10 : 0
+    const heights = column.map(name => stageHeight(stageIds.get(name) as string))
+    const totalHeight = heights.reduce((sum, h) => sum + h, 0) + STAGE_GAP * (column.length - 1)
+    let top = LAYOUT_CENTER_Y - totalHeight / 2
+    column.forEach((name, index) => {
+      stages.push({
+        id: stageIds.get(name) as string,
+        name,
+        position,
+        yPosition: Math.round(top + heights[index] / 2),
+      })
+      top += heights[index] + STAGE_GAP
+    })
+  }
+  // Keep the order stages first appeared in the file
+  stages.sort((a, b) => names.indexOf(a.name) - names.indexOf(b.name))
+
+  if (scale !== 1 && edges.length > 0) {
+    warnings.push(`Values were scaled by ${round(scale)} so the starting stages total ${ROOT_TOTAL}.`)
+  }
+
+  return { stages, flows, errors, warnings, headerSkipped, scale }
+}
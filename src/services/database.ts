@@ -1,3 +1,9 @@
+import { Stage, Flow, Diagram, Snapshot, SnapshotSummary, AttributeDefinition, AttributeValues, DiagramSettings, Section } from '../types'
+import { runMigrations, getSchemaVersion, hasColumn, LATEST_SCHEMA_VERSION } from './migrations'
+import { encryptBytesIfEnabled, decryptBytesIfEncrypted } from './encryption'
+import { serializePeriodValues } from './periods'
+import { serializeSettings } from './amounts'
+
 // Lazy load sql.js to avoid blocking app startup
 let initSqlJs: any = null
 let Database: any = null
@@ -101,15 +107,18 @@ export async function initDatabase(): Promise<void> {
     // Store Database class for later use
     Database = DatabaseClass
 
-    // Try to load existing database from IndexedDB
-    const savedDb = await loadDatabaseFromIndexedDB()
+    // Try to load existing database from IndexedDB. Decryption errors are not caught:
+    // starting with an empty database would overwrite the encrypted one on the next save.
+    const storedDb = await loadDatabaseFromIndexedDB()
+    const savedDb = storedDb && await decryptBytesIfEncrypted(storedDb)
     
-    if (savedDb) {
-      db = new DatabaseClass(savedDb)
-    } else {
-      // Create new database
-      db = new DatabaseClass()
-      await createSchema()
+    // Open the saved database, or create a new one
+    db = savedDb ? new DatabaseClass(savedDb) : new DatabaseClass()
+
+    // Bring the schema up to date. If a migration fails this throws before anything
+    // is written, so the copy saved in IndexedDB stays untouched.
+    const appliedMigrations = runMigrations(db)
+    if (appliedMigrations > 0 || !savedDb) {
       await saveDatabaseToIndexedDB()
     }
 
@@ -117,67 +126,19 @@ export async function initDatabase(): Promise<void> {
     console.log('Database initialized successfully')
   } catch (error) {
     console.error('Failed to initialize database:', error)
+    db = null
     throw error
   }
 }
 
-// Create database schema
-async function createSchema(): Promise<void> {
-  if (!db) throw new Error('Database not initialized')
-
-  // Create stages table
-  db.run(`
-    CREATE TABLE IF NOT EXISTS stages (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      position REAL NOT NULL,
-      yPosition REAL,
-      color TEXT,
-      description TEXT
-    )
-  `)
-  
-  // Migrate existing tables to add description column if it doesn't exist
-  try {
-    // Check if description column exists by trying to query it
-    db.exec('SELECT description FROM stages LIMIT 1')
-  } catch {
-    // Column doesn't exist, add it
-    try {
-      db.run('ALTER TABLE stages ADD COLUMN description TEXT')
-    } catch (e) {
-      // Column might already exist or table might not exist yet
-      console.log('Migration: description column may already exist or table is new')
-    }
-  }
-
-  // Create flows table
-  db.run(`
-    CREATE TABLE IF NOT EXISTS flows (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      fromStageId TEXT NOT NULL,
-      toStageId TEXT NOT NULL,
-      value REAL NOT NULL,
-      branchIndex INTEGER,
-      color TEXT,
-      FOREIGN KEY (fromStageId) REFERENCES stages(id) ON DELETE CASCADE,
-      FOREIGN KEY (toStageId) REFERENCES stages(id) ON DELETE CASCADE
-    )
-  `)
-
-  // Create indexes for better performance
-  db.run(`CREATE INDEX IF NOT EXISTS idx_flows_from ON flows(fromStageId)`)
-  db.run(`CREATE INDEX IF NOT EXISTS idx_flows_to ON flows(toStageId)`)
-}
-
 // Save database to IndexedDB
 async function saveDatabaseToIndexedDB(): Promise<void> {
   if (!db) throw new Error('Database not initialized')
 
   try {
     const data = db.export()
-    const buffer = new Uint8Array(data)
+    // Encrypted when a passphrase is set, see services/encryption.ts
+    const buffer = await encryptBytesIfEnabled(new Uint8Array(data))
     
     return new Promise((resolve, reject) => {
       const request = indexedDB.open('FlowDatabase', 1)
@@ -243,131 +204,356 @@ async function loadDatabaseFromIndexedDB(): Promise<Uint8Array | null> {
   })
 }
 
-// Save all stages to database
-export async function saveStages(stages: Array<{ id: string; name: string; position: number; yPosition?: number; color?: string; description?: string }>): Promise<void> {
+// Replace the open database with the copy in IndexedDB, e.g. after another tab saved.
+// Each tab works on its own in-memory copy, so without this the next save here would
+// write back a stale database over the other tab's changes.
+export async function reloadDatabaseFromIndexedDB(): Promise<void> {
+  if (!db || !Database) return
+
+  const storedDb = await loadDatabaseFromIndexedDB()
+  if (!storedDb) return
+
+  const reloaded = new Database(await decryptBytesIfEncrypted(storedDb))
+  try {
+    // The other tab may run a different version of the app
+    runMigrations(reloaded)
+  } catch (error) {
+    reloaded.close()
+    throw error
+  }
+  const previous = db
+  db = reloaded
+  savedRows.clear()
+  previous.close()
+  console.log('Reloaded database from IndexedDB')
+}
+
+// Write the database to IndexedDB again, e.g. after encryption was turned on or off
+export async function rewriteDatabaseToIndexedDB(): Promise<void> {
+  await ensureDatabase()
+  await saveDatabaseToIndexedDB()
+}
+
+// Make sure the database is ready before reading or writing
+async function ensureDatabase(): Promise<void> {
   // Always try to initialize if not already done
   if (!dbInitialized || !db) {
     try {
       await initDatabase()
     } catch (error) {
-      console.error('Database initialization failed during save:', error)
+      console.error('Database initialization failed:', error)
       throw new Error(`Database initialization failed: ${error}`)
     }
   }
-  
+
   if (!db) {
     console.error('Database not initialized after initDatabase call')
     throw new Error('Database not initialized')
   }
+}
 
-  // Use transaction for atomicity
-  db.run('BEGIN TRANSACTION')
-  
-  try {
-    // Clear existing stages
-    db.run('DELETE FROM stages')
-    
-    // Insert all stages
-    const stmt = db.prepare('INSERT INTO stages (id, name, position, yPosition, color, description) VALUES (?, ?, ?, ?, ?, ?)')
-    
-    for (const stage of stages) {
-      stmt.run([
-        stage.id,
-        stage.name,
-        stage.position,
-        stage.yPosition ?? null,
-        stage.color ?? null,
-        stage.description ?? null,
-      ])
-    }
-    
-    stmt.free()
-    db.run('COMMIT')
-    
-    // Save to IndexedDB
-    try {
-      await saveDatabaseToIndexedDB()
-    } catch (saveError) {
-      console.warn('Failed to persist database to IndexedDB:', saveError)
-      // Don't throw - in-memory DB is still updated
-    }
-  } catch (error) {
-    if (db) {
-      try {
-        db.run('ROLLBACK')
-      } catch (rollbackError) {
-        console.error('Failed to rollback transaction:', rollbackError)
+// Mark a diagram as modified
+function touchDiagram(diagramId: string): void {
+  db.run('UPDATE diagrams SET updatedAt = ? WHERE id = ?', [new Date().toISOString(), diagramId])
+}
+
+// Column values of a stage row, in the order used by INSERT statements (after diagramId and id)
+function stageRow(stage: Stage): unknown[] {
+  return [
+    stage.name,
+    stage.position,
+    stage.yPosition ?? null,
+    stage.color ?? null,
+    stage.description ?? null,
+    stage.pinned ? 1 : null,
+    stage.manualBandOrder ? 1 : null,
+    stage.manualIncomingBandOrder ? 1 : null,
+  ]
+}
+
+// Column values of a flow row, in the order used by INSERT statements (after diagramId and id)
+function flowRow(flow: Flow): unknown[] {
+  return [
+    flow.name,
+    flow.fromStageId,
+    flow.toStageId,
+    flow.value,
+    flow.branchIndex ?? null,
+    flow.color ?? null,
+    serializePeriodValues(flow.periodValues),
+    flow.targetIndex ?? null,
+  ]
+}
+
+// Column values of an attribute definition row (after diagramId)
+function attributeDefinitionRow(definition: AttributeDefinition): unknown[] {
+  return [
+    definition.id,
+    definition.name,
+    definition.type,
+    definition.options ? JSON.stringify(definition.options) : null,
+  ]
+}
+
+// Column values of a section row (after diagramId)
+function sectionRow(section: Section): unknown[] {
+  return [
+    section.id,
+    section.name,
+    section.fromStageId,
+    section.toStageId,
+    section.content ?? null,
+    section.color ?? null,
+  ]
+}
+
+// Comparable form of all sections of a diagram, in order
+function serializeSections(sections: Section[]): string {
+  return JSON.stringify(sections.map(sectionRow))
+}
+
+// Attribute value rows (after diagramId): itemType, itemId, attributeId, value.
+// Values of attributes that aren't defined are left out.
+type AttributeValueRow = [string, string, string, string]
+
+function attributeValueRows(stages: Stage[], flows: Flow[], definitions: AttributeDefinition[]): AttributeValueRow[] {
+  const known = new Set(definitions.map(definition => definition.id))
+  const rows: AttributeValueRow[] = []
+  for (const [itemType, items] of [['stage', stages], ['flow', flows]] as const) {
+    for (const item of items) {
+      for (const [attributeId, value] of Object.entries(item.attributes ?? {})) {
+        if (known.has(attributeId)) rows.push([itemType, item.id, attributeId, value])
       }
     }
-    console.error('Failed to save stages:', error)
-    throw error // Re-throw to let caller know save failed
   }
+  return rows
 }
 
-// Save all flows to database
-export async function saveFlows(flows: Array<{ id: string; name: string; fromStageId: string; toStageId: string; value: number; branchIndex?: number; color?: string }>): Promise<void> {
-  // Always try to initialize if not already done
-  if (!dbInitialized || !db) {
-    try {
-      await initDatabase()
-    } catch (error) {
-      console.error('Database initialization failed during save:', error)
-      throw new Error(`Database initialization failed: ${error}`)
+// Comparable form of all attribute definitions and values of a diagram
+function serializeAttributes(definitions: AttributeDefinition[], values: AttributeValueRow[]): string {
+  return JSON.stringify([definitions.map(attributeDefinitionRow), values.map(row => JSON.stringify(row)).sort()])
+}
+
+// Serialized rows per diagram as they were last loaded or saved, keyed by row id.
+// Used to work out what changed so saves only touch modified rows.
+// Attributes and sections are few, so they are compared and rewritten as a whole.
+interface SavedRows {
+  stages: Map<string, string>
+  flows: Map<string, string>
+  sections: string
+  attributes: string
+  settings: string | null
+}
+
+const savedRows = new Map<string, SavedRows>()
+
+function rememberSavedRows(
+  diagramId: string,
+  stages: Stage[],
+  flows: Flow[],
+  sections: Section[],
+  definitions: AttributeDefinition[],
+  settings: DiagramSettings
+): void {
+  savedRows.set(diagramId, {
+    stages: new Map(stages.map(stage => [stage.id, JSON.stringify(stageRow(stage))])),
+    flows: new Map(flows.map(flow => [flow.id, JSON.stringify(flowRow(flow))])),
+    sections: serializeSections(sections),
+    attributes: serializeAttributes(definitions, attributeValueRows(stages, flows, definitions)),
+    settings: serializeSettings(settings),
+  })
+}
+
+// Rows currently stored for a diagram, read from the database if not cached
+function getSavedRows(diagramId: string): SavedRows {
+  const cached = savedRows.get(diagramId)
+  if (cached) return cached
+
+  const definitions = readAttributeDefinitions(diagramId)
+  const known = new Set(definitions.map(definition => definition.id))
+  const values = readAttributeValueRows(diagramId).filter(row => known.has(row[2]))
+  const rows: SavedRows = {
+    stages: new Map(),
+    flows: new Map(),
+    sections: serializeSections(readSections(diagramId)),
+    attributes: serializeAttributes(definitions, values),
+    settings: serializeSettings(readSettings(diagramId)),
+  }
+  const stageResult = db.exec(
+    'SELECT id, name, position, yPosition, color, description, pinned, manualBandOrder, manualIncomingBandOrder FROM stages WHERE diagramId = ?',
+    [diagramId]
+  )
+  for (const row of stageResult[0]?.values ?? []) {
+    rows.stages.set(row[0] as string, JSON.stringify(row.slice(1)))
+  }
+  const flowResult = db.exec(
+    'SELECT id, name, fromStageId, toStageId, value, branchIndex, color, periodValues, targetIndex FROM flows WHERE diagramId = ?',
+    [diagramId]
+  )
+  for (const row of flowResult[0]?.values ?? []) {
+    rows.flows.set(row[0] as string, JSON.stringify(row.slice(1)))
+  }
+  savedRows.set(diagramId, rows)
+  return rows
+}
+
+function readAttributeDefinitions(diagramId: string): AttributeDefinition[] {
+  const result = db.exec(
+    'SELECT id, name, type, options FROM attribute_definitions WHERE diagramId = ? ORDER BY sortOrder',
+    [diagramId]
+  )
+  return (result[0]?.values ?? []).map((row: any[]) => {
+    const definition: AttributeDefinition = {
+      id: row[0] as string,
+      name: row[1] as string,
+      type: row[2] as AttributeDefinition['type'],
     }
+    if (row[3] !== null) definition.options = JSON.parse(row[3] as string)
+    return definition
+  })
+}
+
+function readSections(diagramId: string): Section[] {
+  const result = db.exec(
+    'SELECT id, name, fromStageId, toStageId, content, color FROM sections WHERE diagramId = ? ORDER BY sortOrder',
+    [diagramId]
+  )
+  if (result.length === 0) return []
+  return result[0].values.map((row: any[]) => {
+    const section: Section = {
+      id: row[0] as string,
+      name: row[1] as string,
+      fromStageId: row[2] as string,
+      toStageId: row[3] as string,
+    }
+    if (row[4] !== null) section.content = row[4] as string
+    if (row[5] !== null) section.color = row[5] as string
+    return section
+  })
+}
+
+// Replace the sections of a diagram. Runs inside the caller's transaction.
+function writeSections(diagramId: string, sections: Section[]): void {
+  db.run('DELETE FROM sections WHERE diagramId = ?', [diagramId])
+  sections.forEach((section, index) => {
+    db.run(
+      'INSERT INTO sections (diagramId, id, name, fromStageId, toStageId, content, color, sortOrder) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [diagramId, ...sectionRow(section), index]
+    )
+  })
+}
+
+function readSettings(diagramId: string): DiagramSettings {
+  const result = db.exec('SELECT settings FROM diagram_settings WHERE diagramId = ?', [diagramId])
+  const row = result[0]?.values[0]
+  return row ? JSON.parse(row[0] as string) : {}
+}
+
+function readAttributeValueRows(diagramId: string): AttributeValueRow[] {
+  const result = db.exec(
+    'SELECT itemType, itemId, attributeId, value FROM attribute_values WHERE diagramId = ?',
+    [diagramId]
+  )
+  return (result[0]?.values ?? []) as AttributeValueRow[]
+}
+
+// Replace the attribute definitions and values of a diagram. Runs inside the caller's transaction.
+function writeAttributes(diagramId: string, definitions: AttributeDefinition[], values: AttributeValueRow[]): void {
+  db.run('DELETE FROM attribute_values WHERE diagramId = ?', [diagramId])
+  db.run('DELETE FROM attribute_definitions WHERE diagramId = ?', [diagramId])
+  definitions.forEach((definition, index) => {
+    db.run(
+      'INSERT INTO attribute_definitions (diagramId, id, name, type, options, sortOrder) VALUES (?, ?, ?, ?, ?, ?)',
+      [diagramId, ...attributeDefinitionRow(definition), index]
+    )
+  })
+  // Duplicate stage or flow ids (see services/integrity.ts) share their values
+  for (const row of values) {
+    db.run('INSERT OR REPLACE INTO attribute_values (diagramId, itemType, itemId, attributeId, value) VALUES (?, ?, ?, ?, ?)', [diagramId, ...row])
   }
-  
-  if (!db) {
-    console.error('Database not initialized after initDatabase call')
-    throw new Error('Database not initialized')
+}
+
+// Work out which rows need to be written or deleted
+function diffRows<T extends { id: string }>(
+  previous: Map<string, string>,
+  next: T[],
+  toRow: (item: T) => unknown[]
+): { upserts: T[]; removedIds: string[] } {
+  const nextIds = new Set(next.map(item => item.id))
+  const upserts = next.filter(item => previous.get(item.id) !== JSON.stringify(toRow(item)))
+  const removedIds = [...previous.keys()].filter(id => !nextIds.has(id))
+  return { upserts, removedIds }
+}
+
+// List all diagrams, oldest first
+export async function listDiagrams(): Promise<Diagram[]> {
+  await ensureDatabase()
+
+  const result = db.exec('SELECT id, name, createdAt, updatedAt FROM diagrams ORDER BY createdAt, name')
+  if (result.length === 0) {
+    return []
   }
 
-  // Use transaction for atomicity
+  return result[0].values.map((row: any[]) => ({
+    id: row[0] as string,
+    name: row[1] as string,
+    createdAt: row[2] as string,
+    updatedAt: row[3] as string,
+  }))
+}
+
+// Create a new, empty diagram
+export async function createDiagram(name: string, id: string = Date.now().toString()): Promise<Diagram> {
+  await ensureDatabase()
+
+  const now = new Date().toISOString()
+  const diagram: Diagram = { id, name, createdAt: now, updatedAt: now }
+  db.run('INSERT INTO diagrams (id, name, createdAt, updatedAt) VALUES (?, ?, ?, ?)', [
+    diagram.id,
+    diagram.name,
+    diagram.createdAt,
+    diagram.updatedAt,
+  ])
+  await saveDatabaseToIndexedDB()
+  return diagram
+}
+
+// Rename a diagram
+export async function renameDiagram(diagramId: string, name: string): Promise<void> {
+  await ensureDatabase()
+
+  db.run('UPDATE diagrams SET name = ? WHERE id = ?', [name, diagramId])
+  touchDiagram(diagramId)
+  await saveDatabaseToIndexedDB()
+}
+
+// Delete a diagram together with its stages and flows
+export async function deleteDiagram(diagramId: string): Promise<void> {
+  await ensureDatabase()
+
   db.run('BEGIN TRANSACTION')
-  
   try {
-    // Clear existing flows
-    db.run('DELETE FROM flows')
-    
-    // Insert all flows
-    const stmt = db.prepare('INSERT INTO flows (id, name, fromStageId, toStageId, value, branchIndex, color) VALUES (?, ?, ?, ?, ?, ?, ?)')
-    
-    for (const flow of flows) {
-      stmt.run([
-        flow.id,
-        flow.name,
-        flow.fromStageId,
-        flow.toStageId,
-        flow.value,
-        flow.branchIndex ?? null,
-        flow.color ?? null,
-      ])
-    }
-    
-    stmt.free()
+    db.run('DELETE FROM snapshots WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM attribute_values WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM attribute_definitions WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM diagram_settings WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM sections WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM flows WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM stages WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM diagrams WHERE id = ?', [diagramId])
     db.run('COMMIT')
-    
-    // Save to IndexedDB
-    try {
-      await saveDatabaseToIndexedDB()
-    } catch (saveError) {
-      console.warn('Failed to persist database to IndexedDB:', saveError)
-      // Don't throw - in-memory DB is still updated
-    }
   } catch (error) {
-    if (db) {
-      try {
-        db.run('ROLLBACK')
-      } catch (rollbackError) {
-        console.error('Failed to rollback transaction:', rollbackError)
-      }
-    }
-    console.error('Failed to save flows:', error)
-    throw error // Re-throw to let caller know save failed
+    db.run('ROLLBACK')
+    console.error('Failed to delete diagram:', error)
+    throw error
   }
+
+  savedRows.delete(diagramId)
+  await saveDatabaseToIndexedDB()
 }
 
-// Load all stages from database
-export async function loadStages(): Promise<Array<{ id: string; name: string; position: number; yPosition?: number; color?: string; description?: string }>> {
+// Load all stages of a diagram
+export async function loadStages(diagramId: string): Promise<Stage[]> {
   if (!db) {
     try {
       await initDatabase()
@@ -381,7 +567,10 @@ export async function loadStages(): Promise<Array<{ id: string; name: string; po
   }
 
   try {
-    const result = db.exec('SELECT * FROM stages ORDER BY position')
+    const result = db.exec(
+      'SELECT id, name, position, yPosition, color, description, pinned, manualBandOrder, manualIncomingBandOrder FROM stages WHERE diagramId = ? ORDER BY position',
+      [diagramId]
+    )
     
     if (result.length === 0) {
       return []
@@ -395,6 +584,9 @@ export async function loadStages(): Promise<Array<{ id: string; name: string; po
       yPosition: row[3] !== null ? (row[3] as number) : undefined,
       color: row[4] !== null ? (row[4] as string) : undefined,
       description: row[5] !== null ? (row[5] as string) : undefined,
+      pinned: row[6] ? true : undefined,
+      manualBandOrder: row[7] ? true : undefined,
+      manualIncomingBandOrder: row[8] ? true : undefined,
     }))
   } catch (error) {
     console.error('Failed to load stages from database:', error)
@@ -402,8 +594,8 @@ export async function loadStages(): Promise<Array<{ id: string; name: string; po
   }
 }
 
-// Load all flows from database
-export async function loadFlows(): Promise<Array<{ id: string; name: string; fromStageId: string; toStageId: string; value: number; branchIndex?: number; color?: string }>> {
+// Load all flows of a diagram
+export async function loadFlows(diagramId: string): Promise<Flow[]> {
   if (!db) {
     try {
       await initDatabase()
@@ -417,7 +609,10 @@ export async function loadFlows(): Promise<Array<{ id: string; name: string; fro
   }
 
   try {
-    const result = db.exec('SELECT * FROM flows')
+    const result = db.exec(
+      'SELECT id, name, fromStageId, toStageId, value, branchIndex, color, periodValues, targetIndex FROM flows WHERE diagramId = ?',
+      [diagramId]
+    )
     
     if (result.length === 0) {
       return []
@@ -432,6 +627,8 @@ export async function loadFlows(): Promise<Array<{ id: string; name: string; fro
       value: row[4] as number,
       branchIndex: row[5] !== null ? (row[5] as number) : undefined,
       color: row[6] !== null ? (row[6] as string) : undefined,
+      periodValues: row[7] !== null ? JSON.parse(row[7] as string) : undefined,
+      targetIndex: row[8] !== null ? (row[8] as number) : undefined,
     }))
   } catch (error) {
     console.error('Failed to load flows from database:', error)
@@ -439,21 +636,200 @@ export async function loadFlows(): Promise<Array<{ id: string; name: string; fro
   }
 }
 
-// Save both stages and flows in a single transaction
-export async function saveAll(stages: Array<{ id: string; name: string; position: number; yPosition?: number; color?: string; description?: string }>, flows: Array<{ id: string; name: string; fromStageId: string; toStageId: string; value: number; branchIndex?: number; color?: string }>): Promise<void> {
-  await saveStages(stages)
-  await saveFlows(flows)
+// Save stages, flows, sections, attributes and settings of a diagram in a single transaction.
+// Only rows that were added, changed or removed since the last save are written.
+export async function saveAll(
+  diagramId: string,
+  stages: Stage[],
+  flows: Flow[],
+  attributeDefinitions: AttributeDefinition[] = [],
+  settings: DiagramSettings = {},
+  sections: Section[] = []
+): Promise<void> {
+  await ensureDatabase()
+
+  const saved = getSavedRows(diagramId)
+  const stageChanges = diffRows(saved.stages, stages, stageRow)
+  const flowChanges = diffRows(saved.flows, flows, flowRow)
+  const attributeValues = attributeValueRows(stages, flows, attributeDefinitions)
+  const attributesChanged = saved.attributes !== serializeAttributes(attributeDefinitions, attributeValues)
+  const storedSettings = serializeSettings(settings)
+  const settingsChanged = saved.settings !== storedSettings
+  const sectionsChanged = saved.sections !== serializeSections(sections)
+
+  const changeCount = stageChanges.upserts.length + stageChanges.removedIds.length
+    + flowChanges.upserts.length + flowChanges.removedIds.length
+  if (changeCount === 0 && !attributesChanged && !settingsChanged && !sectionsChanged) {
+    console.log('No changes to save')
+    return
+  }
+
+  // Use transaction for atomicity
+  db.run('BEGIN TRANSACTION')
+
+  try {
+    // Remove flows before the stages they point at
+    for (const id of flowChanges.removedIds) {
+      db.run('DELETE FROM flows WHERE diagramId = ? AND id = ?', [diagramId, id])
+    }
+    for (const id of stageChanges.removedIds) {
+      db.run('DELETE FROM stages WHERE diagramId = ? AND id = ?', [diagramId, id])
+    }
+
+    // Write stages before the flows that point at them
+    const stageStmt = db.prepare(`
+      INSERT INTO stages (diagramId, id, name, position, yPosition, color, description, pinned, manualBandOrder, manualIncomingBandOrder)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (diagramId, id) DO UPDATE SET
+        name = excluded.name,
+        position = excluded.position,
+        yPosition = excluded.yPosition,
+        color = excluded.color,
+        description = excluded.description,
+        pinned = excluded.pinned,
+        manualBandOrder = excluded.manualBandOrder,
+        manualIncomingBandOrder = excluded.manualIncomingBandOrder
+    `)
+    for (const stage of stageChanges.upserts) {
+      stageStmt.run([diagramId, stage.id, ...stageRow(stage)])
+    }
+    stageStmt.free()
+
+    const flowStmt = db.prepare(`
+      INSERT INTO flows (diagramId, id, name, fromStageId, toStageId, value, branchIndex, color, periodValues, targetIndex)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT (diagramId, id) DO UPDATE SET
+        name = excluded.name,
+        fromStageId = excluded.fromStageId,
+        toStageId = excluded.toStageId,
+        value = excluded.value,
+        branchIndex = excluded.branchIndex,
+        color = excluded.color,
+        periodValues = excluded.periodValues,
+        targetIndex = excluded.targetIndex
+    `)
+    for (const flow of flowChanges.upserts) {
+      flowStmt.run([diagramId, flow.id, ...flowRow(flow)])
+    }
+    flowStmt.free()
+
+    if (attributesChanged) {
+      writeAttributes(diagramId, attributeDefinitions, attributeValues)
+    }
+    if (sectionsChanged) {
+      writeSections(diagramId, sections)
+    }
+    if (settingsChanged) {
+      if (storedSettings === null) {
+        db.run('DELETE FROM diagram_settings WHERE diagramId = ?', [diagramId])
+      } else {
+        db.run('INSERT OR REPLACE INTO diagram_settings (diagramId, settings) VALUES (?, ?)', [diagramId, storedSettings])
+      }
+    }
+
+    touchDiagram(diagramId)
+    db.run('COMMIT')
+  } catch (error) {
+    try {
+      db.run('ROLLBACK')
+    } catch (rollbackError) {
+      console.error('Failed to rollback transaction:', rollbackError)
+    }
+    // Re-read from the database next time instead of trusting the cache
+    savedRows.delete(diagramId)
+    console.error('Failed to save diagram:', error)
+    throw error // Re-throw to let caller know save failed
+  }
+
+  rememberSavedRows(diagramId, stages, flows, sections, attributeDefinitions, settings)
+  console.log('Saved changes:', {
+    stages: { upserted: stageChanges.upserts.length, removed: stageChanges.removedIds.length },
+    flows: { upserted: flowChanges.upserts.length, removed: flowChanges.removedIds.length },
+    sections: sectionsChanged,
+    attributes: attributesChanged,
+    settings: settingsChanged,
+  })
+
+  // Save to IndexedDB once per save
+  try {
+    await saveDatabaseToIndexedDB()
+  } catch (saveError) {
+    console.warn('Failed to persist database to IndexedDB:', saveError)
+    // Don't throw - in-memory DB is still updated
+  }
 }
 
-// Load both stages and flows
-export async function loadAll(): Promise<{ stages: Array<{ id: string; name: string; position: number; yPosition?: number; color?: string; description?: string }>, flows: Array<{ id: string; name: string; fromStageId: string; toStageId: string; value: number; branchIndex?: number; color?: string }> }> {
-  const stages = await loadStages()
-  const flows = await loadFlows()
-  return { stages, flows }
+// Load the attribute definitions of a diagram and attach the values to its stages and flows
+function loadAttributes(diagramId: string, stages: Stage[], flows: Flow[]): AttributeDefinition[] {
+  if (!db) return []
+
+  try {
+    const definitions = readAttributeDefinitions(diagramId)
+    const known = new Set(definitions.map(definition => definition.id))
+    const values = new Map<string, AttributeValues>()
+    for (const [itemType, itemId, attributeId, value] of readAttributeValueRows(diagramId)) {
+      if (!known.has(attributeId)) continue
+      const key = `${itemType}:${itemId}`
+      values.set(key, { ...values.get(key), [attributeId]: value })
+    }
+    for (const stage of stages) {
+      const stageValues = values.get(`stage:${stage.id}`)
+      if (stageValues) stage.attributes = stageValues
+    }
+    for (const flow of flows) {
+      const flowValues = values.get(`flow:${flow.id}`)
+      if (flowValues) flow.attributes = flowValues
+    }
+    return definitions
+  } catch (error) {
+    console.error('Failed to load attributes from database:', error)
+    return []
+  }
 }
 
-// Clear all data
-export async function clearDatabase(): Promise<void> {
+// Load the sections of a diagram in their saved order
+function loadSections(diagramId: string): Section[] {
+  if (!db) return []
+
+  try {
+    return readSections(diagramId)
+  } catch (error) {
+    console.error('Failed to load sections from database:', error)
+    return []
+  }
+}
+
+// Load the settings of a diagram, empty if none were saved
+function loadSettings(diagramId: string): DiagramSettings {
+  if (!db) return {}
+
+  try {
+    return readSettings(diagramId)
+  } catch (error) {
+    console.error('Failed to load diagram settings from database:', error)
+    return {}
+  }
+}
+
+// Load stages, flows, sections, attributes and settings of a diagram
+export async function loadAll(diagramId: string): Promise<{
+  stages: Stage[],
+  flows: Flow[],
+  sections: Section[],
+  attributeDefinitions: AttributeDefinition[],
+  settings: DiagramSettings,
+}> {
+  const stages = await loadStages(diagramId)
+  const flows = await loadFlows(diagramId)
+  const sections = loadSections(diagramId)
+  const attributeDefinitions = loadAttributes(diagramId, stages, flows)
+  const settings = loadSettings(diagramId)
+  rememberSavedRows(diagramId, stages, flows, sections, attributeDefinitions, settings)
+  return { stages, flows, sections, attributeDefinitions, settings }
+}
+
+// Clear all data of a diagram
+export async function clearDatabase(diagramId: string): Promise<void> {
   if (!db) {
     await initDatabase()
   }
@@ -461,14 +837,241 @@ export async function clearDatabase(): Promise<void> {
 
   db.run('BEGIN TRANSACTION')
   try {
-    db.run('DELETE FROM flows')
-    db.run('DELETE FROM stages')
+    db.run('DELETE FROM flows WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM stages WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM attribute_values WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM attribute_definitions WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM diagram_settings WHERE diagramId = ?', [diagramId])
+    db.run('DELETE FROM sections WHERE diagramId = ?', [diagramId])
+    touchDiagram(diagramId)
     db.run('COMMIT')
-    await saveDatabaseToIndexedDB()
   } catch (error) {
     db.run('ROLLBACK')
     console.error('Failed to clear database:', error)
     throw error
   }
+
+  savedRows.set(diagramId, {
+    stages: new Map(),
+    flows: new Map(),
+    sections: serializeSections([]),
+    attributes: serializeAttributes([], []),
+    settings: null,
+  })
+  await saveDatabaseToIndexedDB()
 }
 
+// Automatic snapshots kept per diagram - older ones are pruned, manual ones are kept
+const MAX_AUTOMATIC_SNAPSHOTS = 20
+
+// Store a frozen copy of a diagram's stages, flows, sections, attribute definitions and settings
+export async function createSnapshot(
+  diagramId: string,
+  name: string,
+  trigger: Snapshot['trigger'],
+  stages: Stage[],
+  flows: Flow[],
+  attributeDefinitions: AttributeDefinition[] = [],
+  settings: DiagramSettings = {},
+  sections: Section[] = []
+): Promise<Snapshot> {
+  await ensureDatabase()
+
+  const snapshot: Snapshot = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    diagramId,
+    name,
+    createdAt: new Date().toISOString(),
+    trigger,
+    stages: JSON.parse(JSON.stringify(stages)),
+    flows: JSON.parse(JSON.stringify(flows)),
+    sections: JSON.parse(JSON.stringify(sections)),
+    attributeDefinitions: JSON.parse(JSON.stringify(attributeDefinitions)),
+    settings: JSON.parse(JSON.stringify(settings)),
+  }
+
+  db.run('BEGIN TRANSACTION')
+  try {
+    db.run(
+      'INSERT INTO snapshots (id, diagramId, name, createdAt, trigger, stages, flows, attributeDefinitions, settings, sections) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [
+        snapshot.id, diagramId, name, snapshot.createdAt, trigger,
+        JSON.stringify(stages), JSON.stringify(flows), JSON.stringify(attributeDefinitions), JSON.stringify(settings),
+        JSON.stringify(sections),
+      ]
+    )
+    if (trigger === 'save') {
+      db.run(`
+        DELETE FROM snapshots WHERE diagramId = ? AND trigger = 'save' AND id NOT IN (
+          SELECT id FROM snapshots WHERE diagramId = ? AND trigger = 'save' ORDER BY createdAt DESC LIMIT ?
+        )
+      `, [diagramId, diagramId, MAX_AUTOMATIC_SNAPSHOTS])
+    }
+    db.run('COMMIT')
+  } catch (error) {
+    db.run('ROLLBACK')
+    console.error('Failed to create snapshot:', error)
+    throw error
+  }
+
+  await saveDatabaseToIndexedDB()
+  return snapshot
+}
+
+// List snapshots of a diagram, newest first
+export async function listSnapshots(diagramId: string): Promise<SnapshotSummary[]> {
+  await ensureDatabase()
+
+  const result = db.exec(`
+    SELECT id, diagramId, name, createdAt, trigger, json_array_length(stages), json_array_length(flows)
+    FROM snapshots WHERE diagramId = ? ORDER BY createdAt DESC
+  `, [diagramId])
+  if (result.length === 0) {
+    return []
+  }
+
+  return result[0].values.map((row: any[]) => ({
+    id: row[0] as string,
+    diagramId: row[1] as string,
+    name: row[2] as string,
+    createdAt: row[3] as string,
+    trigger: row[4] as Snapshot['trigger'],
+    stageCount: row[5] as number,
+    flowCount: row[6] as number,
+  }))
+}
+
+// Load a snapshot including its stages, flows, sections, attribute definitions and settings
+export async function loadSnapshot(snapshotId: string): Promise<Snapshot | null> {
+  await ensureDatabase()
+
+  const result = db.exec(
+    'SELECT id, diagramId, name, createdAt, trigger, stages, flows, attributeDefinitions, settings, sections FROM snapshots WHERE id = ?',
+    [snapshotId]
+  )
+  if (result.length === 0 || result[0].values.length === 0) {
+    return null
+  }
+
+  const row = result[0].values[0]
+  return {
+    id: row[0] as string,
+    diagramId: row[1] as string,
+    name: row[2] as string,
+    createdAt: row[3] as string,
+    trigger: row[4] as Snapshot['trigger'],
+    stages: JSON.parse(row[5] as string),
+    flows: JSON.parse(row[6] as string),
+    // Snapshots taken before attributes existed have none
+    attributeDefinitions: row[7] !== null ? JSON.parse(row[7] as string) : [],
+    settings: row[8] !== null ? JSON.parse(row[8] as string) : {},
+    sections: row[9] !== null ? JSON.parse(row[9] as string) : [],
+  }
+}
+
+// Delete a snapshot
+export async function deleteSnapshot(snapshotId: string): Promise<void> {
+  await ensureDatabase()
+
+  db.run('DELETE FROM snapshots WHERE id = ?', [snapshotId])
+  await saveDatabaseToIndexedDB()
+}
+
+// Columns the app reads and writes, per table. An imported file must have all of them
+// after migrating, otherwise it is some other database that happens to share table names.
+const REQUIRED_COLUMNS: Record<string, string[]> = {
+  diagrams: ['id', 'name', 'createdAt', 'updatedAt'],
+  stages: ['diagramId', 'id', 'name', 'position', 'yPosition', 'color', 'description', 'pinned', 'manualBandOrder', 'manualIncomingBandOrder'],
+  flows: ['diagramId', 'id', 'name', 'fromStageId', 'toStageId', 'value', 'branchIndex', 'color', 'periodValues', 'targetIndex'],
+  snapshots: ['id', 'diagramId', 'name', 'createdAt', 'trigger', 'stages', 'flows', 'attributeDefinitions', 'settings', 'sections'],
+  attribute_definitions: ['diagramId', 'id', 'name', 'type', 'options', 'sortOrder'],
+  attribute_values: ['diagramId', 'itemType', 'itemId', 'attributeId', 'value'],
+  diagram_settings: ['diagramId', 'settings'],
+  sections: ['diagramId', 'id', 'name', 'fromStageId', 'toStageId', 'content', 'color', 'sortOrder'],
+}
+
+export class IncompatibleDatabaseError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'IncompatibleDatabaseError'
+  }
+}
+
+// Raw bytes of the whole database, e.g. to open in a desktop SQLite tool
+export async function exportDatabaseFile(): Promise<Uint8Array> {
+  await ensureDatabase()
+  return db.export()
+}
+
+// Open an uploaded file and bring it up to the current schema, without touching the
+// live database. Throws IncompatibleDatabaseError if it can't be used.
+function openImportedDatabase(bytes: Uint8Array): any {
+  let candidate: any
+  try {
+    candidate = new Database(bytes)
+    const integrity = candidate.exec('PRAGMA integrity_check')
+    if (integrity[0]?.values[0][0] !== 'ok') {
+      throw new IncompatibleDatabaseError('The database file is corrupted')
+    }
+  } catch (error) {
+    candidate?.close()
+    if (error instanceof IncompatibleDatabaseError) throw error
+    throw new IncompatibleDatabaseError('The file is not a SQLite database')
+  }
+
+  try {
+    // Every schema version, including the oldest unversioned one, has these tables
+    const tables = candidate.exec("SELECT name FROM sqlite_master WHERE type = 'table'")
+    const tableNames = new Set((tables[0]?.values ?? []).map((row: any[]) => row[0]))
+    if (!tableNames.has('stages') || !tableNames.has('flows')) {
+      throw new IncompatibleDatabaseError('The database does not contain any flow diagrams')
+    }
+
+    const version = getSchemaVersion(candidate)
+    if (version > LATEST_SCHEMA_VERSION) {
+      throw new IncompatibleDatabaseError(
+        `The database was created by a newer version of the app (schema ${version}, this app supports up to ${LATEST_SCHEMA_VERSION})`
+      )
+    }
+
+    try {
+      runMigrations(candidate)
+    } catch (error) {
+      throw new IncompatibleDatabaseError(`The database could not be upgraded: ${error instanceof Error ? error.message : error}`)
+    }
+
+    for (const [table, columns] of Object.entries(REQUIRED_COLUMNS)) {
+      const missing = columns.filter(column => !hasColumn(candidate, table, column))
+      if (missing.length > 0) {
+        throw new IncompatibleDatabaseError(`Table "${table}" is missing columns: ${missing.join(', ')}`)
+      }
+    }
+
+    return candidate
+  } catch (error) {
+    candidate.close()
+    throw error
+  }
+}
+
+// Replace all diagrams with the contents of an uploaded SQLite file.
+// The file is validated first; if it is incompatible the current data is left as is.
+export async function importDatabaseFile(bytes: Uint8Array): Promise<void> {
+  await ensureDatabase()
+
+  const imported = openImportedDatabase(bytes)
+  const previous = db
+  db = imported
+  savedRows.clear()
+
+  try {
+    await saveDatabaseToIndexedDB()
+  } catch (error) {
+    // Keep the browser copy and the open database in sync
+    db = previous
+    imported.close()
+    throw error
+  }
+  previous.close()
+  console.log('Imported database file:', bytes.length, 'bytes')
+}
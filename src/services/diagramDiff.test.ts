@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest'
+import { Stage, Flow } from '../types'
+import { diffDiagrams, isDiffEmpty, describeChanges, entityEquals, mergeDiagrams, DiagramContents } from './diagramDiff'
+
+const stage = (id: string, extra: Partial<Stage> = {}): Stage => ({ id, name: id, position: 0, ...extra })
+
+const flow = (id: string, fromStageId: string, toStageId: string, value = 10): Flow => ({
+  id,
+  name: `${fromStageId} → ${toStageId}`,
+  fromStageId,
+  toStageId,
+  value,
+})
+
+const base: DiagramContents = {
+  stages: [stage('a'), stage('b', { position: 50 }), stage('c', { position: 100 })],
+  flows: [flow('f1', 'a', 'b'), flow('f2', 'b', 'c')],
+  settings: { rootTotal: 100, unit: 'users' },
+}
+
+// A copy of base with some stages or flows replaced, added or removed
+const edit = (changes: Partial<DiagramContents>): DiagramContents => ({ ...base, ...changes })
+
+describe('entityEquals', () => {
+  it('ignores key order and missing versus undefined fields', () => {
+    expect(entityEquals({ id: 'a', name: 'A', color: undefined }, { name: 'A', id: 'a' })).toBe(true)
+    expect(entityEquals({ id: 'a', attributes: { x: '1' } }, { id: 'a', attributes: { x: '2' } })).toBe(false)
+  })
+})
+
+describe('diffDiagrams', () => {
+  it('lists added, removed and changed items', () => {
+    const diff = diffDiagrams(base, edit({
+      stages: [stage('a', { name: 'Start' }), stage('b', { position: 50 }), stage('d')],
+      flows: [flow('f1', 'a', 'b')],
+    }))
+    expect(diff.stages.added.map(s => s.id)).toEqual(['d'])
+    expect(diff.stages.removed.map(s => s.id)).toEqual(['c'])
+    expect(diff.stages.changed.map(c => c.after.name)).toEqual(['Start'])
+    expect(diff.flows.removed.map(f => f.id)).toEqual(['f2'])
+    expect(describeChanges('Stages', diff.stages)).toBe('Stages: 1 added, 1 removed, 1 changed')
+    expect(describeChanges('Sections', diff.sections)).toBeNull()
+    expect(isDiffEmpty(diff)).toBe(false)
+  })
+
+  it('finds nothing between equal diagrams, also when settings are left out or empty', () => {
+    expect(isDiffEmpty(diffDiagrams(base, edit({})))).toBe(true)
+    expect(isDiffEmpty(diffDiagrams({ ...base, settings: undefined }, { ...base, settings: {} }))).toBe(true)
+    expect(diffDiagrams(base, edit({ settings: { rootTotal: 200, unit: 'users' } })).settingsChanged).toBe(true)
+  })
+})
+
+describe('mergeDiagrams', () => {
+  it('combines changes made on different sides', () => {
+    const ours = edit({ stages: [stage('a', { name: 'Start' }), base.stages[1], base.stages[2]] })
+    const theirs = edit({
+      stages: [...base.stages, stage('d')],
+      flows: [flow('f1', 'a', 'b', 20), base.flows[1], flow('f3', 'c', 'd')],
+      settings: { rootTotal: 500, unit: 'users' },
+    })
+    const { merged, conflicts } = mergeDiagrams(base, ours, theirs)
+    expect(conflicts).toEqual([])
+    expect(merged.stages.map(s => s.name)).toEqual(['Start', 'b', 'c', 'd'])
+    expect(merged.flows.map(f => [f.id, f.value])).toEqual([['f1', 20], ['f2', 10], ['f3', 10]])
+    expect(merged.settings).toEqual({ rootTotal: 500, unit: 'users' })
+  })
+
+  it('keeps our version of items both sides changed and reports them', () => {
+    const ours = edit({ stages: [stage('a', { name: 'Ours' }), ...base.stages.slice(1)], settings: { unit: 'orders' } })
+    const theirs = edit({ stages: [stage('a', { name: 'Theirs' }), ...base.stages.slice(1)], settings: { unit: 'visits' } })
+    const { merged, conflicts } = mergeDiagrams(base, ours, theirs)
+    expect(merged.stages[0].name).toBe('Ours')
+    expect(merged.settings).toEqual({ unit: 'orders' })
+    expect(conflicts).toEqual([
+      { kind: 'stage', id: 'a', name: 'Ours' },
+      { kind: 'settings', id: 'settings', name: 'root total and unit' },
+    ])
+  })
+
+  it('does not report the same change made on both sides', () => {
+    const changed = edit({ stages: [stage('a', { color: '#fff' }), ...base.stages.slice(1)] })
+    expect(mergeDiagrams(base, changed, changed).conflicts).toEqual([])
+  })
+
+  it('removes what one side removed', () => {
+    const theirs = edit({ stages: base.stages.slice(0, 2), flows: base.flows.slice(0, 1) })
+    const { merged, conflicts } = mergeDiagrams(base, base, theirs)
+    expect(merged.stages.map(s => s.id)).toEqual(['a', 'b'])
+    expect(merged.flows.map(f => f.id)).toEqual(['f1'])
+    expect(conflicts).toEqual([])
+  })
+
+  it('keeps a stage they removed when one of our new flows still uses it', () => {
+    const ours = edit({ stages: [...base.stages, stage('d')], flows: [...base.flows, flow('f3', 'c', 'd')] })
+    const theirs = edit({ stages: base.stages.slice(0, 2), flows: base.flows.slice(0, 1) })
+    const { merged, conflicts } = mergeDiagrams(base, ours, theirs)
+    expect(merged.stages.map(s => s.id)).toEqual(['a', 'b', 'd', 'c'])
+    expect(merged.flows.map(f => f.id)).toEqual(['f1', 'f3'])
+    expect(conflicts).toEqual([{ kind: 'stage', id: 'c', name: 'c' }])
+  })
+})
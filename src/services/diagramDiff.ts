@@ -0,0 +1,173 @@
+// Compare two versions of a diagram's stages, flows, sections, attribute definitions and settings
+import { Stage, Flow, Section, AttributeDefinition, DiagramSettings } from '../types'
+import { normalizeSettings } from './amounts'
+
+export interface DiagramContents {
+  stages: Stage[]
+  flows: Flow[]
+  sections?: Section[]
+  attributeDefinitions?: AttributeDefinition[]
+  settings?: DiagramSettings
+}
+
+export interface EntityChanges<T> {
+  added: T[]
+  removed: T[]
+  changed: Array<{ before: T; after: T }>
+}
+
+export interface DiagramDiff {
+  stages: EntityChanges<Stage>
+  flows: EntityChanges<Flow>
+  sections: EntityChanges<Section>
+  attributeDefinitions: EntityChanges<AttributeDefinition>
+  // Root total or unit differ
+  settingsChanged: boolean
+}
+
+// Field-by-field equality that ignores key order and treats missing and undefined the same
+export function entityEquals<T extends object>(a: T, b: T): boolean {
+  const keys = new Set([...Object.keys(a), ...Object.keys(b)])
+  for (const key of keys) {
+    const aValue = (a as Record<string, unknown>)[key]
+    const bValue = (b as Record<string, unknown>)[key]
+    if (aValue === bValue) continue
+    if (JSON.stringify(aValue) !== JSON.stringify(bValue)) return false
+  }
+  return true
+}
+
+function diffEntities<T extends { id: string }>(before: T[], after: T[]): EntityChanges<T> {
+  const beforeById = new Map(before.map(item => [item.id, item]))
+  const afterById = new Map(after.map(item => [item.id, item]))
+
+  const added = after.filter(item => !beforeById.has(item.id))
+  const removed = before.filter(item => !afterById.has(item.id))
+  const changed: Array<{ before: T; after: T }> = []
+  for (const item of after) {
+    const previous = beforeById.get(item.id)
+    if (previous && !entityEquals(previous, item)) {
+      changed.push({ before: previous, after: item })
+    }
+  }
+  return { added, removed, changed }
+}
+
+// What it takes to go from `before` to `after`
+export function diffDiagrams(before: DiagramContents, after: DiagramContents): DiagramDiff {
+  return {
+    stages: diffEntities(before.stages, after.stages),
+    flows: diffEntities(before.flows, after.flows),
+    sections: diffEntities(before.sections ?? [], after.sections ?? []),
+    attributeDefinitions: diffEntities(before.attributeDefinitions ?? [], after.attributeDefinitions ?? []),
+    settingsChanged: !entityEquals(normalizeSettings(before.settings), normalizeSettings(after.settings)),
+  }
+}
+
+export function isDiffEmpty(diff: DiagramDiff): boolean {
+  return !diff.settingsChanged && [diff.stages, diff.flows, diff.sections, diff.attributeDefinitions].every(changes =>
+    changes.added.length === 0 && changes.removed.length === 0 && changes.changed.length === 0
+  )
+}
+
+// One line per kind of change, e.g. "Stages: 2 added, 1 changed"
+export function describeChanges<T>(label: string, changes: EntityChanges<T>): string | null {
+  const parts = [
+    changes.added.length > 0 ? `${changes.added.length} added` : null,
+    changes.removed.length > 0 ? `${changes.removed.length} removed` : null,
+    changes.changed.length > 0 ? `${changes.changed.length} changed` : null,
+  ].filter(Boolean)
+  return parts.length > 0 ? `${label}: ${parts.join(', ')}` : null
+}
+
+// A stage, flow, section, attribute definition or the settings edited on both sides of a merge in different ways
+export interface MergeConflict {
+  kind: 'stage' | 'flow' | 'section' | 'attribute' | 'settings'
+  id: string
+  name: string
+}
+
+export interface MergeResult {
+  merged: DiagramContents
+  conflicts: MergeConflict[]
+}
+
+const sameEntity = <T extends object>(a: T | undefined, b: T | undefined): boolean =>
+  a === undefined || b === undefined ? a === b : entityEquals(a, b)
+
+// Merge one kind of entity. Ours wins where both sides changed the same id.
+function mergeEntities<T extends { id: string; name: string }>(
+  kind: MergeConflict['kind'],
+  base: T[],
+  ours: T[],
+  theirs: T[]
+): { merged: T[]; conflicts: MergeConflict[] } {
+  const baseById = new Map(base.map(item => [item.id, item]))
+  const oursById = new Map(ours.map(item => [item.id, item]))
+  const theirsById = new Map(theirs.map(item => [item.id, item]))
+
+  // Keep our order, with their additions at the end
+  const ids = [...ours.map(item => item.id), ...theirs.filter(item => !oursById.has(item.id)).map(item => item.id)]
+  const merged: T[] = []
+  const conflicts: MergeConflict[] = []
+  for (const id of ids) {
+    const original = baseById.get(id)
+    const mine = oursById.get(id)
+    const other = theirsById.get(id)
+
+    let result: T | undefined
+    if (sameEntity(mine, other) || sameEntity(other, original)) {
+      result = mine
+    } else if (sameEntity(mine, original)) {
+      result = other
+    } else {
+      result = mine
+      conflicts.push({ kind, id, name: (mine ?? other ?? original)!.name })
+    }
+    if (result) merged.push(result)
+  }
+  return { merged, conflicts }
+}
+
+// Three-way merge of two edited versions of the same diagram.
+// Changes made on only one side are combined; stages and flows changed on both sides
+// keep our version and are reported as conflicts.
+export function mergeDiagrams(base: DiagramContents, ours: DiagramContents, theirs: DiagramContents): MergeResult {
+  const stageMerge = mergeEntities('stage', base.stages, ours.stages, theirs.stages)
+  const flowMerge = mergeEntities('flow', base.flows, ours.flows, theirs.flows)
+  const sectionMerge = mergeEntities('section', base.sections ?? [], ours.sections ?? [], theirs.sections ?? [])
+  const attributeMerge = mergeEntities(
+    'attribute',
+    base.attributeDefinitions ?? [],
+    ours.attributeDefinitions ?? [],
+    theirs.attributeDefinitions ?? []
+  )
+  const stages = stageMerge.merged
+  const conflicts = [...stageMerge.conflicts, ...flowMerge.conflicts, ...sectionMerge.conflicts, ...attributeMerge.conflicts]
+
+  // Root total and unit are merged as one, so a total is never paired with the wrong unit
+  const [baseSettings, ourSettings, theirSettings] = [base, ours, theirs].map(contents => normalizeSettings(contents.settings))
+  let settings = ourSettings
+  if (entityEquals(ourSettings, baseSettings)) {
+    settings = theirSettings
+  } else if (!entityEquals(theirSettings, baseSettings) && !entityEquals(ourSettings, theirSettings)) {
+    conflicts.push({ kind: 'settings', id: 'settings', name: 'root total and unit' })
+  }
+
+  // A stage they removed may still be used by one of our flows - keep it and flag it
+  const stageIds = new Set(stages.map(stage => stage.id))
+  for (const flow of flowMerge.merged) {
+    for (const stageId of [flow.fromStageId, flow.toStageId]) {
+      const stage = ours.stages.find(s => s.id === stageId)
+      if (!stageIds.has(stageId) && stage) {
+        stages.push(stage)
+        stageIds.add(stageId)
+        conflicts.push({ kind: 'stage', id: stage.id, name: stage.name })
+      }
+    }
+  }
+  const flows = flowMerge.merged.filter(flow => stageIds.has(flow.fromStageId) && stageIds.has(flow.toStageId))
+  const sections = sectionMerge.merged.filter(section => stageIds.has(section.fromStageId) && stageIds.has(section.toStageId))
+
+  return { merged: { stages, flows, sections, attributeDefinitions: attributeMerge.merged, settings }, conflicts }
+}
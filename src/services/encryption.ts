@@ -0,0 +1,207 @@
+// Optional passphrase encryption of the data kept in this browser
+//
+// Diagrams are encrypted with AES-GCM using a random data key. The data key is stored
+// wrapped (encrypted) with a key derived from the passphrase via PBKDF2, so changing the
+// passphrase only re-wraps the data key instead of re-encrypting everything. Unwrapping
+// fails with a wrong passphrase, which is how a wrong passphrase is detected.
+//
+// Only the wrapped key and its parameters are stored, in localStorage. The unwrapped
+// data key is kept in memory until the page is closed.
+import { bytesToBase64, base64ToBytes } from '../utils/base64'
+
+const ENCRYPTION_KEY = 'flow_app_encryption'
+const PBKDF2_ITERATIONS = 310000
+
+// Mark encrypted values, so data written before encryption was turned on still loads.
+// Plain SQLite files start with "SQLite format 3" and plain JSON with [ or {.
+const BYTES_MAGIC = new TextEncoder().encode('FLOWENC1')
+const TEXT_PREFIX = 'flowenc1:'
+
+interface EncryptionConfig {
+  version: 1
+  iterations: number
+  salt: string
+  // IV used to wrap the data key
+  iv: string
+  wrappedKey: string
+}
+
+export class WrongPassphraseError extends Error {
+  constructor() {
+    super('The passphrase is not correct')
+    this.name = 'WrongPassphraseError'
+  }
+}
+
+// Data is encrypted but the passphrase hasn't been entered in this tab
+export class StorageLockedError extends Error {
+  constructor() {
+    super('Your diagrams are protected with a passphrase. Reload the page to unlock them.')
+    this.name = 'StorageLockedError'
+  }
+}
+
+let dataKey: CryptoKey | null = null
+
+function readConfig(): EncryptionConfig | null {
+  const data = localStorage.getItem(ENCRYPTION_KEY)
+  return data ? JSON.parse(data) : null
+}
+
+function writeConfig(config: EncryptionConfig | null): void {
+  if (config) {
+    localStorage.setItem(ENCRYPTION_KEY, JSON.stringify(config))
+  } else {
+    localStorage.removeItem(ENCRYPTION_KEY)
+  }
+}
+
+// WebCrypto is only available in secure contexts (https or localhost)
+export function isEncryptionSupported(): boolean {
+  return typeof crypto !== 'undefined' && Boolean(crypto.subtle)
+}
+
+export function isEncryptionEnabled(): boolean {
+  return readConfig() !== null
+}
+
+export function isUnlocked(): boolean {
+  return dataKey !== null
+}
+
+async function deriveWrappingKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey'])
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: salt as BufferSource, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['wrapKey', 'unwrapKey']
+  )
+}
+
+async function wrapDataKey(key: CryptoKey, passphrase: string): Promise<EncryptionConfig> {
+  const salt = crypto.getRandomValues(new Uint8Array(16))
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS)
+  const wrapped = await crypto.subtle.wrapKey('raw', key, wrappingKey, { name: 'AES-GCM', iv })
+  return {
+    version: 1,
+    iterations: PBKDF2_ITERATIONS,
+    salt: bytesToBase64(salt),
+    iv: bytesToBase64(iv),
+    wrappedKey: bytesToBase64(new Uint8Array(wrapped)),
+  }
+}
+
+async function unwrapDataKey(config: EncryptionConfig, passphrase: string): Promise<CryptoKey> {
+  const wrappingKey = await deriveWrappingKey(passphrase, base64ToBytes(config.salt), config.iterations)
+  try {
+    // Extractable so it can be wrapped again when the passphrase changes
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      base64ToBytes(config.wrappedKey) as BufferSource,
+      wrappingKey,
+      { name: 'AES-GCM', iv: base64ToBytes(config.iv) as BufferSource },
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    )
+  } catch {
+    // AES-GCM authentication fails when the wrapping key is wrong
+    throw new WrongPassphraseError()
+  }
+}
+
+// Check the passphrase and keep the data key for this session
+export async function unlock(passphrase: string): Promise<void> {
+  const config = readConfig()
+  if (!config) return
+  dataKey = await unwrapDataKey(config, passphrase)
+}
+
+// Turn encryption on and write everything again, now encrypted.
+// If rewriting fails, encryption stays on so data that was already encrypted remains readable.
+export async function enableEncryption(passphrase: string, rewrite: () => Promise<void>): Promise<void> {
+  if (readConfig()) throw new Error('A passphrase is already set')
+
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt'])
+  writeConfig(await wrapDataKey(key, passphrase))
+  dataKey = key
+  await rewrite()
+}
+
+export async function changePassphrase(currentPassphrase: string, newPassphrase: string): Promise<void> {
+  const config = readConfig()
+  if (!config) throw new Error('No passphrase is set')
+
+  const key = await unwrapDataKey(config, currentPassphrase)
+  writeConfig(await wrapDataKey(key, newPassphrase))
+  dataKey = key
+}
+
+// Turn encryption off and write everything again in plain form.
+// The data key is only dropped once that worked; on failure encryption stays on.
+export async function disableEncryption(passphrase: string, rewrite: () => Promise<void>): Promise<void> {
+  const config = readConfig()
+  if (!config) return
+
+  dataKey = await unwrapDataKey(config, passphrase)
+  writeConfig(null)
+  try {
+    await rewrite()
+  } catch (error) {
+    writeConfig(config)
+    throw error
+  }
+  dataKey = null
+}
+
+async function encrypt(plain: Uint8Array): Promise<Uint8Array> {
+  if (!dataKey) throw new StorageLockedError()
+  const iv = crypto.getRandomValues(new Uint8Array(12))
+  const encrypted = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, dataKey, plain as BufferSource))
+  const result = new Uint8Array(iv.length + encrypted.length)
+  result.set(iv)
+  result.set(encrypted, iv.length)
+  return result
+}
+
+async function decrypt(data: Uint8Array): Promise<Uint8Array> {
+  if (!dataKey) throw new StorageLockedError()
+  try {
+    const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: data.subarray(0, 12) as BufferSource }, dataKey, data.subarray(12) as BufferSource)
+    return new Uint8Array(plain)
+  } catch {
+    throw new Error('Stored data could not be decrypted. It may be damaged or encrypted with a different key.')
+  }
+}
+
+function hasMagic(bytes: Uint8Array): boolean {
+  return bytes.length >= BYTES_MAGIC.length && BYTES_MAGIC.every((byte, i) => bytes[i] === byte)
+}
+
+// Encrypt bytes about to be stored, if a passphrase is set
+export async function encryptBytesIfEnabled(bytes: Uint8Array): Promise<Uint8Array> {
+  if (!isEncryptionEnabled()) return bytes
+  const encrypted = await encrypt(bytes)
+  const result = new Uint8Array(BYTES_MAGIC.length + encrypted.length)
+  result.set(BYTES_MAGIC)
+  result.set(encrypted, BYTES_MAGIC.length)
+  return result
+}
+
+// Decrypt stored bytes; plain data is returned as is
+export async function decryptBytesIfEncrypted(bytes: Uint8Array): Promise<Uint8Array> {
+  return hasMagic(bytes) ? decrypt(bytes.subarray(BYTES_MAGIC.length)) : bytes
+}
+
+export async function encryptTextIfEnabled(text: string): Promise<string> {
+  if (!isEncryptionEnabled()) return text
+  return TEXT_PREFIX + bytesToBase64(await encrypt(new TextEncoder().encode(text)))
+}
+
+export async function decryptTextIfEncrypted(text: string): Promise<string> {
+  if (!text.startsWith(TEXT_PREFIX)) return text
+  return new TextDecoder().decode(await decrypt(base64ToBytes(text.slice(TEXT_PREFIX.length))))
+}
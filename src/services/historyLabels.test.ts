@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest'
+import { Stage, Flow } from '../types'
+import { describeEdit } from './historyLabels'
+import { DiagramContents } from './diagramDiff'
+
+const stage = (id: string, name: string, extra: Partial<Stage> = {}): Stage => ({ id, name, position: 0, ...extra })
+
+const flow = (id: string, fromStageId: string, toStageId: string, extra: Partial<Flow> = {}): Flow => ({
+  id,
+  name: id,
+  fromStageId,
+  toStageId,
+  value: 50,
+  ...extra,
+})
+
+const before: DiagramContents = {
+  stages: [stage('a', 'Signup'), stage('b', 'Paid', { position: 50 }), stage('c', 'Churn', { position: 100 })],
+  flows: [flow('f1', 'a', 'b', { branchIndex: 0 }), flow('f2', 'a', 'c', { branchIndex: 1 })],
+}
+
+// before with some stages or flows replaced
+const after = (changes: Partial<DiagramContents>): DiagramContents => ({ ...before, ...changes })
+const withStage = (id: string, extra: Partial<Stage>) => before.stages.map(s => (s.id === id ? { ...s, ...extra } : s))
+const withFlows = (extra: Record<string, Partial<Flow>>) => before.flows.map(f => ({ ...f, ...extra[f.id] }))
+
+describe('describeEdit', () => {
+  it('names added and deleted stages, also when their flows go with them', () => {
+    expect(describeEdit(before, after({ stages: before.stages.slice(0, 2), flows: before.flows.slice(0, 1) }))).toBe('Deleted stage Churn')
+    expect(describeEdit(before, after({ stages: [...before.stages, stage('d', 'Trial')] }))).toBe('Added stage Trial')
+    expect(describeEdit(before, after({ stages: [], flows: [] }))).toBe('Deleted 3 stages')
+  })
+
+  it('names flows after the stages they connect', () => {
+    expect(describeEdit(before, after({ flows: before.flows.slice(1) }))).toBe('Deleted flow Signup→Paid')
+    expect(describeEdit(before, after({ flows: [...before.flows, flow('f3', 'b', 'c')] }))).toBe('Added flow Paid→Churn')
+  })
+
+  it('tells moves, renames and other stage edits apart', () => {
+    expect(describeEdit(before, after({ stages: withStage('b', { position: 60, yPosition: 200 }) }))).toBe('Moved Paid')
+    expect(describeEdit(before, after({ stages: withStage('b', { name: 'Customer' }) }))).toBe('Renamed Paid to Customer')
+    expect(describeEdit(before, after({ stages: withStage('b', { color: '#f00' }) }))).toBe('Edited stage Paid')
+    expect(describeEdit(before, after({ stages: before.stages.map(s => ({ ...s, yPosition: 10 })) }))).toBe('Moved 3 stages')
+  })
+
+  it('recognizes reordered bands on either side of a stage', () => {
+    expect(describeEdit(before, after({ flows: withFlows({ f1: { branchIndex: 1 }, f2: { branchIndex: 0 } }) }))).toBe('Reordered bands of Signup')
+    const incoming = after({ flows: [...before.flows, flow('f3', 'b', 'c')] })
+    const reordered = { ...incoming, flows: incoming.flows.map(f => (f.toStageId === 'c' ? { ...f, targetIndex: f.id === 'f2' ? 1 : 0 } : f)) }
+    expect(describeEdit(incoming, reordered)).toBe('Reordered bands of Churn')
+  })
+
+  it('names a flow edit after the flow that was edited, not the siblings it rebalanced', () => {
+    const edited = withFlows({ f1: { value: 70, color: '#0f0' }, f2: { value: 30 } })
+    expect(describeEdit(before, after({ flows: edited }))).toBe('Edited flow Signup→Paid')
+    expect(describeEdit(before, after({ flows: withFlows({ f1: { value: 70 }, f2: { value: 30 } }) }))).toBe('Edited 2 flows')
+  })
+
+  it('names section, attribute and settings changes', () => {
+    const section = { id: 's1', name: 'Checkout', fromStageId: 'a', toStageId: 'b' }
+    expect(describeEdit(before, after({ sections: [section] }))).toBe('Added section Checkout')
+    expect(describeEdit(before, after({ attributeDefinitions: [{ id: 'x', name: 'Owner', type: 'text' }] }))).toBe('Changed attributes')
+    expect(describeEdit(before, after({ settings: { rootTotal: 1000 } }))).toBe('Changed amounts')
+    expect(describeEdit(before, after({}))).toBe('No changes')
+  })
+})
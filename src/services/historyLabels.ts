@@ -0,0 +1,74 @@
+// Names for the steps in the edit history, e.g. "Moved Checkout" or "Deleted flow Paid→Churn"
+//
+// Steps are named after what changed between the diagram before and after them, so the
+// canvas doesn't have to say what it did. Steps that change several kinds of things are
+// named after the most telling change: deleting a stage also deletes its flows, but is
+// listed as "Deleted stage ...".
+import { Stage, Flow } from '../types'
+import { diffDiagrams, isDiffEmpty, DiagramContents } from './diagramDiff'
+
+const MOVE_FIELDS = ['position', 'yPosition']
+const BAND_ORDER_FIELDS = ['branchIndex', 'targetIndex']
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+// Names of the fields that differ between two versions of a stage or flow
+function changedFields<T extends object>(before: T, after: T): string[] {
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  return [...keys].filter(key =>
+    JSON.stringify((before as Record<string, unknown>)[key]) !== JSON.stringify((after as Record<string, unknown>)[key])
+  )
+}
+
+const onlyChanges = <T extends object>(changes: Array<{ before: T; after: T }>, fields: string[]) =>
+  changes.every(({ before, after }) => changedFields(before, after).every(field => fields.includes(field)))
+
+export function describeEdit(before: DiagramContents, after: DiagramContents): string {
+  const diff = diffDiagrams(before, after)
+  if (isDiffEmpty(diff)) return 'No changes'
+
+  const stageNames = new Map([...before.stages, ...after.stages].map((stage: Stage) => [stage.id, stage.name]))
+  const stageName = (id: string) => stageNames.get(id) || 'untitled stage'
+  const flowName = (flow: Flow) => `${stageName(flow.fromStageId)}→${stageName(flow.toStageId)}`
+  const { stages, flows, sections } = diff
+
+  if (stages.removed.length > 0) {
+    return stages.removed.length === 1 ? `Deleted stage ${stages.removed[0].name}` : `Deleted ${plural(stages.removed.length, 'stage')}`
+  }
+  if (stages.added.length > 0) {
+    return stages.added.length === 1 ? `Added stage ${stages.added[0].name}` : `Added ${plural(stages.added.length, 'stage')}`
+  }
+  if (flows.removed.length > 0) {
+    return flows.removed.length === 1 ? `Deleted flow ${flowName(flows.removed[0])}` : `Deleted ${plural(flows.removed.length, 'flow')}`
+  }
+  if (flows.added.length > 0) {
+    return flows.added.length === 1 ? `Added flow ${flowName(flows.added[0])}` : `Added ${plural(flows.added.length, 'flow')}`
+  }
+  if (flows.changed.length > 0 && onlyChanges(flows.changed, BAND_ORDER_FIELDS)) {
+    const [{ after }] = flows.changed
+    return `Reordered bands of ${stageName(onlyChanges(flows.changed, ['targetIndex']) ? after.toStageId : after.fromStageId)}`
+  }
+  if (stages.changed.length > 0) {
+    const [first] = stages.changed
+    if (onlyChanges(stages.changed, MOVE_FIELDS)) {
+      return stages.changed.length === 1 ? `Moved ${first.after.name}` : `Moved ${plural(stages.changed.length, 'stage')}`
+    }
+    if (stages.changed.length === 1 && onlyChanges(stages.changed, ['name'])) {
+      return `Renamed ${first.before.name} to ${first.after.name}`
+    }
+    return stages.changed.length === 1 ? `Edited stage ${first.after.name}` : `Edited ${plural(stages.changed.length, 'stage')}`
+  }
+  if (flows.changed.length > 0) {
+    // Editing one flow rebalances its siblings; name the step after the flow that was edited
+    const edited = flows.changed.filter(({ before, after }) => changedFields(before, after).some(field => field !== 'value'))
+    if (edited.length === 1) return `Edited flow ${flowName(edited[0].after)}`
+    return flows.changed.length === 1 ? `Edited flow ${flowName(flows.changed[0].after)}` : `Edited ${plural(flows.changed.length, 'flow')}`
+  }
+  if (sections.removed.length > 0) return `Deleted section ${sections.removed[0].name}`
+  if (sections.added.length > 0) return `Added section ${sections.added[0].name}`
+  if (sections.changed.length > 0) return `Edited section ${sections.changed[0].after.name}`
+  if (diff.attributeDefinitions.added.length + diff.attributeDefinitions.removed.length + diff.attributeDefinitions.changed.length > 0) {
+    return 'Changed attributes'
+  }
+  return 'Changed amounts'
+}
@@ -0,0 +1,94 @@
+import { describe, it, expect } from 'vitest'
+import { Stage, Flow } from '../types'
+import { checkIntegrity, applyIntegrityFix, repairAll } from './integrity'
+
+const stage = (id: string, extra: Partial<Stage> = {}): Stage => ({ id, name: id, position: 0, ...extra })
+
+const flow = (id: string, fromStageId: string, toStageId: string, extra: Partial<Flow> = {}): Flow => ({
+  id,
+  name: id,
+  fromStageId,
+  toStageId,
+  value: 10,
+  ...extra,
+})
+
+describe('checkIntegrity', () => {
+  it('finds nothing in a sound diagram', () => {
+    expect(checkIntegrity({ stages: [stage('a'), stage('b')], flows: [flow('f1', 'a', 'b')] })).toEqual([])
+  })
+
+  it('finds duplicate ids, orphan flows and invalid numbers', () => {
+    const issues = checkIntegrity({
+      stages: [stage('a'), stage('a'), stage('b', { position: NaN })],
+      flows: [
+        flow('f1', 'a', 'x'),
+        flow('f1', 'a', 'b', { value: -1 }),
+        flow('f2', 'a', 'b', { periodValues: { W1: 5, W2: Infinity } }),
+        flow('f3', 'x', 'y'),
+      ],
+    })
+    expect(issues.map(issue => [issue.type, issue.index])).toEqual([
+      ['duplicate-stage-id', 1],
+      ['invalid-stage-position', 2],
+      ['duplicate-flow-id', 1],
+      ['orphan-flow', 0],
+      ['invalid-flow-value', 1],
+      ['invalid-flow-value', 2],
+      ['orphan-flow', 3],
+    ])
+    expect(issues[3].message).toBe('Flow "f1" points at a stage that does not exist ("x")')
+    expect(issues[5].message).toBe('Flow "f2" has an invalid value for W2 (Infinity)')
+  })
+
+  it('only offers to re-link a flow with one missing end', () => {
+    const issues = checkIntegrity({ stages: [stage('a')], flows: [flow('f1', 'a', 'x'), flow('f2', 'x', 'y')] })
+    expect(issues.map(issue => issue.fixes)).toEqual([
+      ['remove', 'relink', 'recreate-stage'],
+      ['remove', 'recreate-stage'],
+    ])
+  })
+})
+
+describe('applyIntegrityFix', () => {
+  const data = { stages: [stage('a'), stage('a', { position: 50 })], flows: [flow('f1', 'a', 'x', { value: NaN })] }
+  const issueOf = (type: string) => checkIntegrity(data).find(issue => issue.type === type)!
+
+  it('gives a duplicate a fresh id', () => {
+    const fixed = applyIntegrityFix(data, issueOf('duplicate-stage-id'), 'new-id')
+    expect(fixed.stages.map(s => s.id)).toEqual(['a', 'a-2'])
+  })
+
+  it('re-links the missing end of a flow', () => {
+    const fixed = applyIntegrityFix(data, issueOf('orphan-flow'), 'relink', 'a')
+    expect(fixed.flows[0]).toMatchObject({ fromStageId: 'a', toStageId: 'a' })
+  })
+
+  it('recreates a missing stage next to the existing end', () => {
+    const fixed = applyIntegrityFix(data, issueOf('orphan-flow'), 'recreate-stage')
+    expect(fixed.stages[2]).toEqual({ id: 'x', name: 'Missing stage x', position: 10 })
+  })
+
+  it('resets invalid values and removes items', () => {
+    expect(applyIntegrityFix(data, issueOf('invalid-flow-value'), 'reset-value').flows[0].value).toBe(0)
+    expect(applyIntegrityFix(data, issueOf('invalid-flow-value'), 'remove').flows).toEqual([])
+  })
+
+  it('leaves the data passed in alone', () => {
+    applyIntegrityFix(data, issueOf('duplicate-stage-id'), 'remove')
+    expect(data.stages).toHaveLength(2)
+  })
+})
+
+describe('repairAll', () => {
+  it('applies the recommended fix until no problems are left', () => {
+    const repaired = repairAll({
+      stages: [stage('a'), stage('a'), stage('b', { yPosition: NaN })],
+      flows: [flow('f1', 'a', 'b'), flow('f1', 'a', 'x'), flow('f2', 'a', 'b', { value: -5 })],
+    })
+    expect(checkIntegrity(repaired)).toEqual([])
+    expect(repaired.stages.map(s => s.id)).toEqual(['a', 'a-2', 'b'])
+    expect(repaired.stages[2]).not.toHaveProperty('yPosition')
+    expect(repaired.flows.map(f => [f.id, f.value])).toEqual([['f1', 10], ['f2', 0]])
+  })
+})
@@ -0,0 +1,211 @@
+// Integrity check for loaded diagrams
+//
+// Storage returns whatever rows are present. Foreign keys are never enforced (sql.js
+// leaves PRAGMA foreign_keys off, localStorage and servers have none), so orphan flows,
+// duplicate ids and invalid numbers can pile up. This finds them and applies fixes
+// chosen in the IntegrityReport.
+import { Stage, Flow } from '../types'
+import { DiagramData } from './storageAdapter'
+
+export type IntegrityIssueType =
+  | 'orphan-flow'
+  | 'duplicate-stage-id'
+  | 'duplicate-flow-id'
+  | 'invalid-flow-value'
+  | 'invalid-stage-position'
+
+// remove:         drop the stage or flow
+// new-id:         give a duplicate a fresh id
+// recreate-stage: add a placeholder stage for each id an orphan flow points at
+// relink:         point the missing end of an orphan flow at an existing stage
+// reset-value:    replace the invalid numbers with 0 (or the default position)
+export type IntegrityFix = 'remove' | 'new-id' | 'recreate-stage' | 'relink' | 'reset-value'
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType
+  entity: 'stage' | 'flow'
+  // Position in the stages or flows array - ids may be duplicated
+  index: number
+  message: string
+  // Possible fixes, the recommended one first
+  fixes: IntegrityFix[]
+}
+
+const isValidNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+// Later occurrences of an id that was already used
+function findDuplicates(items: Array<{ id: string }>): number[] {
+  const seen = new Set<string>()
+  const duplicates: number[] = []
+  items.forEach((item, index) => {
+    if (seen.has(item.id)) duplicates.push(index)
+    seen.add(item.id)
+  })
+  return duplicates
+}
+
+export function checkIntegrity(data: DiagramData): IntegrityIssue[] {
+  const issues: IntegrityIssue[] = []
+  const stageIds = new Set(data.stages.map(stage => stage.id))
+
+  for (const index of findDuplicates(data.stages)) {
+    const stage = data.stages[index]
+    issues.push({
+      type: 'duplicate-stage-id',
+      entity: 'stage',
+      index,
+      message: `Stage "${stage.name}" uses the id "${stage.id}", which another stage already has`,
+      fixes: ['new-id', 'remove'],
+    })
+  }
+
+  data.stages.forEach((stage, index) => {
+    const badY = stage.yPosition !== undefined && stage.yPosition !== null && !isValidNumber(stage.yPosition)
+    if (!isValidNumber(stage.position) || badY) {
+      issues.push({
+        type: 'invalid-stage-position',
+        entity: 'stage',
+        index,
+        message: `Stage "${stage.name}" has an invalid position (${!isValidNumber(stage.position) ? stage.position : stage.yPosition})`,
+        fixes: ['reset-value', 'remove'],
+      })
+    }
+  })
+
+  for (const index of findDuplicates(data.flows)) {
+    const flow = data.flows[index]
+    issues.push({
+      type: 'duplicate-flow-id',
+      entity: 'flow',
+      index,
+      message: `Flow "${flow.name}" uses the id "${flow.id}", which another flow already has`,
+      fixes: ['new-id', 'remove'],
+    })
+  }
+
+  data.flows.forEach((flow, index) => {
+    const missing = [flow.fromStageId, flow.toStageId].filter(id => !stageIds.has(id))
+    if (missing.length > 0) {
+      issues.push({
+        type: 'orphan-flow',
+        entity: 'flow',
+        index,
+        message: `Flow "${flow.name}" points at ${missing.length === 1 ? 'a stage that does not exist' : 'stages that do not exist'} (${[...new Set(missing)].map(id => `"${id}"`).join(', ')})`,
+        // Re-linking both ends to the same stage would only make a loop
+        fixes: data.stages.length > 0 && missing.length === 1 ? ['remove', 'relink', 'recreate-stage'] : ['remove', 'recreate-stage'],
+      })
+    }
+    if (!isValidNumber(flow.value) || flow.value < 0) {
+      issues.push({
+        type: 'invalid-flow-value',
+        entity: 'flow',
+        index,
+        message: `Flow "${flow.name}" has an invalid value (${flow.value})`,
+        fixes: ['reset-value', 'remove'],
+      })
+    } else {
+      const invalidPeriods = Object.entries(flow.periodValues ?? {}).filter(([, value]) => !isValidNumber(value) || value < 0)
+      if (invalidPeriods.length > 0) {
+        issues.push({
+          type: 'invalid-flow-value',
+          entity: 'flow',
+          index,
+          message: `Flow "${flow.name}" has an invalid value for ${invalidPeriods.map(([period, value]) => `${period} (${value})`).join(', ')}`,
+          fixes: ['reset-value', 'remove'],
+        })
+      }
+    }
+  })
+
+  return issues
+}
+
+// Id not used by any of the items yet, e.g. "stage-3-2"
+function freshId(base: string, items: Array<{ id: string }>): string {
+  const ids = new Set(items.map(item => item.id))
+  let counter = 2
+  while (ids.has(`${base}-${counter}`)) counter++
+  return `${base}-${counter}`
+}
+
+// Apply one fix and return the repaired data. `stageId` is the target of a relink.
+export function applyIntegrityFix(data: DiagramData, issue: IntegrityIssue, fix: IntegrityFix, stageId?: string): DiagramData {
+  const stages = [...data.stages]
+  const flows = [...data.flows]
+
+  if (issue.entity === 'stage') {
+    const stage = stages[issue.index]
+    switch (fix) {
+      case 'remove':
+        stages.splice(issue.index, 1)
+        break
+      case 'new-id':
+        stages[issue.index] = { ...stage, id: freshId(stage.id, stages) }
+        break
+      case 'reset-value': {
+        const repaired: Stage = { ...stage, position: isValidNumber(stage.position) ? stage.position : 0 }
+        if (!isValidNumber(repaired.yPosition)) delete repaired.yPosition
+        stages[issue.index] = repaired
+        break
+      }
+    }
+    return { stages, flows }
+  }
+
+  const flow = flows[issue.index]
+  switch (fix) {
+    case 'remove':
+      flows.splice(issue.index, 1)
+      break
+    case 'new-id':
+      flows[issue.index] = { ...flow, id: freshId(flow.id, flows) }
+      break
+    case 'reset-value': {
+      const repaired: Flow = { ...flow, value: isValidNumber(flow.value) && flow.value >= 0 ? flow.value : 0 }
+      if (flow.periodValues) {
+        repaired.periodValues = Object.fromEntries(
+          Object.entries(flow.periodValues).map(([period, value]) => [period, isValidNumber(value) && value >= 0 ? value : 0])
+        )
+      }
+      flows[issue.index] = repaired
+      break
+    }
+    case 'relink': {
+      if (!stageId) break
+      const stageIds = new Set(stages.map(stage => stage.id))
+      const relinked: Flow = { ...flow }
+      if (!stageIds.has(flow.fromStageId)) relinked.fromStageId = stageId
+      if (!stageIds.has(flow.toStageId)) relinked.toStageId = stageId
+      flows[issue.index] = relinked
+      break
+    }
+    case 'recreate-stage': {
+      const fromStage = stages.find(stage => stage.id === flow.fromStageId)
+      const toStage = stages.find(stage => stage.id === flow.toStageId)
+      if (!fromStage) {
+        // Put the missing start a little before the stage the flow ends at
+        const position = toStage && isValidNumber(toStage.position) ? Math.max(0, toStage.position - 10) : 0
+        stages.push({ id: flow.fromStageId, name: `Missing stage ${flow.fromStageId}`, position })
+      }
+      if (!toStage && flow.toStageId !== flow.fromStageId) {
+        const position = fromStage && isValidNumber(fromStage.position) ? Math.min(100, fromStage.position + 10) : 100
+        stages.push({ id: flow.toStageId, name: `Missing stage ${flow.toStageId}`, position })
+      }
+      break
+    }
+  }
+  return { stages, flows }
+}
+
+// Apply the recommended fix to every issue
+export function repairAll(data: DiagramData): DiagramData {
+  let repaired = data
+  // Fixes can resolve or reveal other issues, so check again after each one.
+  // Each fix removes at least one issue; the limit only guards against surprises.
+  for (let attempts = checkIntegrity(data).length * 2 + 10; attempts > 0; attempts--) {
+    const [issue] = checkIntegrity(repaired)
+    if (!issue) break
+    repaired = applyIntegrityFix(repaired, issue, issue.fixes[0])
+  }
+  return repaired
+}
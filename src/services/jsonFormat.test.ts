@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { Stage, Flow, Section, AttributeDefinition, Diagram } from '../types'
+import { exportDiagramJson, parseDiagramJson, diagramFileName, DiagramFormatError, DIAGRAM_FORMAT_VERSION } from './jsonFormat'
+
+const diagram: Diagram = { id: 'd1', name: 'Checkout', createdAt: '2024-04-01T08:00:00.000Z', updatedAt: '2024-05-01T09:29:00.000Z' }
+
+const definitions: AttributeDefinition[] = [
+  { id: 'attr-1', name: 'Owner', type: 'text' },
+  { id: 'attr-2', name: 'Tier', type: 'enum', options: ['Gold', 'Silver'] },
+]
+
+const stages: Stage[] = [
+  { id: '1', name: 'Cart', position: 0, yPosition: 240, color: '#667eea', attributes: { 'attr-1': 'Web team' }, pinned: true, manualBandOrder: true },
+  { id: '2', name: 'Payment', position: 50, manualIncomingBandOrder: true },
+  { id: '3', name: 'Done', position: 100 },
+]
+
+const flows: Flow[] = [
+  { id: 'f1', name: 'Cart → Payment', fromStageId: '1', toStageId: '2', value: 80, branchIndex: 0, targetIndex: 0, periodValues: { 'W17': 70, 'W18': 80 } },
+  { id: 'f2', name: 'Payment → Done', fromStageId: '2', toStageId: '3', value: 60, attributes: { 'attr-2': 'Gold' } },
+]
+
+const sections: Section[] = [{ id: 's1', name: 'Checkout', fromStageId: '1', toStageId: '2', content: '# Notes' }]
+
+const exported = () => JSON.parse(exportDiagramJson(diagram, stages, flows, definitions, { rootTotal: 5000, unit: 'users' }, sections))
+
+// Errors listed for a file, or [] when it parses
+const errorsOf = (file: unknown): string[] => {
+  try {
+    parseDiagramJson(JSON.stringify(file))
+    return []
+  } catch (error) {
+    if (error instanceof DiagramFormatError) return error.errors
+    throw error
+  }
+}
+
+describe('exportDiagramJson and parseDiagramJson', () => {
+  it('keep every field through a round trip', () => {
+    const file = parseDiagramJson(JSON.stringify(exported()))
+    expect(file.version).toBe(DIAGRAM_FORMAT_VERSION)
+    expect(file.diagram).toEqual({ name: 'Checkout', createdAt: diagram.createdAt, updatedAt: diagram.updatedAt })
+    expect(file.stages).toEqual(stages)
+    expect(file.flows).toEqual(flows)
+    expect(file.sections).toEqual(sections)
+    expect(file.attributeDefinitions).toEqual(definitions)
+    expect(file.settings).toEqual({ rootTotal: 5000, unit: 'users' })
+  })
+
+  it('read files without the optional lists', () => {
+    const { sections: _sections, attributeDefinitions: _definitions, settings: _settings, ...rest } = exported()
+    const file = parseDiagramJson(JSON.stringify({ ...rest, stages: [stages[2]], flows: [] }))
+    expect(file.sections).toEqual([])
+    expect(file.attributeDefinitions).toEqual([])
+    expect(file.settings).toEqual({})
+  })
+
+  it('drop unknown properties', () => {
+    const file = exported()
+    file.stages[2].extra = 'x'
+    expect(parseDiagramJson(JSON.stringify(file)).stages[2]).not.toHaveProperty('extra')
+  })
+})
+
+describe('parseDiagramJson', () => {
+  it('rejects other files and newer versions', () => {
+    expect(errorsOf({ format: 'other' })[0]).toMatch(/does not look like a diagram export/)
+    expect(errorsOf({ ...exported(), version: 0 })).toEqual(['"version" must be a positive integer'])
+    expect(errorsOf({ ...exported(), version: DIAGRAM_FORMAT_VERSION + 1 })[0]).toMatch(/only supports up to version/)
+    expect(() => parseDiagramJson('{')).toThrow(/Not valid JSON/)
+  })
+
+  it('lists every problem with the item it belongs to', () => {
+    const file = exported()
+    file.stages[1].position = 'left'
+    file.flows[0].value = -1
+    file.flows[1].toStageId = '9'
+    file.flows[1].attributes = { 'attr-2': 'Bronze', 'attr-3': 'x' }
+    file.sections.push({ ...sections[0] })
+    expect(errorsOf(file)).toEqual([
+      'stages[1] ("Payment"): "position" must be a number',
+      'flows[0] ("Cart → Payment"): "value" must not be negative (got -1)',
+      'flows[1] ("Payment → Done"): "toStageId" refers to stage "9", which does not exist',
+      'flows[1] ("Payment → Done"): Tier must be one of: Gold, Silver (got "Bronze")',
+      'flows[1] ("Payment → Done"): attribute "attr-3" is not defined in "attributeDefinitions"',
+      'sections[1]: duplicate id "s1" (already used by sections[0])',
+    ])
+  })
+
+  it('checks the optional fields when they are present', () => {
+    const file = exported()
+    file.stages[0].pinned = 'yes'
+    file.flows[0].targetIndex = 1.5
+    file.flows[0].periodValues = { ' ': 1, W19: -2 }
+    file.settings = { rootTotal: 0, unit: 3 }
+    file.attributeDefinitions[1].options = []
+    expect(errorsOf(file)).toEqual(expect.arrayContaining([
+      'stages[0] ("Cart"): "pinned" must be true or false if present',
+      'flows[0] ("Cart → Payment"): "targetIndex" must be an integer if present',
+      'flows[0] ("Cart → Payment"): "periodValues" has an empty period label',
+      'flows[0] ("Cart → Payment"): the value for period "W19" must be a non-negative number',
+      '"settings.rootTotal" must be a positive number if present',
+      '"settings.unit" must be a string if present',
+      'attributeDefinitions[1] ("Tier"): an enum attribute needs "options"',
+    ]))
+  })
+})
+
+describe('diagramFileName', () => {
+  it('turns the diagram name into a file name', () => {
+    expect(diagramFileName('Checkout funnel')).toBe('checkout-funnel.json')
+    expect(diagramFileName(' ?! ', 'csv')).toBe('diagram.csv')
+  })
+})
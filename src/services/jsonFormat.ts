@@ -0,0 +1,379 @@
+// Versioned JSON file format for a single diagram
+//
+// {
+//   "format": "flow-diagram",
+//   "version": 1,
+//   "exportedAt": "2024-01-01T12:00:00.000Z",
+//   "diagram": { "name": "...", "createdAt": "...", "updatedAt": "..." },
+//   "stages": [Stage, ...],                              (pinned, manualBandOrder and manualIncomingBandOrder optional)
+//   "flows": [Flow, ...],                                (periodValues and targetIndex optional)
+//   "sections": [Section, ...]                          (optional)
+//   "attributeDefinitions": [AttributeDefinition, ...]   (optional, values are on stages and flows)
+//   "settings": { "rootTotal": 5000, "unit": "users" }    (optional)
+// }
+//
+// Bump DIAGRAM_FORMAT_VERSION when the shape changes in a way older readers can't handle,
+// and keep parseDiagramJson able to read every earlier version. New fields that can be left
+// out without changing what a file means stay in version 1: they are optional, files
+// without them still read the same, and parseDiagramJson and exportDiagramJson must keep
+// them so a diagram survives an export and import round trip.
+import { Stage, Flow, Section, Diagram, AttributeDefinition, AttributeValues, DiagramSettings } from '../types'
+import { isAttributeType, validateAttributeValue } from './attributes'
+import { normalizeSettings } from './amounts'
+
+export const DIAGRAM_FORMAT = 'flow-diagram'
+export const DIAGRAM_FORMAT_VERSION = 1
+
+export interface DiagramFile {
+  format: typeof DIAGRAM_FORMAT
+  version: number
+  exportedAt: string
+  diagram: Pick<Diagram, 'name' | 'createdAt' | 'updatedAt'>
+  stages: Stage[]
+  flows: Flow[]
+  sections: Section[]
+  attributeDefinitions: AttributeDefinition[]
+  settings: DiagramSettings
+}
+
+// Thrown when an imported file doesn't match the format. Lists every problem found.
+export class DiagramFormatError extends Error {
+  errors: string[]
+
+  constructor(errors: string[]) {
+    super(`Invalid diagram file:\n${errors.map(e => `- ${e}`).join('\n')}`)
+    this.name = 'DiagramFormatError'
+    this.errors = errors
+  }
+}
+
+export function exportDiagramJson(
+  diagram: Diagram,
+  stages: Stage[],
+  flows: Flow[],
+  attributeDefinitions: AttributeDefinition[] = [],
+  settings: DiagramSettings = {},
+  sections: Section[] = []
+): string {
+  const file: DiagramFile = {
+    format: DIAGRAM_FORMAT,
+    version: DIAGRAM_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    diagram: { name: diagram.name, createdAt: diagram.createdAt, updatedAt: diagram.updatedAt },
+    stages,
+    flows,
+    sections,
+    attributeDefinitions,
+    settings: normalizeSettings(settings),
+  }
+  return JSON.stringify(file, null, 2)
+}
+
+// File name for an exported diagram, e.g. "Checkout funnel" -> "checkout-funnel.json"
+export function diagramFileName(name: string, extension: string = 'json'): string {
+  const slug = name.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${slug || 'diagram'}.${extension}`
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+// Label used in error messages, e.g. 'flows[2] ("Signup")'
+function describeItem(list: string, index: number, item: Record<string, unknown>): string {
+  return typeof item.name === 'string' && item.name ? `${list}[${index}] ("${item.name}")` : `${list}[${index}]`
+}
+
+function parseAttributeDefinition(value: unknown, index: number, errors: string[]): AttributeDefinition | null {
+  if (!isObject(value)) {
+    errors.push(`attributeDefinitions[${index}] must be an object`)
+    return null
+  }
+  const label = describeItem('attributeDefinitions', index, value)
+  const errorCount = errors.length
+
+  if (typeof value.id !== 'string' || value.id === '') errors.push(`${label}: "id" must be a non-empty string`)
+  if (typeof value.name !== 'string' || value.name.trim() === '') errors.push(`${label}: "name" must be a non-empty string`)
+  if (!isAttributeType(value.type)) errors.push(`${label}: "type" must be one of text, number, date, url, enum`)
+  const options = value.options
+  if (options !== undefined && (!Array.isArray(options) || options.some(option => typeof option !== 'string'))) {
+    errors.push(`${label}: "options" must be an array of strings if present`)
+  } else if (value.type === 'enum' && (!Array.isArray(options) || options.length === 0)) {
+    errors.push(`${label}: an enum attribute needs "options"`)
+  }
+  if (errors.length > errorCount) return null
+
+  const definition: AttributeDefinition = { id: value.id as string, name: value.name as string, type: value.type as AttributeDefinition['type'] }
+  if (options !== undefined) definition.options = options as string[]
+  return definition
+}
+
+// Values must belong to a defined attribute and fit its type
+function parseAttributeValues(
+  value: unknown,
+  label: string,
+  definitions: Map<string, AttributeDefinition>,
+  errors: string[]
+): AttributeValues | undefined {
+  if (value === undefined) return undefined
+  if (!isObject(value)) {
+    errors.push(`${label}: "attributes" must be an object if present`)
+    return undefined
+  }
+  for (const [attributeId, attributeValue] of Object.entries(value)) {
+    const definition = definitions.get(attributeId)
+    if (!definition) {
+      errors.push(`${label}: attribute "${attributeId}" is not defined in "attributeDefinitions"`)
+    } else if (typeof attributeValue !== 'string') {
+      errors.push(`${label}: the value of "${definition.name}" must be a string`)
+    } else {
+      const problem = validateAttributeValue(definition, attributeValue)
+      if (problem) errors.push(`${label}: ${problem} (got "${attributeValue}")`)
+    }
+  }
+  return value as AttributeValues
+}
+
+function parseStage(value: unknown, index: number, definitions: Map<string, AttributeDefinition>, errors: string[]): Stage | null {
+  if (!isObject(value)) {
+    errors.push(`stages[${index}] must be an object`)
+    return null
+  }
+  const label = describeItem('stages', index, value)
+  const errorCount = errors.length
+
+  if (typeof value.id !== 'string' || value.id === '') errors.push(`${label}: "id" must be a non-empty string`)
+  if (typeof value.name !== 'string') errors.push(`${label}: "name" must be a string`)
+  if (!isFiniteNumber(value.position)) errors.push(`${label}: "position" must be a number`)
+  if (value.yPosition !== undefined && !isFiniteNumber(value.yPosition)) errors.push(`${label}: "yPosition" must be a number if present`)
+  if (value.color !== undefined && typeof value.color !== 'string') errors.push(`${label}: "color" must be a string if present`)
+  if (value.description !== undefined && typeof value.description !== 'string') errors.push(`${label}: "description" must be a string if present`)
+  if (value.pinned !== undefined && typeof value.pinned !== 'boolean') errors.push(`${label}: "pinned" must be true or false if present`)
+  if (value.manualBandOrder !== undefined && typeof value.manualBandOrder !== 'boolean') {
+    errors.push(`${label}: "manualBandOrder" must be true or false if present`)
+  }
+  if (value.manualIncomingBandOrder !== undefined && typeof value.manualIncomingBandOrder !== 'boolean') {
+    errors.push(`${label}: "manualIncomingBandOrder" must be true or false if present`)
+  }
+  const attributes = parseAttributeValues(value.attributes, label, definitions, errors)
+  if (errors.length > errorCount) return null
+
+  // Copy known fields only, so stray properties don't end up in storage
+  return {
+    id: value.id as string,
+    name: value.name as string,
+    position: value.position as number,
+    yPosition: value.yPosition as number | undefined,
+    color: value.color as string | undefined,
+    description: value.description as string | undefined,
+    attributes,
+    pinned: value.pinned === true ? true : undefined,
+    manualBandOrder: value.manualBandOrder === true ? true : undefined,
+    manualIncomingBandOrder: value.manualIncomingBandOrder === true ? true : undefined,
+  }
+}
+
+function parseFlow(
+  value: unknown,
+  index: number,
+  stageIds: Set<string>,
+  definitions: Map<string, AttributeDefinition>,
+  errors: string[]
+): Flow | null {
+  if (!isObject(value)) {
+    errors.push(`flows[${index}] must be an object`)
+    return null
+  }
+  const label = describeItem('flows', index, value)
+  const errorCount = errors.length
+
+  if (typeof value.id !== 'string' || value.id === '') errors.push(`${label}: "id" must be a non-empty string`)
+  if (typeof value.name !== 'string') errors.push(`${label}: "name" must be a string`)
+  for (const key of ['fromStageId', 'toStageId'] as const) {
+    const stageId = value[key]
+    if (typeof stageId !== 'string' || stageId === '') {
+      errors.push(`${label}: "${key}" is missing`)
+    } else if (!stageIds.has(stageId)) {
+      errors.push(`${label}: "${key}" refers to stage "${stageId}", which does not exist`)
+    }
+  }
+  if (!isFiniteNumber(value.value)) {
+    errors.push(`${label}: "value" must be a number`)
+  } else if (value.value < 0) {
+    errors.push(`${label}: "value" must not be negative (got ${value.value})`)
+  }
+  if (value.branchIndex !== undefined && !Number.isInteger(value.branchIndex)) errors.push(`${label}: "branchIndex" must be an integer if present`)
+  if (value.targetIndex !== undefined && !Number.isInteger(value.targetIndex)) errors.push(`${label}: "targetIndex" must be an integer if present`)
+  if (value.color !== undefined && typeof value.color !== 'string') errors.push(`${label}: "color" must be a string if present`)
+  const periodValues = value.periodValues
+  if (periodValues !== undefined) {
+    if (!isObject(periodValues)) {
+      errors.push(`${label}: "periodValues" must be an object if present`)
+    } else {
+      for (const [period, periodValue] of Object.entries(periodValues)) {
+        if (period.trim() === '') errors.push(`${label}: "periodValues" has an empty period label`)
+        if (!isFiniteNumber(periodValue) || periodValue < 0) errors.push(`${label}: the value for period "${period}" must be a non-negative number`)
+      }
+    }
+  }
+  const attributes = parseAttributeValues(value.attributes, label, definitions, errors)
+  if (errors.length > errorCount) return null
+
+  return {
+    id: value.id as string,
+    name: value.name as string,
+    fromStageId: value.fromStageId as string,
+    toStageId: value.toStageId as string,
+    value: value.value as number,
+    branchIndex: value.branchIndex as number | undefined,
+    color: value.color as string | undefined,
+    attributes,
+    periodValues: periodValues as Record<string, number> | undefined,
+    targetIndex: value.targetIndex as number | undefined,
+  }
+}
+
+function parseSection(value: unknown, index: number, stageIds: Set<string>, errors: string[]): Section | null {
+  if (!isObject(value)) {
+    errors.push(`sections[${index}] must be an object`)
+    return null
+  }
+  const label = describeItem('sections', index, value)
+  const errorCount = errors.length
+
+  if (typeof value.id !== 'string' || value.id === '') errors.push(`${label}: "id" must be a non-empty string`)
+  if (typeof value.name !== 'string') errors.push(`${label}: "name" must be a string`)
+  for (const key of ['fromStageId', 'toStageId'] as const) {
+    const stageId = value[key]
+    if (typeof stageId !== 'string' || stageId === '') {
+      errors.push(`${label}: "${key}" is missing`)
+    } else if (!stageIds.has(stageId)) {
+      errors.push(`${label}: "${key}" refers to stage "${stageId}", which does not exist`)
+    }
+  }
+  if (value.content !== undefined && typeof value.content !== 'string') errors.push(`${label}: "content" must be a string if present`)
+  if (value.color !== undefined && typeof value.color !== 'string') errors.push(`${label}: "color" must be a string if present`)
+  if (errors.length > errorCount) return null
+
+  return {
+    id: value.id as string,
+    name: value.name as string,
+    fromStageId: value.fromStageId as string,
+    toStageId: value.toStageId as string,
+    content: value.content as string | undefined,
+    color: value.color as string | undefined,
+  }
+}
+
+function findDuplicateIds(list: string, items: unknown[], errors: string[]): void {
+  const seen = new Map<string, number>()
+  items.forEach((item, index) => {
+    if (!isObject(item) || typeof item.id !== 'string') return
+    const first = seen.get(item.id)
+    if (first !== undefined) {
+      errors.push(`${list}[${index}]: duplicate id "${item.id}" (already used by ${list}[${first}])`)
+    } else {
+      seen.set(item.id, index)
+    }
+  })
+}
+
+function parseSettings(value: Record<string, unknown>, errors: string[]): DiagramSettings {
+  const { rootTotal, unit } = value
+  if (rootTotal !== undefined && !(typeof rootTotal === 'number' && Number.isFinite(rootTotal) && rootTotal > 0)) {
+    errors.push('"settings.rootTotal" must be a positive number if present')
+  }
+  if (unit !== undefined && typeof unit !== 'string') errors.push('"settings.unit" must be a string if present')
+  return normalizeSettings({
+    rootTotal: typeof rootTotal === 'number' ? rootTotal : undefined,
+    unit: typeof unit === 'string' ? unit : undefined,
+  })
+}
+
+// Parse and strictly validate a diagram file. Throws DiagramFormatError listing all problems.
+export function parseDiagramJson(text: string): DiagramFile {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (error) {
+    throw new DiagramFormatError([`Not valid JSON: ${error instanceof Error ? error.message : error}`])
+  }
+
+  if (!isObject(data)) {
+    throw new DiagramFormatError(['The file must contain a JSON object'])
+  }
+  if (data.format !== DIAGRAM_FORMAT) {
+    throw new DiagramFormatError([`"format" must be "${DIAGRAM_FORMAT}" - this does not look like a diagram export`])
+  }
+  if (!Number.isInteger(data.version) || (data.version as number) < 1) {
+    throw new DiagramFormatError(['"version" must be a positive integer'])
+  }
+  if ((data.version as number) > DIAGRAM_FORMAT_VERSION) {
+    throw new DiagramFormatError([
+      `The file uses format version ${data.version}, but this app only supports up to version ${DIAGRAM_FORMAT_VERSION}`,
+    ])
+  }
+
+  const errors: string[] = []
+
+  const diagram = data.diagram
+  if (!isObject(diagram)) {
+    errors.push('"diagram" must be an object')
+  } else if (typeof diagram.name !== 'string' || diagram.name.trim() === '') {
+    errors.push('"diagram.name" must be a non-empty string')
+  }
+
+  if (!Array.isArray(data.stages)) errors.push('"stages" must be an array')
+  if (!Array.isArray(data.flows)) errors.push('"flows" must be an array')
+  // Files exported before sections existed have none
+  if (data.sections !== undefined && !Array.isArray(data.sections)) errors.push('"sections" must be an array if present')
+  // Files exported before attributes existed have none
+  if (data.attributeDefinitions !== undefined && !Array.isArray(data.attributeDefinitions)) errors.push('"attributeDefinitions" must be an array if present')
+  if (data.settings !== undefined && !isObject(data.settings)) errors.push('"settings" must be an object if present')
+  if (errors.length > 0) throw new DiagramFormatError(errors)
+
+  const settings = parseSettings(isObject(data.settings) ? data.settings : {}, errors)
+
+  const rawDefinitions = (data.attributeDefinitions ?? []) as unknown[]
+  const attributeDefinitions = rawDefinitions.map((definition, index) => parseAttributeDefinition(definition, index, errors))
+  findDuplicateIds('attributeDefinitions', rawDefinitions, errors)
+  const definitions = new Map(
+    attributeDefinitions.filter((definition): definition is AttributeDefinition => definition !== null).map(definition => [definition.id, definition])
+  )
+
+  const rawStages = data.stages as unknown[]
+  const rawFlows = data.flows as unknown[]
+  const stages = rawStages.map((stage, index) => parseStage(stage, index, definitions, errors))
+  findDuplicateIds('stages', rawStages, errors)
+
+  // Check flow references against every stage id, even of stages with other problems,
+  // so one mistake isn't reported again for each connected flow
+  const stageIds = new Set(rawStages.filter(isObject).map(s => s.id).filter((id): id is string => typeof id === 'string'))
+  const flows = rawFlows.map((flow, index) => parseFlow(flow, index, stageIds, definitions, errors))
+  findDuplicateIds('flows', rawFlows, errors)
+  const rawSections = (data.sections ?? []) as unknown[]
+  const sections = rawSections.map((section, index) => parseSection(section, index, stageIds, errors))
+  findDuplicateIds('sections', rawSections, errors)
+
+  if (errors.length > 0) throw new DiagramFormatError(errors)
+
+  const now = new Date().toISOString()
+  const meta = diagram as Record<string, unknown>
+  return {
+    format: DIAGRAM_FORMAT,
+    version: data.version as number,
+    exportedAt: typeof data.exportedAt === 'string' ? data.exportedAt : now,
+    diagram: {
+      name: (meta.name as string).trim(),
+      createdAt: typeof meta.createdAt === 'string' ? meta.createdAt : now,
+      updatedAt: typeof meta.updatedAt === 'string' ? meta.updatedAt : now,
+    },
+    stages: stages as Stage[],
+    flows: flows as Flow[],
+    sections: sections as Section[],
+    attributeDefinitions: attributeDefinitions as AttributeDefinition[],
+    settings,
+  }
+}
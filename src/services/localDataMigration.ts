@@ -0,0 +1,138 @@
+// Bring diagrams saved to localStorage into the active storage
+//
+// When the SQL.js database can't start, the app falls back to localStorage. On a later
+// visit where it works, those diagrams would otherwise be ignored. This compares each
+// diagram left in localStorage with the active storage and applies what the user picks.
+// The localStorage copy is only removed when the user confirms it separately.
+import { Diagram } from '../types'
+import { StorageAdapter, DiagramData } from './storageAdapter'
+import { diffDiagrams, isDiffEmpty, DiagramDiff } from './diagramDiff'
+import * as localStorageDB from './localStorageDB'
+
+// Fingerprint of localStorage data the user chose to keep without migrating
+const DISMISSED_KEY = 'flow_app_local_migration_dismissed'
+
+export type LocalDiagramStatus = 'missing' | 'identical' | 'different'
+
+// promote: replace the stored diagram with the localStorage copy (or create it)
+// merge:   keep the stored diagram, adding stages and flows that only exist locally
+// copy:    add the localStorage copy as a separate new diagram
+export type LocalDiagramAction = 'promote' | 'merge' | 'copy' | 'skip'
+
+export interface LocalDiagramComparison {
+  local: Diagram
+  localData: DiagramData
+  stored: Diagram | null
+  storedData: DiagramData | null
+  status: LocalDiagramStatus
+  // What promoting would change in the stored diagram
+  diff: DiagramDiff | null
+}
+
+// Compare every non-empty diagram in localStorage with the active storage
+export async function compareLocalStorageData(storage: StorageAdapter): Promise<LocalDiagramComparison[]> {
+  const localDiagrams = await localStorageDB.listDiagramsLocalStorage()
+  if (localDiagrams.length === 0) return []
+
+  const storedDiagrams = await storage.listDiagrams()
+  const comparisons: LocalDiagramComparison[] = []
+  for (const local of localDiagrams) {
+    const localData = await localStorageDB.loadAllLocalStorage(local.id)
+    if (localData.stages.length === 0 && localData.flows.length === 0) continue
+
+    const stored = storedDiagrams.find(d => d.id === local.id) ?? null
+    if (!stored) {
+      comparisons.push({ local, localData, stored: null, storedData: null, status: 'missing', diff: null })
+      continue
+    }
+
+    const storedData = await storage.load(stored.id)
+    const diff = diffDiagrams(storedData, localData)
+    comparisons.push({
+      local,
+      localData,
+      stored,
+      storedData,
+      status: isDiffEmpty(diff) ? 'identical' : 'different',
+      diff,
+    })
+  }
+  return comparisons
+}
+
+// Stored diagram plus the stages, flows, sections and attribute definitions only the local copy has.
+// Where both have the same id, the stored version wins.
+export function mergeDiagramData(stored: DiagramData, local: DiagramData): DiagramData {
+  const diff = diffDiagrams(stored, local)
+  const stages = [...stored.stages, ...diff.stages.added]
+  const stageIds = new Set(stages.map(s => s.id))
+  const flows = [
+    ...stored.flows,
+    ...diff.flows.added.filter(f => stageIds.has(f.fromStageId) && stageIds.has(f.toStageId)),
+  ]
+  const sections = [
+    ...(stored.sections ?? []),
+    ...diff.sections.added.filter(s => stageIds.has(s.fromStageId) && stageIds.has(s.toStageId)),
+  ]
+  const attributeDefinitions = [...(stored.attributeDefinitions ?? []), ...diff.attributeDefinitions.added]
+  return { stages, flows, sections, attributeDefinitions, settings: stored.settings }
+}
+
+// Apply the chosen action to one diagram. Returns the id of the diagram that changed, if any.
+export async function applyLocalDiagramAction(
+  storage: StorageAdapter,
+  comparison: LocalDiagramComparison,
+  action: LocalDiagramAction
+): Promise<string | null> {
+  const { local, localData, stored, storedData } = comparison
+
+  switch (action) {
+    case 'skip':
+      return null
+    case 'copy': {
+      const diagram = await storage.createDiagram(`${local.name} (from browser storage)`)
+      await storage.save(diagram.id, localData)
+      return diagram.id
+    }
+    case 'promote':
+    case 'merge': {
+      if (!stored || !storedData) {
+        await storage.createDiagram(local.name, local.id)
+        await storage.save(local.id, localData)
+        return local.id
+      }
+      // Keep the version being replaced restorable
+      if (storage.snapshots && (storedData.stages.length > 0 || storedData.flows.length > 0)) {
+        await storage.snapshots.create(stored.id, `Before ${action === 'promote' ? 'replacing with' : 'merging'} browser storage copy`, 'manual', storedData)
+      }
+      await storage.save(stored.id, action === 'promote' ? localData : mergeDiagramData(storedData, localData))
+      return stored.id
+    }
+  }
+}
+
+// Identifies the localStorage contents, so a dismissed prompt comes back if they change
+export function localDataFingerprint(comparisons: LocalDiagramComparison[]): string {
+  const text = JSON.stringify(comparisons.map(c => [c.local.id, c.localData]))
+  // djb2 hash - only needs to detect changes, not resist tampering
+  let hash = 5381
+  for (let i = 0; i < text.length; i++) {
+    hash = ((hash << 5) + hash + text.charCodeAt(i)) | 0
+  }
+  return `${text.length}:${(hash >>> 0).toString(16)}`
+}
+
+export function isLocalDataDismissed(fingerprint: string): boolean {
+  return localStorage.getItem(DISMISSED_KEY) === fingerprint
+}
+
+// Keep the localStorage copy but stop asking about it until it changes
+export function dismissLocalData(fingerprint: string): void {
+  localStorage.setItem(DISMISSED_KEY, fingerprint)
+}
+
+// Delete the localStorage copy once the user has confirmed it is no longer needed
+export async function removeLocalStorageData(): Promise<void> {
+  await localStorageDB.clearAllLocalStorage()
+  localStorage.removeItem(DISMISSED_KEY)
+}
@@ -0,0 +1,34 @@
+// Storage adapter for plain JSON in localStorage
+import { StorageAdapter, StorageAdapterId, ViewStateStore } from './storageAdapter'
+import * as localStorageDB from './localStorageDB'
+
+// View states kept in this browser's localStorage. Also used by storage that has no place
+// of its own for them; its deleteDiagram has to remove them with deleteViewStateLocalStorage.
+export function createLocalViewStateStore(storageId: StorageAdapterId): ViewStateStore {
+  return {
+    load: (diagramId) => localStorageDB.loadViewStateLocalStorage(storageId, diagramId),
+    save: (diagramId, viewState) => localStorageDB.saveViewStateLocalStorage(storageId, diagramId, viewState),
+  }
+}
+
+export const localStorageAdapter: StorageAdapter = {
+  id: 'localStorage',
+  label: 'Local storage',
+  persistent: true,
+
+  init: async () => {
+    // Fails early in private modes that block storage
+    localStorage.getItem('flow_app_diagrams')
+    console.log('Using localStorage for persistence')
+  },
+  listDiagrams: () => localStorageDB.listDiagramsLocalStorage(),
+  createDiagram: (name, id) => localStorageDB.createDiagramLocalStorage(name, id),
+  renameDiagram: (diagramId, name) => localStorageDB.renameDiagramLocalStorage(diagramId, name),
+  deleteDiagram: (diagramId) => localStorageDB.deleteDiagramLocalStorage(diagramId),
+  load: (diagramId) => localStorageDB.loadAllLocalStorage(diagramId),
+  save: (diagramId, data) => localStorageDB.saveAllLocalStorage(
+    diagramId, data.stages, data.flows, data.attributeDefinitions, data.settings, data.sections
+  ),
+  rewriteStoredData: () => localStorageDB.rewriteAllLocalStorage(),
+  viewStates: createLocalViewStateStore('localStorage'),
+}
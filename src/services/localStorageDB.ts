@@ -1,12 +1,98 @@
 // Simple localStorage-based persistence as fallback when SQL.js fails
-import { Stage, Flow } from '../types'
+import { Stage, Flow, Diagram, ViewState, AttributeDefinition, DiagramSettings, Section, DEFAULT_DIAGRAM_ID } from '../types'
+import { StorageAdapterId } from './storageAdapter'
+import { serializeSettings } from './amounts'
+import { encryptTextIfEnabled, decryptTextIfEncrypted } from './encryption'
+import { parseViewState } from './viewState'
 
 const STORAGE_KEY_STAGES = 'flow_app_stages'
 const STORAGE_KEY_FLOWS = 'flow_app_flows'
+const STORAGE_KEY_SECTIONS = 'flow_app_sections'
+const STORAGE_KEY_DIAGRAMS = 'flow_app_diagrams'
+// Attribute values are kept on the stages and flows themselves
+const STORAGE_KEY_ATTRIBUTES = 'flow_app_attribute_definitions'
+const STORAGE_KEY_SETTINGS = 'flow_app_settings'
+// Per diagram, always plain JSON - it holds no diagram contents
+const STORAGE_KEY_VIEW_STATE = 'flow_app_view_state'
 
-export async function saveStagesLocalStorage(stages: Stage[]): Promise<void> {
+// The default diagram keeps using the original keys so data saved before
+// multiple diagrams were supported is picked up as-is
+function diagramKey(baseKey: string, diagramId: string): string {
+  return diagramId === DEFAULT_DIAGRAM_ID ? baseKey : `${baseKey}_${diagramId}`
+}
+
+// Other storage keeps its view states here too, each under its own prefix, so diagrams
+// with the same id in different storage don't share one
+function viewStateKey(storageId: StorageAdapterId, diagramId: string): string {
+  return storageId === 'localStorage'
+    ? `${STORAGE_KEY_VIEW_STATE}_${diagramId}`
+    : `flow_app_${storageId}_view_state_${diagramId}`
+}
+
+// Values are encrypted when a passphrase is set, see services/encryption.ts.
+// Decryption errors are not caught, so locked data is never mistaken for missing data.
+async function readItem(key: string): Promise<string | null> {
+  const data = localStorage.getItem(key)
+  return data === null ? null : decryptTextIfEncrypted(data)
+}
+
+async function writeItem(key: string, value: string): Promise<void> {
+  localStorage.setItem(key, await encryptTextIfEnabled(value))
+}
+
+async function writeDiagrams(diagrams: Diagram[]): Promise<void> {
+  await writeItem(STORAGE_KEY_DIAGRAMS, JSON.stringify(diagrams))
+}
+
+async function touchDiagram(diagramId: string, diagrams: Diagram[]): Promise<void> {
+  await writeDiagrams(diagrams.map(d => d.id === diagramId ? { ...d, updatedAt: new Date().toISOString() } : d))
+}
+
+export async function listDiagramsLocalStorage(): Promise<Diagram[]> {
+  const data = await readItem(STORAGE_KEY_DIAGRAMS)
+  try {
+    if (data) return JSON.parse(data)
+  } catch (error) {
+    console.error('Failed to load diagrams from localStorage:', error)
+  }
+
+  // No diagram index yet - expose data from the original keys as the default diagram
+  const hasLegacyData = localStorage.getItem(STORAGE_KEY_STAGES) !== null || localStorage.getItem(STORAGE_KEY_FLOWS) !== null
+  if (!hasLegacyData) return []
+
+  const now = new Date().toISOString()
+  const diagrams: Diagram[] = [{ id: DEFAULT_DIAGRAM_ID, name: 'My Diagram', createdAt: now, updatedAt: now }]
+  await writeDiagrams(diagrams)
+  return diagrams
+}
+
+export async function createDiagramLocalStorage(name: string, id: string = Date.now().toString()): Promise<Diagram> {
+  const diagrams = await listDiagramsLocalStorage()
+  const now = new Date().toISOString()
+  const diagram: Diagram = { id, name, createdAt: now, updatedAt: now }
+  await writeDiagrams([...diagrams, diagram])
+  return diagram
+}
+
+export async function renameDiagramLocalStorage(diagramId: string, name: string): Promise<void> {
+  const diagrams = await listDiagramsLocalStorage()
+  await touchDiagram(diagramId, diagrams.map(d => d.id === diagramId ? { ...d, name } : d))
+}
+
+export async function deleteDiagramLocalStorage(diagramId: string): Promise<void> {
+  const diagrams = await listDiagramsLocalStorage()
+  localStorage.removeItem(diagramKey(STORAGE_KEY_STAGES, diagramId))
+  localStorage.removeItem(diagramKey(STORAGE_KEY_FLOWS, diagramId))
+  localStorage.removeItem(diagramKey(STORAGE_KEY_SECTIONS, diagramId))
+  localStorage.removeItem(diagramKey(STORAGE_KEY_ATTRIBUTES, diagramId))
+  localStorage.removeItem(diagramKey(STORAGE_KEY_SETTINGS, diagramId))
+  localStorage.removeItem(viewStateKey('localStorage', diagramId))
+  await writeDiagrams(diagrams.filter(d => d.id !== diagramId))
+}
+
+export async function saveStagesLocalStorage(diagramId: string, stages: Stage[]): Promise<void> {
   try {
-    localStorage.setItem(STORAGE_KEY_STAGES, JSON.stringify(stages))
+    await writeItem(diagramKey(STORAGE_KEY_STAGES, diagramId), JSON.stringify(stages))
     console.log('Stages saved to localStorage')
   } catch (error) {
     console.error('Failed to save stages to localStorage:', error)
@@ -14,9 +100,9 @@ export async function saveStagesLocalStorage(stages: Stage[]): Promise<void> {
   }
 }
 
-export async function saveFlowsLocalStorage(flows: Flow[]): Promise<void> {
+export async function saveFlowsLocalStorage(diagramId: string, flows: Flow[]): Promise<void> {
   try {
-    localStorage.setItem(STORAGE_KEY_FLOWS, JSON.stringify(flows))
+    await writeItem(diagramKey(STORAGE_KEY_FLOWS, diagramId), JSON.stringify(flows))
     console.log('Flows saved to localStorage')
   } catch (error) {
     console.error('Failed to save flows to localStorage:', error)
@@ -24,14 +110,68 @@ export async function saveFlowsLocalStorage(flows: Flow[]): Promise<void> {
   }
 }
 
-export async function saveAllLocalStorage(stages: Stage[], flows: Flow[]): Promise<void> {
-  await saveStagesLocalStorage(stages)
-  await saveFlowsLocalStorage(flows)
+export async function saveSectionsLocalStorage(diagramId: string, sections: Section[]): Promise<void> {
+  const key = diagramKey(STORAGE_KEY_SECTIONS, diagramId)
+  if (sections.length === 0) {
+    localStorage.removeItem(key)
+    return
+  }
+  try {
+    await writeItem(key, JSON.stringify(sections))
+  } catch (error) {
+    console.error('Failed to save sections to localStorage:', error)
+    throw error
+  }
+}
+
+export async function saveAttributeDefinitionsLocalStorage(diagramId: string, definitions: AttributeDefinition[]): Promise<void> {
+  const key = diagramKey(STORAGE_KEY_ATTRIBUTES, diagramId)
+  if (definitions.length === 0) {
+    localStorage.removeItem(key)
+    return
+  }
+  try {
+    await writeItem(key, JSON.stringify(definitions))
+  } catch (error) {
+    console.error('Failed to save attribute definitions to localStorage:', error)
+    throw error
+  }
 }
 
-export async function loadStagesLocalStorage(): Promise<Stage[]> {
+export async function saveSettingsLocalStorage(diagramId: string, settings: DiagramSettings): Promise<void> {
+  const key = diagramKey(STORAGE_KEY_SETTINGS, diagramId)
+  const data = serializeSettings(settings)
+  if (data === null) {
+    localStorage.removeItem(key)
+    return
+  }
+  try {
+    await writeItem(key, data)
+  } catch (error) {
+    console.error('Failed to save diagram settings to localStorage:', error)
+    throw error
+  }
+}
+
+export async function saveAllLocalStorage(
+  diagramId: string,
+  stages: Stage[],
+  flows: Flow[],
+  attributeDefinitions: AttributeDefinition[] = [],
+  settings: DiagramSettings = {},
+  sections: Section[] = []
+): Promise<void> {
+  await saveStagesLocalStorage(diagramId, stages)
+  await saveFlowsLocalStorage(diagramId, flows)
+  await saveSectionsLocalStorage(diagramId, sections)
+  await saveAttributeDefinitionsLocalStorage(diagramId, attributeDefinitions)
+  await saveSettingsLocalStorage(diagramId, settings)
+  await touchDiagram(diagramId, await listDiagramsLocalStorage())
+}
+
+export async function loadStagesLocalStorage(diagramId: string): Promise<Stage[]> {
+  const data = await readItem(diagramKey(STORAGE_KEY_STAGES, diagramId))
   try {
-    const data = localStorage.getItem(STORAGE_KEY_STAGES)
     if (!data) return []
     return JSON.parse(data)
   } catch (error) {
@@ -40,9 +180,9 @@ export async function loadStagesLocalStorage(): Promise<Stage[]> {
   }
 }
 
-export async function loadFlowsLocalStorage(): Promise<Flow[]> {
+export async function loadFlowsLocalStorage(diagramId: string): Promise<Flow[]> {
+  const data = await readItem(diagramKey(STORAGE_KEY_FLOWS, diagramId))
   try {
-    const data = localStorage.getItem(STORAGE_KEY_FLOWS)
     if (!data) return []
     return JSON.parse(data)
   } catch (error) {
@@ -51,9 +191,101 @@ export async function loadFlowsLocalStorage(): Promise<Flow[]> {
   }
 }
 
-export async function loadAllLocalStorage(): Promise<{ stages: Stage[]; flows: Flow[] }> {
-  const stages = await loadStagesLocalStorage()
-  const flows = await loadFlowsLocalStorage()
-  return { stages, flows }
+export async function loadSectionsLocalStorage(diagramId: string): Promise<Section[]> {
+  const data = await readItem(diagramKey(STORAGE_KEY_SECTIONS, diagramId))
+  try {
+    if (!data) return []
+    return JSON.parse(data)
+  } catch (error) {
+    console.error('Failed to load sections from localStorage:', error)
+    return []
+  }
+}
+
+export async function loadAttributeDefinitionsLocalStorage(diagramId: string): Promise<AttributeDefinition[]> {
+  const data = await readItem(diagramKey(STORAGE_KEY_ATTRIBUTES, diagramId))
+  try {
+    if (!data) return []
+    return JSON.parse(data)
+  } catch (error) {
+    console.error('Failed to load attribute definitions from localStorage:', error)
+    return []
+  }
 }
 
+export async function loadSettingsLocalStorage(diagramId: string): Promise<DiagramSettings> {
+  const data = await readItem(diagramKey(STORAGE_KEY_SETTINGS, diagramId))
+  try {
+    if (!data) return {}
+    return JSON.parse(data)
+  } catch (error) {
+    console.error('Failed to load diagram settings from localStorage:', error)
+    return {}
+  }
+}
+
+export async function loadAllLocalStorage(diagramId: string): Promise<{
+  stages: Stage[]
+  flows: Flow[]
+  sections: Section[]
+  attributeDefinitions: AttributeDefinition[]
+  settings: DiagramSettings
+}> {
+  const stages = await loadStagesLocalStorage(diagramId)
+  const flows = await loadFlowsLocalStorage(diagramId)
+  const sections = await loadSectionsLocalStorage(diagramId)
+  const attributeDefinitions = await loadAttributeDefinitionsLocalStorage(diagramId)
+  const settings = await loadSettingsLocalStorage(diagramId)
+  return { stages, flows, sections, attributeDefinitions, settings }
+}
+
+export async function loadViewStateLocalStorage(storageId: StorageAdapterId, diagramId: string): Promise<ViewState | null> {
+  return parseViewState(localStorage.getItem(viewStateKey(storageId, diagramId)))
+}
+
+export async function saveViewStateLocalStorage(storageId: StorageAdapterId, diagramId: string, viewState: ViewState): Promise<void> {
+  localStorage.setItem(viewStateKey(storageId, diagramId), JSON.stringify(viewState))
+}
+
+export async function deleteViewStateLocalStorage(storageId: StorageAdapterId, diagramId: string): Promise<void> {
+  localStorage.removeItem(viewStateKey(storageId, diagramId))
+}
+
+// Remove every diagram and the diagram index
+export async function clearAllLocalStorage(): Promise<void> {
+  const diagrams = await listDiagramsLocalStorage()
+  for (const diagram of diagrams) {
+    localStorage.removeItem(diagramKey(STORAGE_KEY_STAGES, diagram.id))
+    localStorage.removeItem(diagramKey(STORAGE_KEY_FLOWS, diagram.id))
+    localStorage.removeItem(diagramKey(STORAGE_KEY_SECTIONS, diagram.id))
+    localStorage.removeItem(diagramKey(STORAGE_KEY_ATTRIBUTES, diagram.id))
+    localStorage.removeItem(diagramKey(STORAGE_KEY_SETTINGS, diagram.id))
+    localStorage.removeItem(viewStateKey('localStorage', diagram.id))
+  }
+  localStorage.removeItem(STORAGE_KEY_STAGES)
+  localStorage.removeItem(STORAGE_KEY_FLOWS)
+  localStorage.removeItem(STORAGE_KEY_SECTIONS)
+  localStorage.removeItem(STORAGE_KEY_ATTRIBUTES)
+  localStorage.removeItem(STORAGE_KEY_SETTINGS)
+  localStorage.removeItem(STORAGE_KEY_DIAGRAMS)
+  console.log('Cleared diagrams from localStorage')
+}
+
+// Write every stored value again, so it ends up encrypted or plain as currently configured
+export async function rewriteAllLocalStorage(): Promise<void> {
+  const diagrams = await listDiagramsLocalStorage()
+  const keys = [
+    STORAGE_KEY_DIAGRAMS,
+    ...diagrams.flatMap(d => [
+      diagramKey(STORAGE_KEY_STAGES, d.id),
+      diagramKey(STORAGE_KEY_FLOWS, d.id),
+      diagramKey(STORAGE_KEY_SECTIONS, d.id),
+      diagramKey(STORAGE_KEY_ATTRIBUTES, d.id),
+      diagramKey(STORAGE_KEY_SETTINGS, d.id),
+    ]),
+  ]
+  for (const key of keys) {
+    const value = await readItem(key)
+    if (value !== null) await writeItem(key, value)
+  }
+}
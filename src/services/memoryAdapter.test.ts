@@ -0,0 +1,67 @@
+import { describe, it, expect } from 'vitest'
+import { Stage, Flow, ViewState } from '../types'
+import { createMemoryAdapter } from './memoryAdapter'
+
+const stages: Stage[] = [
+  { id: '1', name: 'Start', position: 0 },
+  { id: '2', name: 'End', position: 100 },
+]
+const flows: Flow[] = [{ id: 'f1', name: 'Start → End', fromStageId: '1', toStageId: '2', value: 100 }]
+const viewState: ViewState = { zoom: 1, pan: { x: 10, y: 20 }, zoomLocked: false, selectedStageId: null, scrollLeft: 0 }
+
+describe('createMemoryAdapter', () => {
+  it('saves and loads diagrams', async () => {
+    const storage = createMemoryAdapter()
+    const diagram = await storage.createDiagram('Checkout', 'd1')
+    await storage.save(diagram.id, { stages, flows, settings: { unit: 'users' } })
+
+    expect((await storage.listDiagrams()).map(d => d.name)).toEqual(['Checkout'])
+    expect(await storage.load('d1')).toEqual({ stages, flows, sections: [], attributeDefinitions: [], settings: { unit: 'users' } })
+  })
+
+  it('starts with the given diagrams', async () => {
+    const diagram = { id: 'd1', name: 'Seeded', createdAt: '2024-01-01T00:00:00.000Z', updatedAt: '2024-01-01T00:00:00.000Z' }
+    const storage = createMemoryAdapter([{ diagram, stages, flows }])
+    expect(await storage.listDiagrams()).toEqual([diagram])
+    expect((await storage.load('d1')).flows).toEqual(flows)
+  })
+
+  it('keeps what is stored apart from the objects passed in and handed out', async () => {
+    const storage = createMemoryAdapter()
+    await storage.createDiagram('Checkout', 'd1')
+    const saved = { stages: stages.map(s => ({ ...s })), flows }
+    await storage.save('d1', saved)
+    saved.stages[0].name = 'Changed'
+    ;(await storage.load('d1')).stages[1].name = 'Changed too'
+    expect((await storage.load('d1')).stages.map(s => s.name)).toEqual(['Start', 'End'])
+  })
+
+  it('renames diagrams and refuses unknown or taken ids', async () => {
+    const storage = createMemoryAdapter()
+    await storage.createDiagram('Checkout', 'd1')
+    await storage.renameDiagram('d1', 'Signup')
+    expect((await storage.listDiagrams())[0].name).toBe('Signup')
+    await expect(storage.createDiagram('Again', 'd1')).rejects.toThrow('already exists')
+    await expect(storage.save('d2', { stages, flows })).rejects.toThrow('does not exist')
+  })
+
+  it('deletes a diagram together with its contents and view state', async () => {
+    const storage = createMemoryAdapter()
+    await storage.createDiagram('Checkout', 'd1')
+    await storage.save('d1', { stages, flows })
+    await storage.viewStates?.save('d1', viewState)
+    expect(await storage.viewStates?.load('d1')).toEqual(viewState)
+
+    await storage.deleteDiagram('d1')
+    expect(await storage.listDiagrams()).toEqual([])
+    expect((await storage.load('d1')).stages).toEqual([])
+    expect(await storage.viewStates?.load('d1')).toBeNull()
+  })
+
+  it('does not persist and offers no snapshots or raw file', () => {
+    const storage = createMemoryAdapter()
+    expect(storage.persistent).toBe(false)
+    expect(storage.snapshots).toBeUndefined()
+    expect(storage.rawFile).toBeUndefined()
+  })
+})
@@ -0,0 +1,67 @@
+// Storage adapter that keeps everything in memory, for tests and throwaway sessions
+import { Diagram, ViewState } from '../types'
+import { StorageAdapter, DiagramData } from './storageAdapter'
+
+// Copy data in and out so callers can't mutate what is stored
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value))
+
+export function createMemoryAdapter(initial: Array<{ diagram: Diagram } & DiagramData> = []): StorageAdapter {
+  const diagrams = new Map<string, Diagram>(initial.map(entry => [entry.diagram.id, clone(entry.diagram)]))
+  const contents = new Map<string, DiagramData>(
+    initial.map(entry => [entry.diagram.id, clone({
+      stages: entry.stages,
+      flows: entry.flows,
+      sections: entry.sections ?? [],
+      attributeDefinitions: entry.attributeDefinitions ?? [],
+      settings: entry.settings ?? {},
+    })])
+  )
+  const viewStates = new Map<string, ViewState>()
+
+  const getDiagram = (diagramId: string): Diagram => {
+    const diagram = diagrams.get(diagramId)
+    if (!diagram) throw new Error(`Diagram "${diagramId}" does not exist`)
+    return diagram
+  }
+
+  return {
+    id: 'memory',
+    label: 'Memory',
+    persistent: false,
+
+    init: async () => {},
+    listDiagrams: async () => clone([...diagrams.values()].sort((a, b) => a.createdAt.localeCompare(b.createdAt))),
+    createDiagram: async (name, id = Date.now().toString()) => {
+      if (diagrams.has(id)) throw new Error(`Diagram "${id}" already exists`)
+      const now = new Date().toISOString()
+      const diagram: Diagram = { id, name, createdAt: now, updatedAt: now }
+      diagrams.set(id, diagram)
+      return clone(diagram)
+    },
+    renameDiagram: async (diagramId, name) => {
+      diagrams.set(diagramId, { ...getDiagram(diagramId), name, updatedAt: new Date().toISOString() })
+    },
+    deleteDiagram: async (diagramId) => {
+      diagrams.delete(diagramId)
+      contents.delete(diagramId)
+      viewStates.delete(diagramId)
+    },
+    load: async (diagramId) => clone(contents.get(diagramId) ?? { stages: [], flows: [], sections: [], attributeDefinitions: [], settings: {} }),
+    save: async (diagramId, data) => {
+      diagrams.set(diagramId, { ...getDiagram(diagramId), updatedAt: new Date().toISOString() })
+      contents.set(diagramId, clone({
+        ...data,
+        sections: data.sections ?? [],
+        attributeDefinitions: data.attributeDefinitions ?? [],
+        settings: data.settings ?? {},
+      }))
+    },
+
+    viewStates: {
+      load: async (diagramId) => clone(viewStates.get(diagramId) ?? null),
+      save: async (diagramId, viewState) => {
+        viewStates.set(diagramId, clone(viewState))
+      },
+    },
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest'
+import initSqlJs, { SqlJsStatic, Database } from 'sql.js'
+import { DEFAULT_DIAGRAM_ID } from '../types'
+import { runMigrations, getSchemaVersion, hasColumn, MigrationError, LATEST_SCHEMA_VERSION } from './migrations'
+
+let SQL: SqlJsStatic
+
+beforeAll(async () => {
+  SQL = await initSqlJs()
+})
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+const tables = (db: Database) =>
+  db.exec("SELECT name FROM sqlite_master WHERE type = 'table' ORDER BY name")[0].values.map(row => row[0])
+
+describe('runMigrations', () => {
+  it('brings an empty database to the latest version', () => {
+    const db = new SQL.Database()
+    expect(runMigrations(db)).toBe(LATEST_SCHEMA_VERSION)
+    expect(getSchemaVersion(db)).toBe(LATEST_SCHEMA_VERSION)
+    expect(tables(db)).toEqual(expect.arrayContaining([
+      'attribute_definitions', 'attribute_values', 'diagram_settings', 'diagrams', 'flows', 'sections', 'snapshots', 'stages',
+    ]))
+    expect(tables(db)).not.toContain('view_states')
+    for (const column of ['diagramId', 'pinned', 'manualBandOrder', 'manualIncomingBandOrder']) {
+      expect(hasColumn(db, 'stages', column)).toBe(true)
+    }
+    for (const column of ['diagramId', 'periodValues', 'targetIndex']) {
+      expect(hasColumn(db, 'flows', column)).toBe(true)
+    }
+  })
+
+  it('applies nothing the second time', () => {
+    const db = new SQL.Database()
+    runMigrations(db)
+    expect(runMigrations(db)).toBe(0)
+  })
+
+  it('moves the rows of an unversioned single-diagram database into the default diagram', () => {
+    const db = new SQL.Database()
+    // The first releases had no description column and no diagrams
+    db.run('CREATE TABLE stages (id TEXT PRIMARY KEY, name TEXT NOT NULL, position REAL NOT NULL, yPosition REAL, color TEXT)')
+    db.run(`CREATE TABLE flows (id TEXT PRIMARY KEY, name TEXT NOT NULL, fromStageId TEXT NOT NULL, toStageId TEXT NOT NULL,
+      value REAL NOT NULL, branchIndex INTEGER, color TEXT)`)
+    db.run("INSERT INTO stages (id, name, position) VALUES ('1', 'Start', 0), ('2', 'End', 100)")
+    db.run("INSERT INTO flows (id, name, fromStageId, toStageId, value) VALUES ('f1', 'Start → End', '1', '2', 100)")
+
+    runMigrations(db)
+
+    expect(db.exec('SELECT id FROM diagrams')[0].values).toEqual([[DEFAULT_DIAGRAM_ID]])
+    expect(db.exec('SELECT diagramId, id, description FROM stages ORDER BY id')[0].values).toEqual([
+      [DEFAULT_DIAGRAM_ID, '1', null],
+      [DEFAULT_DIAGRAM_ID, '2', null],
+    ])
+    expect(db.exec('SELECT diagramId, id, value FROM flows')[0].values).toEqual([[DEFAULT_DIAGRAM_ID, 'f1', 100]])
+  })
+
+  it('rolls back a failing migration and keeps the ones before it', () => {
+    const db = new SQL.Database()
+    // Migration 3 creates this table and fails when it is already there
+    db.run('CREATE TABLE snapshots (id TEXT PRIMARY KEY)')
+
+    expect(() => runMigrations(db)).toThrow(MigrationError)
+    expect(getSchemaVersion(db)).toBe(2)
+    expect(hasColumn(db, 'stages', 'diagramId')).toBe(true)
+    expect(hasColumn(db, 'snapshots', 'diagramId')).toBe(false)
+  })
+
+  it('refuses a database from a newer version of the app', () => {
+    const db = new SQL.Database()
+    runMigrations(db)
+    db.run('INSERT INTO schema_version (version) VALUES (?)', [LATEST_SCHEMA_VERSION + 1])
+    expect(() => runMigrations(db)).toThrow(/newer than this app supports/)
+  })
+})
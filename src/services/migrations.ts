@@ -0,0 +1,304 @@
+// Versioned schema migrations for the SQL.js database
+//
+// Migrations run in order on every startup. Each one runs in its own transaction
+// together with the schema_version bump, so a failing migration leaves the
+// database exactly as it was before it started.
+//
+// Databases saved before this framework existed have no schema_version table and
+// start at version 0. Early migrations therefore have to cope with tables that
+// already exist in any older shape.
+import { DEFAULT_DIAGRAM_ID } from '../types'
+
+export interface Migration {
+  version: number
+  name: string
+  up: (db: any) => void
+}
+
+export class MigrationError extends Error {
+  version: number
+
+  constructor(migration: Migration, cause: unknown) {
+    super(`Migration ${migration.version} (${migration.name}) failed: ${cause instanceof Error ? cause.message : cause}`)
+    this.name = 'MigrationError'
+    this.version = migration.version
+  }
+}
+
+// Check whether a table has a given column
+export function hasColumn(db: any, table: string, column: string): boolean {
+  const result = db.exec(`PRAGMA table_info(${table})`)
+  if (result.length === 0) return false
+  // PRAGMA table_info rows: cid, name, type, notnull, dflt_value, pk
+  return result[0].values.some((row: any[]) => row[1] === column)
+}
+
+// Append new migrations to the end of this list - never edit or reorder released ones
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'Create stages and flows tables',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS stages (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          position REAL NOT NULL,
+          yPosition REAL,
+          color TEXT,
+          description TEXT
+        )
+      `)
+
+      // The first releases created stages without a description column
+      if (!hasColumn(db, 'stages', 'description')) {
+        db.run('ALTER TABLE stages ADD COLUMN description TEXT')
+      }
+
+      db.run(`
+        CREATE TABLE IF NOT EXISTS flows (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          fromStageId TEXT NOT NULL,
+          toStageId TEXT NOT NULL,
+          value REAL NOT NULL,
+          branchIndex INTEGER,
+          color TEXT,
+          FOREIGN KEY (fromStageId) REFERENCES stages(id) ON DELETE CASCADE,
+          FOREIGN KEY (toStageId) REFERENCES stages(id) ON DELETE CASCADE
+        )
+      `)
+    },
+  },
+  {
+    version: 2,
+    name: 'Scope stages and flows by diagram',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE IF NOT EXISTS diagrams (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          updatedAt TEXT NOT NULL
+        )
+      `)
+
+      // Databases created by the first multi-diagram release are already scoped
+      if (hasColumn(db, 'stages', 'diagramId')) return
+
+      db.run('DROP INDEX IF EXISTS idx_flows_from')
+      db.run('DROP INDEX IF EXISTS idx_flows_to')
+      db.run('ALTER TABLE stages RENAME TO stages_legacy')
+      db.run('ALTER TABLE flows RENAME TO flows_legacy')
+
+      db.run(`
+        CREATE TABLE stages (
+          diagramId TEXT NOT NULL,
+          id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          position REAL NOT NULL,
+          yPosition REAL,
+          color TEXT,
+          description TEXT,
+          PRIMARY KEY (diagramId, id),
+          FOREIGN KEY (diagramId) REFERENCES diagrams(id) ON DELETE CASCADE
+        )
+      `)
+      db.run(`
+        CREATE TABLE flows (
+          diagramId TEXT NOT NULL,
+          id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          fromStageId TEXT NOT NULL,
+          toStageId TEXT NOT NULL,
+          value REAL NOT NULL,
+          branchIndex INTEGER,
+          color TEXT,
+          PRIMARY KEY (diagramId, id),
+          FOREIGN KEY (diagramId, fromStageId) REFERENCES stages(diagramId, id) ON DELETE CASCADE,
+          FOREIGN KEY (diagramId, toStageId) REFERENCES stages(diagramId, id) ON DELETE CASCADE
+        )
+      `)
+
+      // Existing rows become the default diagram
+      const legacyCount = db.exec('SELECT COUNT(*) FROM stages_legacy')[0].values[0][0] as number
+      if (legacyCount > 0) {
+        const now = new Date().toISOString()
+        db.run('INSERT OR IGNORE INTO diagrams (id, name, createdAt, updatedAt) VALUES (?, ?, ?, ?)', [DEFAULT_DIAGRAM_ID, 'My Diagram', now, now])
+      }
+      db.run(`
+        INSERT INTO stages (diagramId, id, name, position, yPosition, color, description)
+        SELECT ?, id, name, position, yPosition, color, description FROM stages_legacy
+      `, [DEFAULT_DIAGRAM_ID])
+      db.run(`
+        INSERT INTO flows (diagramId, id, name, fromStageId, toStageId, value, branchIndex, color)
+        SELECT ?, id, name, fromStageId, toStageId, value, branchIndex, color FROM flows_legacy
+      `, [DEFAULT_DIAGRAM_ID])
+      db.run('DROP TABLE flows_legacy')
+      db.run('DROP TABLE stages_legacy')
+
+      db.run('CREATE INDEX IF NOT EXISTS idx_flows_from ON flows(diagramId, fromStageId)')
+      db.run('CREATE INDEX IF NOT EXISTS idx_flows_to ON flows(diagramId, toStageId)')
+    },
+  },
+  {
+    version: 3,
+    name: 'Add snapshots table',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE snapshots (
+          id TEXT PRIMARY KEY,
+          diagramId TEXT NOT NULL,
+          name TEXT NOT NULL,
+          createdAt TEXT NOT NULL,
+          trigger TEXT NOT NULL,
+          stages TEXT NOT NULL,
+          flows TEXT NOT NULL,
+          FOREIGN KEY (diagramId) REFERENCES diagrams(id) ON DELETE CASCADE
+        )
+      `)
+      db.run('CREATE INDEX idx_snapshots_diagram ON snapshots(diagramId, createdAt)')
+    },
+  },
+  {
+    version: 4,
+    name: 'Add custom attribute tables',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE attribute_definitions (
+          diagramId TEXT NOT NULL,
+          id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          type TEXT NOT NULL,
+          options TEXT,
+          sortOrder INTEGER NOT NULL,
+          PRIMARY KEY (diagramId, id),
+          FOREIGN KEY (diagramId) REFERENCES diagrams(id) ON DELETE CASCADE
+        )
+      `)
+      db.run(`
+        CREATE TABLE attribute_values (
+          diagramId TEXT NOT NULL,
+          itemType TEXT NOT NULL,
+          itemId TEXT NOT NULL,
+          attributeId TEXT NOT NULL,
+          value TEXT NOT NULL,
+          PRIMARY KEY (diagramId, itemType, itemId, attributeId),
+          FOREIGN KEY (diagramId, attributeId) REFERENCES attribute_definitions(diagramId, id) ON DELETE CASCADE
+        )
+      `)
+      // Snapshots keep the definitions next to the stages and flows holding the values
+      db.run('ALTER TABLE snapshots ADD COLUMN attributeDefinitions TEXT')
+    },
+  },
+  {
+    version: 5,
+    name: 'Add per-period flow values',
+    up: (db) => {
+      // JSON object of value per period label, NULL for flows without periods
+      db.run('ALTER TABLE flows ADD COLUMN periodValues TEXT')
+    },
+  },
+  {
+    version: 6,
+    name: 'Add diagram_settings table',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE diagram_settings (
+          diagramId TEXT PRIMARY KEY,
+          settings TEXT NOT NULL,
+          FOREIGN KEY (diagramId) REFERENCES diagrams(id) ON DELETE CASCADE
+        )
+      `)
+      db.run('ALTER TABLE snapshots ADD COLUMN settings TEXT')
+    },
+  },
+  {
+    version: 7,
+    name: 'Add sections table',
+    up: (db) => {
+      db.run(`
+        CREATE TABLE sections (
+          diagramId TEXT NOT NULL,
+          id TEXT NOT NULL,
+          name TEXT NOT NULL,
+          fromStageId TEXT NOT NULL,
+          toStageId TEXT NOT NULL,
+          content TEXT,
+          color TEXT,
+          sortOrder INTEGER NOT NULL,
+          PRIMARY KEY (diagramId, id),
+          FOREIGN KEY (diagramId) REFERENCES diagrams(id) ON DELETE CASCADE
+        )
+      `)
+      db.run('ALTER TABLE snapshots ADD COLUMN sections TEXT')
+    },
+  },
+  {
+    version: 8,
+    name: 'Add pinned stages',
+    up: (db) => {
+      // 1 for stages auto layout must not move, NULL otherwise
+      db.run('ALTER TABLE stages ADD COLUMN pinned INTEGER')
+    },
+  },
+  {
+    version: 9,
+    name: 'Add manual band order',
+    up: (db) => {
+      // 1 for stages whose outgoing bands were dragged into order, NULL otherwise
+      db.run('ALTER TABLE stages ADD COLUMN manualBandOrder INTEGER')
+    },
+  },
+  {
+    version: 10,
+    name: 'Add manual incoming band order',
+    up: (db) => {
+      // 1 for stages whose incoming bands were dragged into order, NULL otherwise
+      db.run('ALTER TABLE stages ADD COLUMN manualIncomingBandOrder INTEGER')
+      // Place of a flow among the bands entering its target stage
+      db.run('ALTER TABLE flows ADD COLUMN targetIndex INTEGER')
+    },
+  },
+]
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+// Read the schema version of a database (0 if it predates versioning)
+export function getSchemaVersion(db: any): number {
+  db.run('CREATE TABLE IF NOT EXISTS schema_version (version INTEGER NOT NULL)')
+  const result = db.exec('SELECT MAX(version) FROM schema_version')
+  if (result.length === 0) return 0
+  const version = result[0].values[0][0]
+  return typeof version === 'number' ? version : 0
+}
+
+// Apply all pending migrations in order, returning how many were applied.
+// Stops at the first failure, rolling back that migration and throwing a MigrationError.
+export function runMigrations(db: any): number {
+  const currentVersion = getSchemaVersion(db)
+  if (currentVersion > LATEST_SCHEMA_VERSION) {
+    throw new Error(`Database schema version ${currentVersion} is newer than this app supports (${LATEST_SCHEMA_VERSION})`)
+  }
+
+  const pending = MIGRATIONS.filter(m => m.version > currentVersion)
+  for (const migration of pending) {
+    db.run('BEGIN TRANSACTION')
+    try {
+      migration.up(db)
+      db.run('INSERT INTO schema_version (version) VALUES (?)', [migration.version])
+      db.run('COMMIT')
+      console.log(`Migration ${migration.version} applied: ${migration.name}`)
+    } catch (error) {
+      try {
+        db.run('ROLLBACK')
+      } catch (rollbackError) {
+        console.error('Failed to rollback migration:', rollbackError)
+      }
+      console.error(`Migration ${migration.version} failed:`, error)
+      throw new MigrationError(migration, error)
+    }
+  }
+
+  return pending.length
+}
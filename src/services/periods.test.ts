@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { Flow } from '../types'
+import {
+  getPeriods,
+  getPeriodValue,
+  flowsForPeriod,
+  storePeriodValues,
+  interpolateFlows,
+  restoreAnimatedValues,
+  addPeriod,
+  removePeriod,
+  renamePeriod,
+  serializePeriodValues,
+  suggestNextPeriod,
+} from './periods'
+
+const flow = (id: string, value: number, periodValues?: Record<string, number>): Flow => ({
+  id,
+  name: id,
+  fromStageId: 'a',
+  toStageId: 'b',
+  value,
+  ...(periodValues ? { periodValues } : {}),
+})
+
+const flows = [flow('f1', 10, { 'W10': 8, 'W9': 6 }), flow('f2', 20, { 'W9': 15 }), flow('f3', 30)]
+
+describe('periods', () => {
+  it('lists the periods of all flows in time order', () => {
+    expect(getPeriods(flows)).toEqual(['W9', 'W10'])
+    expect(getPeriods([flow('f', 1)])).toEqual([])
+  })
+
+  it('shows the values of a period, with 0 for flows without one', () => {
+    expect(flowsForPeriod(flows, 'W10').map(f => f.value)).toEqual([8, 0, 0])
+    expect(flowsForPeriod(flows, null)).toBe(flows)
+    expect(getPeriodValue(flows[1], null)).toBe(20)
+  })
+
+  it('stores values edited in a period as that period\'s values', () => {
+    const edited = flowsForPeriod(flows, 'W9').map(f => (f.id === 'f2' ? { ...f, value: 12 } : f))
+    const stored = storePeriodValues([...edited, flow('new', 5)], flows, 'W9')
+    expect(stored.map(f => f.value)).toEqual([10, 20, 30, 5])
+    expect(stored[1].periodValues).toEqual({ W9: 12 })
+    expect(stored[3].periodValues).toEqual({ W9: 5 })
+  })
+
+  it('interpolates between two periods', () => {
+    const from = flowsForPeriod(flows, 'W9')
+    const to = flowsForPeriod(flows, 'W10')
+    expect(interpolateFlows(from, to, 0.5).map(f => f.value)).toEqual([7, 7.5, 0])
+    expect(interpolateFlows(from, to, 1).map(f => f.value)).toEqual([8, 0, 0])
+  })
+
+  it('puts back the real values of flows an edit during the animation left alone', () => {
+    const actual = flowsForPeriod(flows, 'W10')
+    const shown = interpolateFlows(flowsForPeriod(flows, 'W9'), actual, 0.5)
+    // The edit renames f1 and changes the value of f2
+    const edited = shown.map(f => (f.id === 'f1' ? { ...f, name: 'Renamed' } : f.id === 'f2' ? { ...f, value: 3 } : f))
+    const restored = restoreAnimatedValues(edited, shown, actual)
+    expect(restored.map(f => f.value)).toEqual([8, 3, 0])
+    expect(restored[0].name).toBe('Renamed')
+  })
+
+  it('adds, renames and removes periods', () => {
+    const added = addPeriod(flows, 'W11', 'W10')
+    expect(added.map(f => f.periodValues?.W11)).toEqual([8, 0, 0])
+    expect(addPeriod(flows, 'W11', null).map(f => f.periodValues?.W11)).toEqual([10, 20, 30])
+
+    const renamed = renamePeriod(flows, 'W9', 'W08')
+    expect(renamed[0].periodValues).toEqual({ W10: 8, W08: 6 })
+    expect(renamed[2]).toBe(flows[2])
+
+    const removed = removePeriod(flows, 'W9')
+    expect(removed[0].periodValues).toEqual({ W10: 8 })
+    expect(removed[1]).not.toHaveProperty('periodValues')
+  })
+
+  it('serializes period values in period order', () => {
+    expect(serializePeriodValues({ W10: 1, W9: 2 })).toBe('{"W9":2,"W10":1}')
+    expect(serializePeriodValues({})).toBeNull()
+    expect(serializePeriodValues(undefined)).toBeNull()
+  })
+
+  it('suggests the period after the last one', () => {
+    expect(suggestNextPeriod(['2024-W05'])).toBe('2024-W06')
+    expect(suggestNextPeriod(['2024-09'])).toBe('2024-10')
+    expect(suggestNextPeriod(['Launch'])).toBe('')
+    expect(suggestNextPeriod([])).toBe('')
+  })
+})
@@ -0,0 +1,111 @@
+// Per-period flow values, see Flow.periodValues in types.ts
+//
+// Periods aren't stored on their own: a diagram's periods are the labels used in the
+// periodValues of its flows, ordered by label. Labels such as "2024-W05" or "2024-02"
+// therefore sort in time order.
+import { Flow } from '../types'
+
+const comparePeriods = (a: string, b: string) => a.localeCompare(b, undefined, { numeric: true })
+
+// All periods of a diagram, oldest first
+export function getPeriods(flows: Flow[]): string[] {
+  const periods = new Set<string>()
+  for (const flow of flows) {
+    for (const period of Object.keys(flow.periodValues ?? {})) periods.add(period)
+  }
+  return [...periods].sort(comparePeriods)
+}
+
+// Value of a flow in a period. Flows without a value for it, e.g. added later, carry nothing.
+export function getPeriodValue(flow: Flow, period: string | null): number {
+  if (period === null) return flow.value
+  return flow.periodValues?.[period] ?? 0
+}
+
+// Flows with `value` replaced by their value in the period; the default values for null
+export function flowsForPeriod(flows: Flow[], period: string | null): Flow[] {
+  if (period === null) return flows
+  return flows.map(flow => ({ ...flow, value: getPeriodValue(flow, period) }))
+}
+
+// Reverse of flowsForPeriod: store the values of flows edited while a period was shown
+// as that period's values, keeping the default values. New flows take theirs as default too.
+export function storePeriodValues(edited: Flow[], previous: Flow[], period: string | null): Flow[] {
+  if (period === null) return edited
+  const previousById = new Map(previous.map(flow => [flow.id, flow]))
+  return edited.map(flow => ({
+    ...flow,
+    value: previousById.get(flow.id)?.value ?? flow.value,
+    periodValues: { ...flow.periodValues, [period]: flow.value },
+  }))
+}
+
+// Flows part way between two periods, for animating from one to the other.
+// `progress` runs from 0 (from) to 1 (to).
+export function interpolateFlows(from: Flow[], to: Flow[], progress: number): Flow[] {
+  const fromById = new Map(from.map(flow => [flow.id, flow]))
+  return to.map(flow => {
+    const start = fromById.get(flow.id)?.value ?? flow.value
+    return { ...flow, value: start + (flow.value - start) * progress }
+  })
+}
+
+// Canvas edits made while flows are animating start from the in-between values. Flows whose
+// value the edit didn't change get their real value (from `actual`) back, so in-between
+// values are never stored.
+export function restoreAnimatedValues(edited: Flow[], shown: Flow[], actual: Flow[]): Flow[] {
+  const shownById = new Map(shown.map(flow => [flow.id, flow]))
+  const actualById = new Map(actual.map(flow => [flow.id, flow]))
+  return edited.map(flow => {
+    const real = actualById.get(flow.id)
+    return real && shownById.get(flow.id)?.value === flow.value ? { ...flow, value: real.value } : flow
+  })
+}
+
+// Add a period with each flow starting at its value in `copyFrom` (a period, or null for the defaults)
+export function addPeriod(flows: Flow[], period: string, copyFrom: string | null): Flow[] {
+  return flows.map(flow => ({
+    ...flow,
+    periodValues: { ...flow.periodValues, [period]: getPeriodValue(flow, copyFrom) },
+  }))
+}
+
+// Flow without a value for the period. Flows left without any period lose periodValues.
+function withoutPeriod(flow: Flow, period: string): Flow {
+  if (!flow.periodValues || !(period in flow.periodValues)) return flow
+  const periodValues = { ...flow.periodValues }
+  delete periodValues[period]
+  const next: Flow = { ...flow, periodValues }
+  if (Object.keys(periodValues).length === 0) delete next.periodValues
+  return next
+}
+
+export function removePeriod(flows: Flow[], period: string): Flow[] {
+  return flows.map(flow => withoutPeriod(flow, period))
+}
+
+export function renamePeriod(flows: Flow[], period: string, newPeriod: string): Flow[] {
+  return flows.map(flow => {
+    if (!flow.periodValues || !(period in flow.periodValues)) return flow
+    const value = flow.periodValues[period]
+    const next = withoutPeriod(flow, period)
+    return { ...next, periodValues: { ...next.periodValues, [newPeriod]: value } }
+  })
+}
+
+// Stored form of a flow's period values, with the periods in order so equal values
+// always serialize the same. Null when the flow has none.
+export function serializePeriodValues(periodValues: Flow['periodValues']): string | null {
+  if (!periodValues || Object.keys(periodValues).length === 0) return null
+  const periods = Object.keys(periodValues).sort(comparePeriods)
+  return JSON.stringify(Object.fromEntries(periods.map(period => [period, periodValues[period]])))
+}
+
+// Label likely to come after the last period, e.g. "2024-W05" -> "2024-W06". Empty if there is no pattern.
+export function suggestNextPeriod(periods: string[]): string {
+  const last = periods[periods.length - 1]
+  const match = last?.match(/^(.*?)(\d+)$/)
+  if (!match) return ''
+  const next = String(Number(match[2]) + 1).padStart(match[2].length, '0')
+  return `${match[1]}${next}`
+}
@@ -0,0 +1,126 @@
+// Storage adapter for a shared HTTP server, e.g. the reference server in server/index.js
+//
+// API:
+//   GET    /health          -> { ok: true }
+//   GET    /diagrams        -> RemoteDiagram[]
+//   GET    /diagrams/:id    -> { diagram: RemoteDiagram, stages: Stage[], flows: Flow[], sections?: Section[],
+//                               attributeDefinitions?: AttributeDefinition[], settings?: DiagramSettings }
+//   PUT    /diagrams/:id    <- { name, stages, flows, sections, attributeDefinitions, settings, baseRevision }  -> RemoteDiagram
+//   PATCH  /diagrams/:id    <- { name }                              -> RemoteDiagram
+//   DELETE /diagrams/:id
+//
+// Every content save bumps the diagram's revision. A PUT must name the revision it was
+// based on (null to create); if the server has moved on it answers 409 Conflict.
+import { Diagram } from '../types'
+import { StorageAdapter, DiagramData, StorageRequestError, StorageConflictError } from './storageAdapter'
+import * as localStorageDB from './localStorageDB'
+import { createLocalViewStateStore } from './localStorageAdapter'
+
+const REST_URL_KEY = 'flow_app_rest_url'
+export const DEFAULT_REST_URL = 'http://localhost:3001'
+
+interface RemoteDiagram extends Diagram {
+  revision: number
+}
+
+export function getRestServerUrl(): string {
+  return localStorage.getItem(REST_URL_KEY) || DEFAULT_REST_URL
+}
+
+export function setRestServerUrl(url: string): void {
+  localStorage.setItem(REST_URL_KEY, url.replace(/\/+$/, ''))
+}
+
+const toDiagram = ({ id, name, createdAt, updatedAt }: RemoteDiagram): Diagram => ({ id, name, createdAt, updatedAt })
+
+export function createRestAdapter(baseUrl: string = getRestServerUrl()): StorageAdapter {
+  // Revision of each diagram as last loaded or saved by this client
+  const revisions = new Map<string, number>()
+
+  const diagramPath = (diagramId: string) => `/diagrams/${encodeURIComponent(diagramId)}`
+
+  async function request<T>(method: string, path: string, body?: unknown, diagramId?: string): Promise<T> {
+    let response: Response
+    try {
+      response = await fetch(`${baseUrl}${path}`, {
+        method,
+        headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body),
+      })
+    } catch (error) {
+      console.error(`Request ${method} ${path} failed:`, error)
+      throw new StorageRequestError(`Could not reach the server at ${baseUrl}`)
+    }
+
+    // Error responses carry { error: string }, conflicts also the current diagram
+    const data = response.status === 204 ? null : await response.json().catch(() => null)
+
+    if (response.status === 409 && diagramId) {
+      throw new StorageConflictError(diagramId, data?.diagram?.updatedAt ?? null)
+    }
+    if (!response.ok) {
+      const message = typeof data?.error === 'string' ? data.error : response.statusText
+      throw new StorageRequestError(`Server error ${response.status}: ${message}`, response.status)
+    }
+    return data as T
+  }
+
+  return {
+    id: 'rest',
+    label: 'Server',
+    persistent: true,
+
+    init: async () => {
+      await request('GET', '/health')
+    },
+
+    listDiagrams: async () => {
+      const diagrams = await request<RemoteDiagram[]>('GET', '/diagrams')
+      return diagrams.map(toDiagram)
+    },
+
+    createDiagram: async (name, id = Date.now().toString()) => {
+      const diagram = await request<RemoteDiagram>('PUT', diagramPath(id), { name, stages: [], flows: [], baseRevision: null }, id)
+      revisions.set(id, diagram.revision)
+      return toDiagram(diagram)
+    },
+
+    renameDiagram: async (diagramId, name) => {
+      await request<RemoteDiagram>('PATCH', diagramPath(diagramId), { name })
+    },
+
+    deleteDiagram: async (diagramId) => {
+      await request('DELETE', diagramPath(diagramId))
+      revisions.delete(diagramId)
+      await localStorageDB.deleteViewStateLocalStorage('rest', diagramId)
+    },
+
+    load: async (diagramId) => {
+      const data = await request<{ diagram: RemoteDiagram } & DiagramData>('GET', diagramPath(diagramId))
+      revisions.set(diagramId, data.diagram.revision)
+      // Servers that predate sections, attributes or settings don't send them
+      return {
+        stages: data.stages,
+        flows: data.flows,
+        sections: data.sections ?? [],
+        attributeDefinitions: data.attributeDefinitions ?? [],
+        settings: data.settings ?? {},
+      }
+    },
+
+    save: async (diagramId, data) => {
+      const diagram = await request<RemoteDiagram>('PUT', diagramPath(diagramId), {
+        stages: data.stages,
+        flows: data.flows,
+        sections: data.sections ?? [],
+        attributeDefinitions: data.attributeDefinitions ?? [],
+        settings: data.settings ?? {},
+        baseRevision: revisions.get(diagramId) ?? null,
+      }, diagramId)
+      revisions.set(diagramId, diagram.revision)
+    },
+
+    // Where each user looks is their own business, so it stays in this browser
+    viewStates: createLocalViewStateStore('rest'),
+  }
+}
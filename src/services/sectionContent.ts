@@ -0,0 +1,86 @@
+// Formatted text of sections
+//
+// Content is stored as plain text with a small Markdown-like syntax, so it survives
+// every storage backend and JSON export unchanged and never has to be trusted as HTML:
+//
+//   # Heading
+//   - List item
+//   **bold**, *italic*, `code`, [link text](https://example.com)
+//
+// Blank lines separate paragraphs.
+
+export type InlineNode =
+  | { type: 'text' | 'bold' | 'italic' | 'code'; text: string }
+  | { type: 'link'; text: string; href: string }
+
+export type ContentBlock =
+  | { type: 'heading' | 'paragraph'; inlines: InlineNode[] }
+  | { type: 'list'; items: InlineNode[][] }
+
+// Links may only point to web pages and mail addresses
+const SAFE_LINK = /^(https?:|mailto:)/i
+
+const INLINE_PATTERN = /\*\*(.+?)\*\*|\*(.+?)\*|`(.+?)`|\[([^\]]+)\]\(([^)\s]+)\)/g
+
+export function parseInline(text: string): InlineNode[] {
+  const nodes: InlineNode[] = []
+  let last = 0
+  for (const match of text.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0
+    if (index > last) nodes.push({ type: 'text', text: text.slice(last, index) })
+    const [whole, bold, italic, code, linkText, href] = match
+    if (bold !== undefined) {
+      nodes.push({ type: 'bold', text: bold })
+    } else if (italic !== undefined) {
+      nodes.push({ type: 'italic', text: italic })
+    } else if (code !== undefined) {
+      nodes.push({ type: 'code', text: code })
+    } else if (SAFE_LINK.test(href)) {
+      nodes.push({ type: 'link', text: linkText, href })
+    } else {
+      nodes.push({ type: 'text', text: whole })
+    }
+    last = index + whole.length
+  }
+  if (last < text.length) nodes.push({ type: 'text', text: text.slice(last) })
+  return nodes
+}
+
+export function parseSectionContent(content: string): ContentBlock[] {
+  const blocks: ContentBlock[] = []
+  let paragraph: string[] = []
+  let list: InlineNode[][] | null = null
+
+  const flush = () => {
+    if (paragraph.length > 0) blocks.push({ type: 'paragraph', inlines: parseInline(paragraph.join(' ')) })
+    if (list) blocks.push({ type: 'list', items: list })
+    paragraph = []
+    list = null
+  }
+
+  for (const rawLine of content.split('\n')) {
+    const line = rawLine.trim()
+    if (line === '') {
+      flush()
+    } else if (line.startsWith('# ')) {
+      flush()
+      blocks.push({ type: 'heading', inlines: parseInline(line.slice(2).trim()) })
+    } else if (line.startsWith('- ')) {
+      if (paragraph.length > 0) flush()
+      list = [...(list ?? []), parseInline(line.slice(2).trim())]
+    } else {
+      if (list) flush()
+      paragraph.push(line)
+    }
+  }
+  flush()
+  return blocks
+}
+
+// Plain text of the content, e.g. for tooltips and previews
+export function sectionContentText(content: string): string {
+  return parseSectionContent(content)
+    .flatMap(block => block.type === 'list' ? block.items : [block.inlines])
+    .map(inlines => inlines.map(node => node.text).join(''))
+    .join('\n')
+}
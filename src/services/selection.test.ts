@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest'
+import { Stage } from '../types'
+import { moveStages, alignStages } from './selection'
+
+const stage = (id: string, position: number, yPosition: number): Stage => ({ id, name: id, position, yPosition })
+
+const stageY = (stage: Stage) => stage.yPosition ?? 400
+const noSnap = (position: number) => position
+// a is 100px tall, b 200px, c 300px
+const geometry = { stageY, stageHeight: (stageId: string) => ({ a: 100, b: 200, c: 300 } as Record<string, number>)[stageId] ?? 0 }
+
+const stages = [stage('a', 10, 100), stage('b', 30, 300), stage('c', 60, 500)]
+
+describe('moveStages', () => {
+  it('moves the picked stages by the same amount and leaves the others', () => {
+    const moved = moveStages(stages, ['a', 'b'], 5, 20, stageY, noSnap)
+    expect(moved.map(s => [s.position, s.yPosition])).toEqual([[15, 120], [35, 320], [60, 500]])
+    expect(moved[2]).toBe(stages[2])
+  })
+
+  it('stops at the edges of the canvas', () => {
+    expect(moveStages(stages, ['a', 'c'], -30, 0, stageY, noSnap).map(s => s.position)).toEqual([0, 30, 50])
+    expect(moveStages(stages, ['a', 'c'], 60, 0, stageY, noSnap).map(s => s.position)).toEqual([50, 30, 100])
+  })
+
+  it('lets stages outside the range move back in, but not further out', () => {
+    const outside = [stage('a', -10, 0), stage('b', 50, 0)]
+    expect(moveStages(outside, ['a', 'b'], -5, 0, stageY, noSnap).map(s => s.position)).toEqual([-10, 50])
+    expect(moveStages(outside, ['a', 'b'], 5, 0, stageY, noSnap).map(s => s.position)).toEqual([-5, 55])
+  })
+
+  it('snaps positions and gives stages without a height one', () => {
+    const unplaced = [{ id: 'x', name: 'x', position: 10 }]
+    expect(moveStages(unplaced, ['x'], 3, 10, stageY, p => Math.round(p / 5) * 5)[0]).toMatchObject({ position: 15, yPosition: 410 })
+  })
+})
+
+describe('alignStages', () => {
+  const ys = (aligned: Stage[]) => aligned.map(s => s.yPosition)
+
+  it('lines up top edges, centers and bottom edges', () => {
+    // Top edges are at 50, 200 and 350; bottom edges at 150, 400 and 650
+    expect(ys(alignStages(stages, ['a', 'b', 'c'], 'top', geometry))).toEqual([100, 150, 200])
+    expect(ys(alignStages(stages, ['a', 'b', 'c'], 'middle', geometry))).toEqual([300, 300, 300])
+    expect(ys(alignStages(stages, ['a', 'b', 'c'], 'bottom', geometry))).toEqual([600, 550, 500])
+  })
+
+  it('moves stages into the leftmost column', () => {
+    expect(alignStages(stages, ['b', 'c'], 'column', geometry).map(s => s.position)).toEqual([10, 30, 30])
+  })
+
+  it('needs at least two stages', () => {
+    expect(alignStages(stages, ['a'], 'top', geometry)).toBe(stages)
+  })
+})
@@ -0,0 +1,67 @@
+// Operations on a group of selected stages
+//
+// The canvas lets the user pick several stages and flows at once, by shift-clicking them
+// or dragging a box around them. These helpers work out where the picked stages go when
+// they are moved or aligned together; the other stages are returned unchanged.
+import { Stage } from '../types'
+
+export type StageAlignment = 'top' | 'middle' | 'bottom' | 'column'
+
+interface StageGeometry {
+  // Vertical center of a stage in canvas pixels
+  stageY: (stage: Stage) => number
+  // Drawn height of a stage in canvas pixels
+  stageHeight: (stageId: string) => number
+}
+
+// Move the stages by the same amount, keeping them where they are relative to each other.
+// The horizontal move is limited so that none of them leaves the 0% to 100% range, and
+// positions are snapped the way a single dragged stage is.
+export function moveStages(
+  stages: Stage[],
+  stageIds: string[],
+  deltaPosition: number,
+  deltaY: number,
+  stageY: (stage: Stage) => number,
+  snap: (position: number) => number
+): Stage[] {
+  const moved = stages.filter(stage => stageIds.includes(stage.id))
+  if (moved.length === 0) return stages
+  const lowest = Math.min(...moved.map(stage => stage.position))
+  const highest = Math.max(...moved.map(stage => stage.position))
+  // Stages already outside the range may move back into it, but not further out
+  const delta = Math.max(Math.min(0, -lowest), Math.min(Math.max(0, 100 - highest), deltaPosition))
+  return stages.map(stage => {
+    if (!stageIds.includes(stage.id)) return stage
+    return { ...stage, position: snap(stage.position + delta), yPosition: stageY(stage) + deltaY }
+  })
+}
+
+// Line the stages up with the topmost top edge, the average center, the lowest bottom
+// edge, or the leftmost column
+export function alignStages(
+  stages: Stage[],
+  stageIds: string[],
+  alignment: StageAlignment,
+  { stageY, stageHeight }: StageGeometry
+): Stage[] {
+  const aligned = stages.filter(stage => stageIds.includes(stage.id))
+  if (aligned.length < 2) return stages
+  const top = (stage: Stage) => stageY(stage) - stageHeight(stage.id) / 2
+  const bottom = (stage: Stage) => stageY(stage) + stageHeight(stage.id) / 2
+
+  const place = (stage: Stage): Stage => {
+    switch (alignment) {
+      case 'top':
+        return { ...stage, yPosition: Math.min(...aligned.map(top)) + stageHeight(stage.id) / 2 }
+      case 'middle':
+        return { ...stage, yPosition: aligned.reduce((sum, s) => sum + stageY(s), 0) / aligned.length }
+      case 'bottom':
+        return { ...stage, yPosition: Math.max(...aligned.map(bottom)) - stageHeight(stage.id) / 2 }
+      case 'column':
+        return { ...stage, position: Math.min(...aligned.map(s => s.position)) }
+    }
+  }
+
+  return stages.map(stage => (stageIds.includes(stage.id) ? place(stage) : stage))
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest'
+import { Stage, Flow, Diagram } from '../types'
+import { createShareLink, readShareHash, isShareHash, ShareLinkError, MAX_SHARE_LINK_LENGTH } from './shareLink'
+import { DiagramFormatError } from './jsonFormat'
+import { bytesToBase64Url } from '../utils/base64'
+
+const diagram: Diagram = { id: 'd1', name: 'Checkout', createdAt: '2024-04-01T08:00:00.000Z', updatedAt: '2024-05-01T09:29:00.000Z' }
+const stages: Stage[] = [
+  { id: '1', name: 'Cart', position: 0 },
+  { id: '2', name: 'Payment', position: 100 },
+]
+const flows: Flow[] = [{ id: 'f1', name: 'Cart → Payment', fromStageId: '1', toStageId: '2', value: 80 }]
+
+// Text that doesn't compress, from a fixed seed so the test always sees the same data
+function noise(length: number, seed = 1): string {
+  let text = ''
+  for (let i = 0; i < length; i++) {
+    seed = (seed * 16807) % 2147483647
+    text += String.fromCharCode(33 + (seed % 90))
+  }
+  return text
+}
+
+describe('share links', () => {
+  it('carry the diagram in the hash', async () => {
+    const link = await createShareLink('https://example.com/app#old', diagram, stages, flows, [], { unit: 'users' })
+    expect(link.startsWith('https://example.com/app#share=')).toBe(true)
+
+    const hash = link.slice(link.indexOf('#'))
+    expect(isShareHash(hash)).toBe(true)
+    const file = await readShareHash(hash)
+    expect(file.diagram.name).toBe('Checkout')
+    expect(file.stages).toEqual(stages)
+    expect(file.flows).toEqual(flows)
+    expect(file.settings).toEqual({ unit: 'users' })
+  })
+
+  it('refuse diagrams that would make the link too long', async () => {
+    const large = Array.from({ length: 200 }, (_, i): Stage => ({ id: `s${i}`, name: noise(50, i + 1), position: 0 }))
+    await expect(createShareLink('https://example.com/', diagram, large, [])).rejects.toThrow(ShareLinkError)
+  })
+
+  it('report damaged and oversized links', async () => {
+    await expect(readShareHash('#share=not-deflated')).rejects.toThrow(/damaged or incomplete/)
+    await expect(readShareHash(`#share=${'a'.repeat(MAX_SHARE_LINK_LENGTH)}`)).rejects.toThrow(/too long/)
+  })
+
+  it('report links whose contents are not a diagram', async () => {
+    const output = new Blob([new TextEncoder().encode('{"format":"other"}')]).stream().pipeThrough(new CompressionStream('deflate-raw'))
+    const bytes = new Uint8Array(await new Response(output).arrayBuffer())
+    await expect(readShareHash(`#share=${bytesToBase64Url(bytes)}`)).rejects.toThrow(DiagramFormatError)
+  })
+
+  it('are recognized by their hash', () => {
+    expect(isShareHash('#share=abc')).toBe(true)
+    expect(isShareHash('#other')).toBe(false)
+    expect(isShareHash('')).toBe(false)
+  })
+})
@@ -0,0 +1,70 @@
+// Share links: a diagram in the JSON file format (see jsonFormat.ts), deflated and
+// base64url-encoded into the URL hash, e.g. https://example.com/#share=<data>.
+// The hash never reaches a server, so a link works without any shared storage.
+import { Stage, Flow, Section, Diagram, AttributeDefinition, DiagramSettings } from '../types'
+import { exportDiagramJson, parseDiagramJson, DiagramFile } from './jsonFormat'
+import { bytesToBase64Url, base64UrlToBytes } from '../utils/base64'
+
+const SHARE_HASH_PREFIX = '#share='
+
+// Longer links get cut off by chat tools, mail clients and some browsers
+export const MAX_SHARE_LINK_LENGTH = 8000
+
+export class ShareLinkError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ShareLinkError'
+  }
+}
+
+// CompressionStream is missing in older browsers
+export function isShareLinkSupported(): boolean {
+  return typeof CompressionStream !== 'undefined' && typeof DecompressionStream !== 'undefined'
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes as BlobPart]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+// Link that opens a read-only preview of the diagram. Throws ShareLinkError if it would be too long.
+export async function createShareLink(
+  baseUrl: string,
+  diagram: Diagram,
+  stages: Stage[],
+  flows: Flow[],
+  attributeDefinitions: AttributeDefinition[] = [],
+  settings: DiagramSettings = {},
+  sections: Section[] = []
+): Promise<string> {
+  const json = exportDiagramJson(diagram, stages, flows, attributeDefinitions, settings, sections)
+  const compressed = await transform(new TextEncoder().encode(json), new CompressionStream('deflate-raw'))
+  const link = `${baseUrl.split('#')[0]}${SHARE_HASH_PREFIX}${bytesToBase64Url(compressed)}`
+  if (link.length > MAX_SHARE_LINK_LENGTH) {
+    throw new ShareLinkError(
+      `The diagram is too large for a share link (${link.length.toLocaleString()} characters, at most ${MAX_SHARE_LINK_LENGTH.toLocaleString()}). Use Export JSON and send the file instead.`
+    )
+  }
+  return link
+}
+
+export function isShareHash(hash: string): boolean {
+  return hash.startsWith(SHARE_HASH_PREFIX)
+}
+
+// Diagram in a share link hash. Throws ShareLinkError for damaged links and
+// DiagramFormatError if the contents aren't a valid diagram.
+export async function readShareHash(hash: string): Promise<DiagramFile> {
+  const data = hash.slice(SHARE_HASH_PREFIX.length)
+  if (data.length + SHARE_HASH_PREFIX.length > MAX_SHARE_LINK_LENGTH) {
+    throw new ShareLinkError('The share link is too long to be opened.')
+  }
+  let json: string
+  try {
+    const bytes = await transform(base64UrlToBytes(data), new DecompressionStream('deflate-raw'))
+    json = new TextDecoder().decode(bytes)
+  } catch {
+    throw new ShareLinkError('The share link is damaged or incomplete. Ask for a new link, or for an exported JSON file.')
+  }
+  return parseDiagramJson(json)
+}
@@ -0,0 +1,43 @@
+// Storage adapter for the SQL.js database kept in IndexedDB
+import { StorageAdapter } from './storageAdapter'
+import * as database from './database'
+import * as localStorageDB from './localStorageDB'
+import { createLocalViewStateStore } from './localStorageAdapter'
+
+export const sqljsAdapter: StorageAdapter = {
+  id: 'sqljs',
+  label: 'SQLite (browser)',
+  persistent: true,
+
+  init: () => database.initDatabase(),
+  listDiagrams: () => database.listDiagrams(),
+  createDiagram: (name, id) => database.createDiagram(name, id),
+  renameDiagram: (diagramId, name) => database.renameDiagram(diagramId, name),
+  deleteDiagram: async (diagramId) => {
+    await database.deleteDiagram(diagramId)
+    await localStorageDB.deleteViewStateLocalStorage('sqljs', diagramId)
+  },
+  load: (diagramId) => database.loadAll(diagramId),
+  save: (diagramId, data) => database.saveAll(diagramId, data.stages, data.flows, data.attributeDefinitions, data.settings, data.sections),
+
+  snapshots: {
+    create: (diagramId, name, trigger, data) => database.createSnapshot(
+      diagramId, name, trigger, data.stages, data.flows, data.attributeDefinitions, data.settings, data.sections
+    ),
+    list: (diagramId) => database.listSnapshots(diagramId),
+    load: (snapshotId) => database.loadSnapshot(snapshotId),
+    delete: (snapshotId) => database.deleteSnapshot(snapshotId),
+  },
+
+  rawFile: {
+    extension: 'sqlite',
+    exportFile: () => database.exportDatabaseFile(),
+    importFile: (bytes) => database.importDatabaseFile(bytes),
+  },
+
+  // Not in the database: every save rewrites the whole file, and moving around isn't an edit
+  viewStates: createLocalViewStateStore('sqljs'),
+
+  reload: () => database.reloadDatabaseFromIndexedDB(),
+  rewriteStoredData: () => database.rewriteDatabaseToIndexedDB(),
+}
@@ -0,0 +1,176 @@
+// Storage backends behind one typed interface
+//
+// The app talks to a StorageAdapter only. Which one is used is chosen explicitly:
+// a `?storage=<id>` URL parameter wins, then the choice saved in localStorage,
+// then the SQL.js database. If the SQL.js database can't start (e.g. WebAssembly is
+// blocked) the app falls back to localStorage and says so in the header.
+import { Stage, Flow, Diagram, Snapshot, SnapshotSummary, ViewState, AttributeDefinition, DiagramSettings, Section } from '../types'
+import { withTabSync } from './tabSync'
+
+export type StorageAdapterId = 'sqljs' | 'localStorage' | 'memory' | 'rest'
+
+export interface DiagramData {
+  stages: Stage[]
+  flows: Flow[]
+  // Accordions between stages. Adapters always return them; older data may leave them out.
+  sections?: Section[]
+  // Custom attributes the stages and flows can have values for. Adapters always return
+  // them when loading; data from older code may leave them out.
+  attributeDefinitions?: AttributeDefinition[]
+  // Root total and unit; empty when not set. Left out like attributeDefinitions by older data.
+  settings?: DiagramSettings
+}
+
+export interface SnapshotStore {
+  create(diagramId: string, name: string, trigger: Snapshot['trigger'], data: DiagramData): Promise<Snapshot>
+  list(diagramId: string): Promise<SnapshotSummary[]>
+  load(snapshotId: string): Promise<Snapshot | null>
+  delete(snapshotId: string): Promise<void>
+}
+
+// Zoom, pan and similar UI state per diagram. Saving it is not an edit of the diagram.
+export interface ViewStateStore {
+  load(diagramId: string): Promise<ViewState | null>
+  save(diagramId: string, viewState: ViewState): Promise<void>
+}
+
+export interface RawFileStore {
+  // Extension of exported files, without the dot
+  extension: string
+  exportFile(): Promise<Uint8Array>
+  importFile(bytes: Uint8Array): Promise<void>
+}
+
+export interface StorageAdapter {
+  id: StorageAdapterId
+  label: string
+  // Whether data survives a page reload
+  persistent: boolean
+
+  init(): Promise<void>
+  listDiagrams(): Promise<Diagram[]>
+  createDiagram(name: string, id?: string): Promise<Diagram>
+  renameDiagram(diagramId: string, name: string): Promise<void>
+  deleteDiagram(diagramId: string): Promise<void>
+  load(diagramId: string): Promise<DiagramData>
+  save(diagramId: string, data: DiagramData): Promise<void>
+
+  // Optional capabilities - absent when the backend can't support them
+  snapshots?: SnapshotStore
+  rawFile?: RawFileStore
+  viewStates?: ViewStateStore
+  // Drop data cached in this tab so the next read sees what other tabs wrote
+  reload?(): Promise<void>
+  // Write all stored data again, e.g. after a passphrase was set or removed.
+  // Present for backends that keep data in this browser, see services/encryption.ts
+  rewriteStoredData?(): Promise<void>
+}
+
+// A backend request failed, e.g. the server is down or answered with an error
+export class StorageRequestError extends Error {
+  status: number | null
+
+  constructor(message: string, status: number | null = null) {
+    super(message)
+    this.name = 'StorageRequestError'
+    this.status = status
+  }
+}
+
+// Someone else changed the diagram since it was loaded, so saving would overwrite their work
+export class StorageConflictError extends Error {
+  diagramId: string
+  // When the stored copy was last changed, if the backend reported it
+  remoteUpdatedAt: string | null
+
+  constructor(diagramId: string, remoteUpdatedAt: string | null = null) {
+    super('The diagram was changed elsewhere since it was opened')
+    this.name = 'StorageConflictError'
+    this.diagramId = diagramId
+    this.remoteUpdatedAt = remoteUpdatedAt
+  }
+}
+
+export interface StorageAdapterOption {
+  id: StorageAdapterId
+  label: string
+  description: string
+}
+
+export const STORAGE_ADAPTERS: StorageAdapterOption[] = [
+  { id: 'sqljs', label: 'SQLite (browser)', description: 'SQL.js database kept in IndexedDB. Supports snapshots and .sqlite files.' },
+  { id: 'localStorage', label: 'Local storage', description: 'Plain JSON in the browser\'s localStorage.' },
+  { id: 'rest', label: 'Server', description: 'Shared HTTP server, e.g. the reference server started with npm run server.' },
+  { id: 'memory', label: 'Memory', description: 'Nothing is saved - data is lost on reload. For testing.' },
+]
+
+const STORAGE_ADAPTER_KEY = 'flow_app_storage_adapter'
+const DEFAULT_ADAPTER_ID: StorageAdapterId = 'sqljs'
+
+const isAdapterId = (value: unknown): value is StorageAdapterId =>
+  STORAGE_ADAPTERS.some(option => option.id === value)
+
+// The adapter the user asked for, before any fallback
+export function getSelectedAdapterId(): StorageAdapterId {
+  const fromUrl = new URLSearchParams(window.location.search).get('storage')
+  if (isAdapterId(fromUrl)) return fromUrl
+
+  const saved = localStorage.getItem(STORAGE_ADAPTER_KEY)
+  return isAdapterId(saved) ? saved : DEFAULT_ADAPTER_ID
+}
+
+// Remember the adapter to use from the next start on
+export function setSelectedAdapterId(id: StorageAdapterId): void {
+  localStorage.setItem(STORAGE_ADAPTER_KEY, id)
+}
+
+// Adapters are loaded on demand so a broken backend can't block app startup
+export async function createStorageAdapter(id: StorageAdapterId): Promise<StorageAdapter> {
+  switch (id) {
+    case 'sqljs':
+      return (await import('./sqljsAdapter')).sqljsAdapter
+    case 'localStorage':
+      return (await import('./localStorageAdapter')).localStorageAdapter
+    case 'memory':
+      return (await import('./memoryAdapter')).createMemoryAdapter()
+    case 'rest':
+      return (await import('./restAdapter')).createRestAdapter()
+  }
+}
+
+export interface OpenedStorage {
+  adapter: StorageAdapter
+  // Set when the selected adapter failed to start and another one is used instead
+  fallbackReason?: string
+}
+
+let openedStorage: Promise<OpenedStorage> | null = null
+
+async function openSelectedStorage(): Promise<OpenedStorage> {
+  const selectedId = getSelectedAdapterId()
+  try {
+    const adapter = await createStorageAdapter(selectedId)
+    await adapter.init()
+    console.log(`Storage adapter "${adapter.id}" initialized`)
+    return { adapter: withTabSync(adapter) }
+  } catch (error) {
+    if (selectedId === 'localStorage') throw error
+
+    console.warn(`Storage adapter "${selectedId}" failed to initialize, falling back to localStorage:`, error)
+    const adapter = await createStorageAdapter('localStorage')
+    await adapter.init()
+    const label = STORAGE_ADAPTERS.find(option => option.id === selectedId)?.label ?? selectedId
+    return { adapter: withTabSync(adapter), fallbackReason: `${label} is unavailable: ${error instanceof Error ? error.message : error}` }
+  }
+}
+
+// Open the selected storage once and share it. A failed attempt is retried on the next call.
+export function openStorage(): Promise<OpenedStorage> {
+  if (!openedStorage) {
+    openedStorage = openSelectedStorage().catch(error => {
+      openedStorage = null
+      throw error
+    })
+  }
+  return openedStorage
+}
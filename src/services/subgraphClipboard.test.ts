@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest'
+import { Stage, Flow, AttributeDefinition } from '../types'
+import { copySubgraph, readSubgraph, instantiateSubgraph } from './subgraphClipboard'
+
+const definitions: AttributeDefinition[] = [
+  { id: 'owner', name: 'Owner', type: 'text' },
+  { id: 'tier', name: 'Tier', type: 'enum', options: ['Gold', 'Silver'] },
+  { id: 'unused', name: 'Unused', type: 'text' },
+]
+
+const stages: Stage[] = [
+  { id: 'a', name: 'Start', position: 0, yPosition: 100, attributes: { owner: 'Web team' } },
+  { id: 'b', name: 'Middle', position: 50 },
+  { id: 'c', name: 'End', position: 100, yPosition: 300 },
+]
+
+const flows: Flow[] = [
+  { id: 'f1', name: 'Start → Middle', fromStageId: 'a', toStageId: 'b', value: 60, attributes: { tier: 'Gold' } },
+  { id: 'f2', name: 'Middle → End', fromStageId: 'b', toStageId: 'c', value: 40 },
+]
+
+const stageY = (stage: Stage) => stage.yPosition ?? 400
+
+describe('copySubgraph and readSubgraph', () => {
+  it('copy the stages, the flows between them and the attributes they use', () => {
+    const file = readSubgraph(copySubgraph(stages, flows, ['a', 'b'], definitions, stageY))!
+    expect(file.stages.map(s => [s.id, s.yPosition])).toEqual([['a', 100], ['b', 400]])
+    expect(file.flows.map(f => f.id)).toEqual(['f1'])
+    expect(file.attributeDefinitions.map(d => d.id)).toEqual(['owner', 'tier'])
+  })
+
+  it('ignore text that is not a copy', () => {
+    expect(readSubgraph('Hello')).toBeNull()
+    expect(readSubgraph('{"format":"flow-diagram"}')).toBeNull()
+    expect(readSubgraph(copySubgraph(stages, flows, [], definitions, stageY))).toBeNull()
+  })
+})
+
+describe('instantiateSubgraph', () => {
+  const file = readSubgraph(copySubgraph(stages, flows, ['a', 'b', 'c'], definitions, stageY))!
+
+  it('gives every stage and flow a new id and keeps the links between them', () => {
+    const copy = instantiateSubgraph(file, definitions)
+    const ids = [...copy.stages, ...copy.flows].map(item => item.id)
+    expect(new Set(ids).size).toBe(5)
+    expect(ids.some(id => ['a', 'b', 'c', 'f1', 'f2'].includes(id))).toBe(false)
+    expect(copy.flows[0].fromStageId).toBe(copy.stages[0].id)
+    expect(copy.flows[1].toStageId).toBe(copy.stages[2].id)
+    expect(copy.stages.map(s => s.name)).toEqual(['Start', 'Middle', 'End'])
+  })
+
+  it('keeps attribute values where the diagram has an attribute with the same name and type', () => {
+    const target: AttributeDefinition[] = [
+      { id: 'other-owner', name: 'Owner', type: 'text' },
+      { id: 'other-tier', name: 'Tier', type: 'enum', options: ['Bronze'] },
+    ]
+    const copy = instantiateSubgraph(file, target)
+    expect(copy.stages[0].attributes).toEqual({ 'other-owner': 'Web team' })
+    // "Gold" isn't one of the choices here
+    expect(copy.flows[0].attributes).toBeUndefined()
+    expect(instantiateSubgraph(file, []).stages[0].attributes).toBeUndefined()
+  })
+})
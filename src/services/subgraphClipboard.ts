@@ -0,0 +1,91 @@
+// Copy and paste of stages and the flows between them
+//
+// A copy is written to the system clipboard in the diagram JSON format (see jsonFormat.ts),
+// so it can be pasted into another diagram, in another tab, or even be imported as a
+// diagram of its own. Pasting gives every stage and flow a new id; where the copy goes
+// on the canvas is up to the caller.
+import { Stage, Flow, AttributeDefinition, AttributeValues } from '../types'
+import { exportDiagramJson, parseDiagramJson, DiagramFile, DiagramFormatError } from './jsonFormat'
+import { validateAttributeValue } from './attributes'
+
+const COPY_NAME = 'Copied stages'
+
+export interface Subgraph {
+  stages: Stage[]
+  flows: Flow[]
+}
+
+// Clipboard text for the given stages and every flow between two of them. Stages get
+// their vertical center (yPosition) written out, also where it was only the default, so
+// the copy keeps its shape wherever it is pasted.
+export function copySubgraph(
+  stages: Stage[],
+  flows: Flow[],
+  stageIds: string[],
+  attributeDefinitions: AttributeDefinition[],
+  stageY: (stage: Stage) => number
+): string {
+  const copiedStages = stages
+    .filter(stage => stageIds.includes(stage.id))
+    .map(stage => ({ ...stage, yPosition: stageY(stage) }))
+  const copiedFlows = flows.filter(flow => stageIds.includes(flow.fromStageId) && stageIds.includes(flow.toStageId))
+  const now = new Date().toISOString()
+  return exportDiagramJson(
+    { id: '', name: COPY_NAME, createdAt: now, updatedAt: now },
+    copiedStages,
+    copiedFlows,
+    attributeDefinitions.filter(definition =>
+      [...copiedStages, ...copiedFlows].some(item => item.attributes?.[definition.id] !== undefined)
+    )
+  )
+}
+
+// The copy on the clipboard, or null if the text is something else, e.g. text copied
+// from another page
+export function readSubgraph(text: string): DiagramFile | null {
+  try {
+    const file = parseDiagramJson(text)
+    return file.stages.length > 0 ? file : null
+  } catch (error) {
+    if (error instanceof DiagramFormatError) return null
+    throw error
+  }
+}
+
+// Stages and flows of a copy with new ids, ready to be added to a diagram. Attribute
+// values are kept for attributes the diagram has with the same name and type, if they
+// fit it, e.g. are one of its choices.
+export function instantiateSubgraph(file: DiagramFile, attributeDefinitions: AttributeDefinition[]): Subgraph {
+  const base = Date.now().toString()
+  const stageIds = new Map(file.stages.map((stage, index) => [stage.id, `${base}-${index + 1}`]))
+
+  const definitions = new Map<string, AttributeDefinition>()
+  for (const copied of file.attributeDefinitions) {
+    const match = attributeDefinitions.find(d => d.name === copied.name && d.type === copied.type)
+    if (match) definitions.set(copied.id, match)
+  }
+  const mapAttributes = (values: AttributeValues | undefined): AttributeValues | undefined => {
+    if (!values) return undefined
+    const mapped: Array<[string, string]> = []
+    for (const [id, value] of Object.entries(values)) {
+      const definition = definitions.get(id)
+      if (definition && validateAttributeValue(definition, value) === null) mapped.push([definition.id, value])
+    }
+    return mapped.length > 0 ? Object.fromEntries(mapped) : undefined
+  }
+
+  return {
+    stages: file.stages.map(stage => ({
+      ...stage,
+      id: stageIds.get(stage.id) as string,
+      attributes: mapAttributes(stage.attributes),
+    })),
+    flows: file.flows.map((flow, index) => ({
+      ...flow,
+      id: `${base}-flow-${index + 1}`,
+      fromStageId: stageIds.get(flow.fromStageId) as string,
+      toStageId: stageIds.get(flow.toStageId) as string,
+      attributes: mapAttributes(flow.attributes),
+    })),
+  }
+}
@@ -0,0 +1,110 @@
+// Keep several open tabs of the app in step
+//
+// Every tab works on its own copy of the data - for SQL.js the whole database, read from
+// IndexedDB once at startup - so without this the last tab to save silently overwrites
+// the others. Tabs announce every write on a BroadcastChannel. A tab that hears about
+// one reloads its storage and checks whether the open diagram is out of date.
+import { StorageAdapter, StorageAdapterId } from './storageAdapter'
+
+const CHANNEL_NAME = 'flow_app_sync'
+
+// Identifies this tab, so it can ignore its own messages
+const TAB_ID = `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
+
+export type TabSyncChange =
+  // Stages and flows of a diagram were saved
+  | { type: 'contents'; diagramId: string }
+  // Diagrams were created, renamed or deleted
+  | { type: 'diagrams' }
+  // Snapshots of a diagram were taken or deleted (null if the diagram isn't known)
+  | { type: 'snapshots'; diagramId: string | null }
+  // Everything was replaced, e.g. by importing a database file
+  | { type: 'replaced' }
+
+export type TabSyncMessage = TabSyncChange & {
+  tabId: string
+  storageId: StorageAdapterId
+}
+
+let channel: BroadcastChannel | null = null
+
+// Older browsers have no BroadcastChannel - tabs then just don't hear about each other
+function getChannel(): BroadcastChannel | null {
+  if (!channel && typeof BroadcastChannel !== 'undefined') {
+    channel = new BroadcastChannel(CHANNEL_NAME)
+  }
+  return channel
+}
+
+export function announceChange(storageId: StorageAdapterId, change: TabSyncChange): void {
+  try {
+    getChannel()?.postMessage({ ...change, tabId: TAB_ID, storageId })
+  } catch (error) {
+    console.warn('Failed to notify other tabs:', error)
+  }
+}
+
+// Listen for changes made in other tabs. Returns a function that stops listening.
+export function subscribeToOtherTabs(storageId: StorageAdapterId, handler: (message: TabSyncMessage) => void): () => void {
+  const current = getChannel()
+  if (!current) return () => {}
+
+  const listener = (event: MessageEvent<TabSyncMessage>) => {
+    if (event.data?.tabId === TAB_ID || event.data?.storageId !== storageId) return
+    handler(event.data)
+  }
+  current.addEventListener('message', listener)
+  return () => current.removeEventListener('message', listener)
+}
+
+// Wrap an adapter so every successful write is announced to other tabs.
+// Adapters that don't persist anything share nothing between tabs and are returned as is.
+export function withTabSync(adapter: StorageAdapter): StorageAdapter {
+  if (!adapter.persistent) return adapter
+
+  const announce = (change: TabSyncChange) => announceChange(adapter.id, change)
+  const { snapshots, rawFile } = adapter
+
+  return {
+    ...adapter,
+
+    createDiagram: async (name, id) => {
+      const diagram = await adapter.createDiagram(name, id)
+      announce({ type: 'diagrams' })
+      return diagram
+    },
+    renameDiagram: async (diagramId, name) => {
+      await adapter.renameDiagram(diagramId, name)
+      announce({ type: 'diagrams' })
+    },
+    deleteDiagram: async (diagramId) => {
+      await adapter.deleteDiagram(diagramId)
+      announce({ type: 'diagrams' })
+    },
+    save: async (diagramId, data) => {
+      await adapter.save(diagramId, data)
+      announce({ type: 'contents', diagramId })
+    },
+
+    snapshots: snapshots && {
+      ...snapshots,
+      create: async (diagramId, name, trigger, data) => {
+        const snapshot = await snapshots.create(diagramId, name, trigger, data)
+        announce({ type: 'snapshots', diagramId })
+        return snapshot
+      },
+      delete: async (snapshotId) => {
+        await snapshots.delete(snapshotId)
+        announce({ type: 'snapshots', diagramId: null })
+      },
+    },
+
+    rawFile: rawFile && {
+      ...rawFile,
+      importFile: async (bytes) => {
+        await rawFile.importFile(bytes)
+        announce({ type: 'replaced' })
+      },
+    },
+  }
+}
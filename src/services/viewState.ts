@@ -0,0 +1,26 @@
+// Stored view state of a diagram (zoom, pan, ...), see ViewState in types.ts
+import { ViewState } from '../types'
+
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value)
+
+// Read a stored view state. Anything unreadable counts as no view state, so the
+// canvas falls back to its defaults instead of opening somewhere odd.
+export function parseViewState(text: string | null): ViewState | null {
+  if (!text) return null
+  try {
+    const value = JSON.parse(text)
+    if (!isFiniteNumber(value?.zoom) || value.zoom <= 0 || !isFiniteNumber(value.pan?.x) || !isFiniteNumber(value.pan?.y)) {
+      return null
+    }
+    return {
+      zoom: value.zoom,
+      pan: { x: value.pan.x, y: value.pan.y },
+      zoomLocked: value.zoomLocked === true,
+      selectedStageId: typeof value.selectedStageId === 'string' ? value.selectedStageId : null,
+      scrollLeft: isFiniteNumber(value.scrollLeft) ? value.scrollLeft : 0,
+    }
+  } catch (error) {
+    console.warn('Ignoring unreadable view state:', error)
+    return null
+  }
+}
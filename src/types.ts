@@ -5,6 +5,10 @@ export interface Stage {
   yPosition?: number; // y position from top (in pixels, optional - defaults to center)
   color?: string;
   description?: string;
+  attributes?: AttributeValues; // values of custom attributes, see AttributeDefinition
+  pinned?: boolean; // auto layout leaves pinned stages where they are
+  manualBandOrder?: boolean; // outgoing bands keep the order they were dragged into (branchIndex)
+  manualIncomingBandOrder?: boolean; // incoming bands keep the order they were dragged into (targetIndex)
 }
 
 export interface Flow {
@@ -15,5 +19,77 @@ export interface Flow {
   value: number; // Flow value/quantity for Sankey diagram (determines width)
   branchIndex?: number; // For multiple branches from same stage
   color?: string;
+  attributes?: AttributeValues; // values of custom attributes, see AttributeDefinition
+  periodValues?: Record<string, number>; // value per period label, e.g. "2024-W05"; `value` is the default
+  targetIndex?: number; // Place among the bands entering the target stage, see manualIncomingBandOrder
 }
 
+// Horizontal accordion spanning the part of the diagram between two stages,
+// with notes about that part. Shown collapsed to its title until opened on the canvas.
+export interface Section {
+  id: string;
+  name: string;
+  fromStageId: string;
+  toStageId: string;
+  content?: string; // formatted text, see services/sectionContent.ts
+  color?: string;
+}
+
+export type AttributeType = 'text' | 'number' | 'date' | 'url' | 'enum';
+
+// Custom field, such as owner or SLA, that the stages and flows of a diagram can have a value for
+export interface AttributeDefinition {
+  id: string;
+  name: string;
+  type: AttributeType;
+  options?: string[]; // allowed values of an enum attribute
+}
+
+// Attribute values by definition id. Values are kept as text: numbers as typed,
+// dates as YYYY-MM-DD. Attributes without a value are left out.
+export type AttributeValues = Record<string, string>;
+
+
+// Settings of a single diagram, stored with its stages and flows
+export interface DiagramSettings {
+  rootTotal?: number; // absolute amount the root stages stand for; flow values are percentages of it
+  unit?: string; // unit of the absolute amounts, e.g. "users", "€" or "requests/s"
+}
+
+export interface Diagram {
+  id: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+// Frozen copy of a diagram's stages and flows at a point in time
+export interface Snapshot {
+  id: string;
+  diagramId: string;
+  name: string;
+  createdAt: string; // ISO timestamp
+  trigger: 'manual' | 'save';
+  stages: Stage[];
+  flows: Flow[];
+  sections?: Section[];
+  attributeDefinitions?: AttributeDefinition[];
+  settings?: DiagramSettings;
+}
+
+export type SnapshotSummary = Omit<Snapshot, 'stages' | 'flows' | 'sections' | 'attributeDefinitions' | 'settings'> & {
+  stageCount: number;
+  flowCount: number;
+}
+
+// Where the user left the canvas of a diagram, restored when it is opened again
+export interface ViewState {
+  zoom: number;
+  pan: { x: number; y: number };
+  zoomLocked: boolean;
+  selectedStageId: string | null;
+  scrollLeft: number; // horizontal scroll of the canvas container, in pixels
+}
+
+// Diagram that holds data saved before multiple diagrams were supported
+export const DEFAULT_DIAGRAM_ID = 'default'
@@ -0,0 +1,29 @@
+// Base64 conversion for binary data kept in text form, e.g. in localStorage
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  // Chunked so large arrays don't exceed the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000))
+  }
+  return btoa(binary)
+}
+
+export function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64)
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+// URL-safe variant without padding, e.g. for data in a URL hash
+export function bytesToBase64Url(bytes: Uint8Array): string {
+  return bytesToBase64(bytes).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+export function base64UrlToBytes(base64Url: string): Uint8Array {
+  const base64 = base64Url.replace(/-/g, '+').replace(/_/g, '/')
+  return base64ToBytes(base64.padEnd(Math.ceil(base64.length / 4) * 4, '='))
+}
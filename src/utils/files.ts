@@ -0,0 +1,33 @@
+// Browser helpers for downloading and picking files
+
+// Offer data to the user as a file download
+export function downloadFile(data: string | Uint8Array, filename: string, mimeType: string): void {
+  // Typed arrays from sql.js are always backed by a plain ArrayBuffer
+  const blob = new Blob([data as BlobPart], { type: mimeType })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  // Give the browser a moment to start the download before releasing the blob
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+// Ask the user for a single file. Resolves with null if the dialog is cancelled.
+export function pickFile(accept: string): Promise<File | null> {
+  return new Promise((resolve) => {
+    const input = document.createElement('input')
+    input.type = 'file'
+    input.accept = accept
+    input.onchange = () => resolve(input.files?.[0] ?? null)
+    input.addEventListener('cancel', () => resolve(null))
+    input.click()
+  })
+}
+
+// Today's date as YYYY-MM-DD, for default file names
+export function dateStamp(date: Date = new Date()): string {
+  return date.toISOString().slice(0, 10)
+}